@@ -1,4 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  experimental: {
+    // Starts the in-process monitoring scheduler from src/instrumentation.ts.
+    instrumentationHook: true,
+  },
+};
 
 export default nextConfig;
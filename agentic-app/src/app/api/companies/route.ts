@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { companyRegistryStore } from "@/lib/bundled-stores";
+import { validateCompanyRegistry } from "@/lib/validation";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const companies = await companyRegistryStore.read();
+    return NextResponse.json({ companies });
+  } catch (error) {
+    console.error("Failed to load company registry", error);
+    return NextResponse.json(
+      { error: "Unable to load the company registry." },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  const body = (await request.json().catch(() => null)) as {
+    companies?: unknown;
+  } | null;
+  const validation = validateCompanyRegistry(body?.companies);
+  if (!validation.ok) {
+    return NextResponse.json(
+      { error: "Invalid company registry.", fieldErrors: validation.errors },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const companies = await companyRegistryStore.save(validation.value);
+    return NextResponse.json({ companies });
+  } catch (error) {
+    console.error("Failed to save company registry", error);
+    return NextResponse.json(
+      { error: "Unable to save the company registry." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { entityDictionaryStore } from "@/lib/bundled-stores";
+import { validateEntityDictionary } from "@/lib/validation";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const terms = await entityDictionaryStore.read();
+    return NextResponse.json({ terms });
+  } catch (error) {
+    console.error("Failed to load entity dictionary", error);
+    return NextResponse.json(
+      { error: "Unable to load the entity dictionary." },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  const body = (await request.json().catch(() => null)) as {
+    terms?: unknown;
+  } | null;
+  const validation = validateEntityDictionary(body?.terms);
+  if (!validation.ok) {
+    return NextResponse.json(
+      { error: "Invalid entity dictionary.", fieldErrors: validation.errors },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const terms = await entityDictionaryStore.save(validation.value);
+    return NextResponse.json({ terms });
+  } catch (error) {
+    console.error("Failed to save entity dictionary", error);
+    return NextResponse.json(
+      { error: "Unable to save the entity dictionary." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { eventRulesStore } from "@/lib/bundled-stores";
+import { validateEventRules } from "@/lib/validation";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const rules = await eventRulesStore.read();
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error("Failed to load event rules", error);
+    return NextResponse.json(
+      { error: "Unable to load the event rules." },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  const body = (await request.json().catch(() => null)) as {
+    rules?: unknown;
+  } | null;
+  const validation = validateEventRules(body?.rules);
+  if (!validation.ok) {
+    return NextResponse.json(
+      { error: "Invalid event rules.", fieldErrors: validation.errors },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const rules = await eventRulesStore.save(validation.value);
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error("Failed to save event rules", error);
+    return NextResponse.json(
+      { error: "Unable to save the event rules." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { configuredExpanders } from "@/lib/expanders";
+import { proposeExpansions } from "@/lib/expansion";
+import { validateKeywordRows } from "@/lib/validation";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const expanders = await configuredExpanders();
+    return NextResponse.json({
+      expanders: expanders.map(({ id, label }) => ({ id, label })),
+    });
+  } catch (error) {
+    console.error("Failed to list query expanders", error);
+    return NextResponse.json(
+      { error: "Unable to list query expanders." },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as {
+    keywords?: unknown;
+    expander?: unknown;
+  } | null;
+  const validation = validateKeywordRows(body?.keywords);
+  if (!validation.ok) {
+    return NextResponse.json(
+      { error: "Invalid keywords.", fieldErrors: validation.errors },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const expanders = await configuredExpanders();
+    const expander =
+      expanders.find((candidate) => candidate.id === body?.expander) ??
+      expanders[0];
+    const proposals = await proposeExpansions(
+      expander,
+      validation.value,
+      request.signal,
+    );
+    return NextResponse.json({ expander: expander.id, proposals });
+  } catch (error) {
+    console.error("Failed to expand keywords", error);
+    return NextResponse.json(
+      { error: "Unable to expand keywords." },
+      { status: 500 },
+    );
+  }
+}
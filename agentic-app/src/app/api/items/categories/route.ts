@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import {
+  InvalidScopeError,
+  recategorizeItems,
+  setItemCategory,
+} from "@/lib/lifecycle";
+import { recategorizeIndexedItems } from "@/lib/item-index";
+import { recategorizeRuns } from "@/lib/runs";
+import { validateCategoryChange } from "@/lib/validation";
+
+export const dynamic = "force-dynamic";
+
+type CategoryUpdate = {
+  workspaceId?: string | null;
+  item: { url: string; title: string; summary?: string };
+  /** Null, or both categories blank, forgets the override. */
+  categories: { sopCategory?: string; businessCategory?: string } | null;
+};
+
+function text(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+export async function PUT(request: Request) {
+  try {
+    const payload = (await request.json()) as CategoryUpdate;
+    if (!payload.item || !text(payload.item.url) || !text(payload.item.title)) {
+      return NextResponse.json(
+        { error: "Provide the item's url and title." },
+        { status: 400 },
+      );
+    }
+    const sopCategory = text(payload.categories?.sopCategory);
+    const businessCategory = text(payload.categories?.businessCategory);
+    const record = await setItemCategory(
+      payload.workspaceId ?? null,
+      {
+        url: payload.item.url,
+        title: payload.item.title,
+        summary: text(payload.item.summary),
+      },
+      sopCategory || businessCategory
+        ? {
+            ...(sopCategory ? { sopCategory } : {}),
+            ...(businessCategory ? { businessCategory } : {}),
+          }
+        : null,
+    );
+    return NextResponse.json({ record });
+  } catch (error) {
+    if (error instanceof InvalidScopeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to update item categories", error);
+    return NextResponse.json(
+      { error: "Unable to update item categories." },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Carries a taxonomy rename or merge into the workspace's stored items:
+ * analyst overrides, the results of recorded runs and the search index.
+ */
+export async function POST(request: Request) {
+  try {
+    const payload = (await request.json()) as {
+      workspaceId?: string | null;
+      change?: unknown;
+    };
+    const validation = validateCategoryChange(payload.change);
+    if (!validation.ok) {
+      return NextResponse.json(
+        { error: "Invalid category change.", fieldErrors: validation.errors },
+        { status: 400 },
+      );
+    }
+    const workspaceId = payload.workspaceId ?? null;
+    const items = await recategorizeItems(workspaceId, validation.value);
+    const runs = await recategorizeRuns(workspaceId, validation.value);
+    const indexed = await recategorizeIndexedItems(
+      workspaceId,
+      validation.value,
+    );
+    return NextResponse.json({ items, runs, indexed });
+  } catch (error) {
+    if (error instanceof InvalidScopeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to recategorize stored items", error);
+    return NextResponse.json(
+      { error: "Unable to update stored item categories." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { companyRegistryStore } from "@/lib/bundled-stores";
+import { QuerySyntaxError } from "@/lib/keyword-rules";
+import { InvalidScopeError } from "@/lib/lifecycle";
+import { readIndexedBodies } from "@/lib/item-index";
+import { loadSearchIndex } from "@/lib/runs";
+import { ItemSearch, parseItemSearch, searchItems } from "@/lib/search-index";
+import type { FieldError } from "@/lib/validation";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+function boundedNumber(value: string | null, fallback: number, max: number) {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed >= 0
+    ? Math.min(parsed, max)
+    : fallback;
+}
+
+/**
+ * Parses `q` and the optional `from`/`to` dates, which take the same forms
+ * as the `from:` and `to:` prefixes and override them.
+ */
+function readSearch(params: URLSearchParams) {
+  const errors: FieldError[] = [];
+  const parse = (field: string, source: string) => {
+    try {
+      return parseItemSearch(source);
+    } catch (error) {
+      if (!(error instanceof QuerySyntaxError)) throw error;
+      errors.push({ field, message: error.message });
+      return null;
+    }
+  };
+  const search = parse("q", params.get("q") ?? "");
+  const from = params.get("from")?.trim();
+  const to = params.get("to")?.trim();
+  const range: Partial<ItemSearch> = {
+    ...(from ? { from: parse("from", `from:${from}`)?.from } : {}),
+    ...(to ? { to: parse("to", `to:${to}`)?.to } : {}),
+  };
+  return errors.length > 0 || !search
+    ? { ok: false as const, errors }
+    : { ok: true as const, search: { ...search, ...range } };
+}
+
+/** Searches every item the workspace has collected, most relevant first. */
+export async function GET(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const parsed = readSearch(params);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid search.", fieldErrors: parsed.errors },
+        { status: 400 },
+      );
+    }
+    const workspaceId = params.get("workspaceId") || null;
+    const [index, registry] = await Promise.all([
+      loadSearchIndex(workspaceId),
+      companyRegistryStore.read(),
+    ]);
+    const { hits, total } = await searchItems(
+      index,
+      parsed.search,
+      (identities) => readIndexedBodies(workspaceId, identities),
+      {
+        registry,
+        limit: boundedNumber(params.get("limit"), DEFAULT_LIMIT, MAX_LIMIT),
+        offset: boundedNumber(params.get("offset"), 0, Number.MAX_SAFE_INTEGER),
+      },
+    );
+    return NextResponse.json({
+      hits,
+      total,
+      indexed: Object.keys(index.entries).length,
+    });
+  } catch (error) {
+    if (error instanceof InvalidScopeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to search items", error);
+    return NextResponse.json(
+      { error: "Unable to search collected items." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { ItemStatus } from "@/lib/items";
+import {
+  InvalidScopeError,
+  getItemStates,
+  setItemStatus,
+} from "@/lib/lifecycle";
+
+export const dynamic = "force-dynamic";
+
+const STATUSES: ItemStatus[] = ["new", "seen", "included", "dismissed"];
+
+type StatusUpdate = {
+  workspaceId?: string | null;
+  identities: string[];
+  status: ItemStatus;
+};
+
+export async function GET(request: Request) {
+  try {
+    const workspaceId = new URL(request.url).searchParams.get("workspaceId");
+    const states = await getItemStates(workspaceId || null);
+    return NextResponse.json({ states });
+  } catch (error) {
+    if (error instanceof InvalidScopeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to load item states", error);
+    return NextResponse.json(
+      { error: "Unable to load item states." },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PATCH(request: Request) {
+  try {
+    const payload = (await request.json()) as StatusUpdate;
+    if (
+      !Array.isArray(payload.identities) ||
+      !STATUSES.includes(payload.status)
+    ) {
+      return NextResponse.json(
+        { error: "Provide identities and a valid status." },
+        { status: 400 },
+      );
+    }
+    const records = await setItemStatus(
+      payload.workspaceId ?? null,
+      payload.identities,
+      payload.status,
+    );
+    return NextResponse.json({ records });
+  } catch (error) {
+    if (error instanceof InvalidScopeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to update item states", error);
+    return NextResponse.json(
+      { error: "Unable to update item states." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { InvalidScopeError } from "@/lib/lifecycle";
+import { readDraft, saveDraft } from "@/lib/newsletter-issues";
+import { validateNewsletterDraft } from "@/lib/validation";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    const workspaceId = new URL(request.url).searchParams.get("workspaceId");
+    const draft = await readDraft(workspaceId || null);
+    return NextResponse.json({ draft });
+  } catch (error) {
+    if (error instanceof InvalidScopeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to load newsletter draft", error);
+    return NextResponse.json(
+      { error: "Unable to load the newsletter draft." },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  const body = (await request.json().catch(() => null)) as {
+    workspaceId?: string | null;
+    draft?: unknown;
+  } | null;
+  const validation = validateNewsletterDraft(body?.draft);
+  if (!validation.ok) {
+    return NextResponse.json(
+      { error: "Invalid newsletter draft.", fieldErrors: validation.errors },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const draft = await saveDraft(body?.workspaceId ?? null, validation.value);
+    return NextResponse.json({ draft });
+  } catch (error) {
+    if (error instanceof InvalidScopeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to save newsletter draft", error);
+    return NextResponse.json(
+      { error: "Unable to save the newsletter draft." },
+      { status: 500 },
+    );
+  }
+}
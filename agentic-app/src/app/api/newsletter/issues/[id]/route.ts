@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { getIssue } from "@/lib/newsletter-issues";
+import {
+  NewsletterFormat,
+  NewsletterRequest,
+  renderNewsletterHtml,
+  renderNewsletterMarkdown,
+} from "@/lib/newsletter";
+
+export const dynamic = "force-dynamic";
+
+const CONTENT_TYPES: Record<NewsletterFormat, string> = {
+  html: "text/html; charset=utf-8",
+  markdown: "text/markdown; charset=utf-8",
+};
+
+type RouteContext = { params: { id: string } };
+
+/** The frozen issue, or with `?format=html|markdown` the issue rendered. */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const issue = await getIssue(params.id);
+    if (!issue) {
+      return NextResponse.json({ error: "Issue not found." }, { status: 404 });
+    }
+
+    const format = new URL(request.url).searchParams.get("format");
+    if (format === "html" || format === "markdown") {
+      const newsletter: NewsletterRequest = {
+        items: issue.items,
+        columns: issue.columns,
+        groupBy: issue.groupBy,
+        timeRange: issue.timeRange,
+        lastRun: issue.lastRun,
+        title: issue.title,
+      };
+      const body =
+        format === "html"
+          ? renderNewsletterHtml(newsletter)
+          : renderNewsletterMarkdown(newsletter);
+      return new Response(body, {
+        headers: { "Content-Type": CONTENT_TYPES[format] },
+      });
+    }
+
+    return NextResponse.json({ issue });
+  } catch (error) {
+    console.error("Failed to load newsletter issue", error);
+    return NextResponse.json(
+      { error: "Unable to load the newsletter issue." },
+      { status: 500 },
+    );
+  }
+}
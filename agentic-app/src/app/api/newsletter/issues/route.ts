@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { InvalidScopeError } from "@/lib/lifecycle";
+import { approveIssue, listIssues } from "@/lib/newsletter-issues";
+import { validateNewsletterIssue } from "@/lib/validation";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    const workspaceId = new URL(request.url).searchParams.get("workspaceId");
+    const issues = await listIssues(workspaceId || null);
+    return NextResponse.json({ issues });
+  } catch (error) {
+    console.error("Failed to list newsletter issues", error);
+    return NextResponse.json(
+      { error: "Unable to load newsletter issues." },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const validation = validateNewsletterIssue(body);
+  if (!validation.ok) {
+    return NextResponse.json(
+      { error: "Invalid newsletter issue.", fieldErrors: validation.errors },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const issue = await approveIssue(validation.value);
+    return NextResponse.json({ issue }, { status: 201 });
+  } catch (error) {
+    if (error instanceof InvalidScopeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to approve newsletter issue", error);
+    return NextResponse.json(
+      { error: "Unable to approve the newsletter issue." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import {
+  NewsletterFormat,
+  renderNewsletterHtml,
+  renderNewsletterMarkdown,
+} from "@/lib/newsletter";
+import { validateNewsletterRequest } from "@/lib/validation";
+
+const CONTENT_TYPES: Record<NewsletterFormat, string> = {
+  html: "text/html; charset=utf-8",
+  markdown: "text/markdown; charset=utf-8",
+};
+
+export async function POST(request: Request) {
+  const input = await request.json().catch(() => null);
+  const validation = validateNewsletterRequest(input);
+  if (!validation.ok) {
+    return NextResponse.json(
+      { error: "Invalid newsletter request.", fieldErrors: validation.errors },
+      { status: 400 },
+    );
+  }
+
+  const payload = validation.value;
+  try {
+    const format = new URL(request.url).searchParams.get("format");
+    if (format === "html" || format === "markdown") {
+      const body =
+        format === "html"
+          ? renderNewsletterHtml(payload)
+          : renderNewsletterMarkdown(payload);
+      return new Response(body, {
+        headers: { "Content-Type": CONTENT_TYPES[format] },
+      });
+    }
+
+    return NextResponse.json({
+      html: renderNewsletterHtml(payload),
+      markdown: renderNewsletterMarkdown(payload),
+    });
+  } catch (error) {
+    console.error("Failed to render newsletter", error);
+    return NextResponse.json(
+      { error: "Unable to render newsletter." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { getRun } from "@/lib/runs";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: { id: string } };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const run = await getRun(params.id);
+    if (!run) {
+      return NextResponse.json({ error: "Run not found." }, { status: 404 });
+    }
+    return NextResponse.json({ run });
+  } catch (error) {
+    console.error("Failed to load run", error);
+    return NextResponse.json({ error: "Unable to load run." }, { status: 500 });
+  }
+}
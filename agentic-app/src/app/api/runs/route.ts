@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { InvalidScopeError, workspaceScope } from "@/lib/lifecycle";
+import { executeRun, listRuns } from "@/lib/runs";
+import { DiscoveryPayload } from "@/lib/sources/catalog";
+import { invalidPayloadBody, validateSearchPayload } from "@/lib/validation";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+type RunRequest = {
+  payload: DiscoveryPayload;
+  workspaceId?: string | null;
+};
+
+export async function GET(request: Request) {
+  try {
+    const workspaceId = new URL(request.url).searchParams.get("workspaceId");
+    const runs = await listRuns(workspaceId || null);
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error("Failed to list runs", error);
+    return NextResponse.json(
+      { error: "Unable to load run history." },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as RunRequest | null;
+    const validation = validateSearchPayload(body?.payload);
+    if (!body || !validation.ok) {
+      return NextResponse.json(
+        invalidPayloadBody(validation.ok ? [] : validation.errors),
+        { status: 400 },
+      );
+    }
+    const workspaceId = body.workspaceId ?? null;
+    workspaceScope(workspaceId);
+    const run = await executeRun(validation.value, {
+      workspaceId,
+      trigger: "manual",
+    });
+    return NextResponse.json({ run }, { status: 201 });
+  } catch (error) {
+    if (error instanceof InvalidScopeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to run monitoring cycle", error);
+    return NextResponse.json(
+      { error: "Unable to gather news results." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { runDueSchedules } from "@/lib/scheduler";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+/**
+ * External trigger for deployments where the in-process scheduler does not
+ * stay alive (e.g. serverless). Call it once a minute from any cron service.
+ */
+export async function POST(request: Request) {
+  const secret = process.env.SCHEDULER_SECRET;
+  if (secret && request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  try {
+    const runIds = await runDueSchedules();
+    return NextResponse.json({ runIds });
+  } catch (error) {
+    console.error("Failed to run scheduled cycles", error);
+    return NextResponse.json(
+      { error: "Unable to run scheduled cycles." },
+      { status: 500 },
+    );
+  }
+}
@@ -1,22 +1,28 @@
 import { NextResponse } from "next/server";
-import { gatherNews } from "@/lib/news";
-import { SearchPayload } from "@/lib/types";
+import { runPipeline } from "@/lib/pipeline";
+import { invalidPayloadBody, validateSearchPayload } from "@/lib/validation";
 
 export const maxDuration = 60;
 
 export async function POST(request: Request) {
   try {
-    const payload = (await request.json()) as SearchPayload;
-    const results = await gatherNews(
-      payload.keywords.filter((kw) => kw.keyword.trim().length > 0),
-      payload.companyTargets.filter(
-        (target) => target.url.trim().length > 0,
-      ),
-      payload.timeRange,
-      payload.maxItems ?? 100,
+    const validation = validateSearchPayload(
+      await request.json().catch(() => null),
+    );
+    if (!validation.ok) {
+      return NextResponse.json(invalidPayloadBody(validation.errors), {
+        status: 400,
+      });
+    }
+    const { results, diagnostics, errors } = await runPipeline(
+      validation.value,
     );
 
-    return NextResponse.json({ results });
+    return NextResponse.json({
+      results,
+      diagnostics,
+      partial: errors.length > 0,
+    });
   } catch (error) {
     console.error("Failed to run search", error);
     return NextResponse.json(
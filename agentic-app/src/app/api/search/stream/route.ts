@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { InvalidScopeError, workspaceScope } from "@/lib/lifecycle";
+import { RunStreamEvent, executeRun } from "@/lib/runs";
+import { DiscoveryPayload } from "@/lib/sources/catalog";
+import { invalidPayloadBody, validateSearchPayload } from "@/lib/validation";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+type StreamRequest = {
+  payload: DiscoveryPayload;
+  workspaceId?: string | null;
+};
+
+/**
+ * Streams a monitoring cycle as NDJSON: per-source progress, partial item
+ * batches and source errors, then a final `done` event carrying the recorded
+ * run. Aborting the request cancels sources that have not started yet.
+ */
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as StreamRequest | null;
+  const validation = validateSearchPayload(body?.payload);
+  if (!body || !validation.ok) {
+    return NextResponse.json(
+      invalidPayloadBody(validation.ok ? [] : validation.errors),
+      { status: 400 },
+    );
+  }
+  const payload: DiscoveryPayload = validation.value;
+  const workspaceId = body.workspaceId ?? null;
+  try {
+    workspaceScope(workspaceId);
+  } catch (error) {
+    if (error instanceof InvalidScopeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: RunStreamEvent) => {
+        if (request.signal.aborted) return;
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+
+      try {
+        const run = await executeRun(payload, {
+          workspaceId,
+          trigger: "manual",
+          signal: request.signal,
+          onEvent: send,
+        });
+        send({ type: "done", run });
+      } catch (error) {
+        console.error("Failed to stream search", error);
+        send({ type: "fatal", message: "Unable to gather news results." });
+      } finally {
+        // A client abort has already cancelled the stream.
+        if (!request.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { previewTarget } from "@/lib/sources/preview";
+import { validateWatchTarget } from "@/lib/validation";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 30;
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as {
+    target?: unknown;
+  } | null;
+  const validation = validateWatchTarget(body?.target);
+  if (!validation.ok) {
+    return NextResponse.json(
+      { error: "Invalid target.", fieldErrors: validation.errors },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const preview = await previewTarget(validation.value, request.signal);
+    return NextResponse.json(preview);
+  } catch (error) {
+    console.error("Failed to preview target", error);
+    // The upstream reason (HTTP status, wrong document type) is what the
+    // analyst needs to fix the target, so it is passed through.
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Unable to preview target.",
+      },
+      { status: 502 },
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { validateCron } from "@/lib/cron";
+import {
+  WorkspaceInput,
+  deleteWorkspace,
+  getWorkspace,
+  updateWorkspace,
+} from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: { id: string } };
+
+function notFound() {
+  return NextResponse.json({ error: "Workspace not found." }, { status: 404 });
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const workspace = await getWorkspace(params.id);
+    return workspace ? NextResponse.json({ workspace }) : notFound();
+  } catch (error) {
+    console.error("Failed to load workspace", error);
+    return NextResponse.json(
+      { error: "Unable to load workspace." },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const payload = (await request.json()) as WorkspaceInput;
+    if (payload.schedule) {
+      const cronError = validateCron(payload.schedule.cron);
+      if (cronError) {
+        return NextResponse.json({ error: cronError }, { status: 400 });
+      }
+    }
+    const workspace = await updateWorkspace(params.id, payload);
+    return workspace ? NextResponse.json({ workspace }) : notFound();
+  } catch (error) {
+    console.error("Failed to update workspace", error);
+    return NextResponse.json(
+      { error: "Unable to update workspace." },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const deleted = await deleteWorkspace(params.id);
+    return deleted ? new Response(null, { status: 204 }) : notFound();
+  } catch (error) {
+    console.error("Failed to delete workspace", error);
+    return NextResponse.json(
+      { error: "Unable to delete workspace." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import {
+  WorkspaceInput,
+  createWorkspace,
+  listWorkspaces,
+} from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const workspaces = await listWorkspaces();
+    return NextResponse.json({ workspaces });
+  } catch (error) {
+    console.error("Failed to list workspaces", error);
+    return NextResponse.json(
+      { error: "Unable to load workspaces." },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const payload = (await request.json()) as WorkspaceInput;
+    if (!payload.name || payload.name.trim().length === 0) {
+      return NextResponse.json(
+        { error: "Workspace name is required." },
+        { status: 400 },
+      );
+    }
+    const workspace = await createWorkspace(payload);
+    return NextResponse.json({ workspace }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create workspace", error);
+    return NextResponse.json(
+      { error: "Unable to create workspace." },
+      { status: 500 },
+    );
+  }
+}
@@ -1,60 +1,211 @@
 'use client';
 
-import { useMemo, useState } from "react";
-import { format } from "date-fns";
-import * as XLSX from "xlsx";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { ConsolidatedNewsItem, TimeRangeOption } from "@/lib/types";
+import { annotateKeywordHits } from "@/lib/keyword-rules";
+import type { SearchHit } from "@/lib/search-index";
+import { describeKeywordHit } from "@/lib/expansion";
 import {
-  CompanyTarget,
-  ConsolidatedNewsItem,
-  KeywordSourceRow,
-  NewsletterColumn,
-  TimeRangeOption,
-} from "@/lib/types";
-import { normalizeKeywordRow } from "@/lib/keywords";
-
-const AVAILABLE_COLUMNS: { id: NewsletterColumn; label: string }[] = [
-  { id: "title", label: "Title" },
-  { id: "source", label: "Source" },
-  { id: "published", label: "Published" },
-  { id: "summary", label: "Summary" },
-  { id: "url", label: "Link" },
-  { id: "authenticScore", label: "Authentic Score" },
-  { id: "marketImpactScore", label: "Market Impact Score" },
-  { id: "keyword", label: "Keyword" },
-  { id: "sopCategory", label: "SOP Category" },
-  { id: "businessCategory", label: "Business Category" },
-];
-
-const DEFAULT_COLUMNS: NewsletterColumn[] = [
-  "title",
-  "source",
-  "published",
-  "summary",
-  "url",
-  "authenticScore",
-  "marketImpactScore",
-  "keyword",
-  "sopCategory",
-];
-
-type FiltersState = {
-  keyword: string;
-  company: string;
-  searchTerm: string;
-  minAuthentic: number;
-  minImpact: number;
-  timeWindow: "all" | "24h" | "3d" | "7d";
-};
+  AVAILABLE_COLUMNS,
+  DEFAULT_COLUMNS,
+  ExportColumn,
+  getColumnValue,
+} from "@/lib/columns";
+import {
+  downloadBlob,
+  downloadNewsletterCsv,
+  downloadNewsletterWorkbook,
+  exportFileName,
+} from "@/lib/export";
+import {
+  NEWSLETTER_GROUPINGS,
+  NewsletterFormat,
+  NewsletterGrouping,
+} from "@/lib/newsletter";
+import {
+  CurationEntry,
+  EMPTY_DRAFT,
+  IssueSummary,
+  NewsletterDraft,
+  NewsletterIssue,
+  curateIssue,
+  issueReadingOrder,
+  updateEntry,
+} from "@/lib/curation";
+import {
+  EMPTY_FILTERS,
+  ENTITY_FILTER_KINDS,
+  FiltersState,
+} from "@/lib/filters";
+import {
+  CompanyEntry,
+  DEFAULT_COMPANY_REGISTRY,
+  annotateCompanies,
+  companyGroupsOf,
+} from "@/lib/companies";
+import {
+  DEFAULT_ENTITY_DICTIONARY,
+  ENTITY_KINDS,
+  EntityTerm,
+  annotateEntities,
+} from "@/lib/entities";
+import {
+  DEFAULT_EVENT_RULES,
+  EventRule,
+  annotateEvent,
+  describeEvent,
+} from "@/lib/events";
+import {
+  CategoryPair,
+  buildCategoryModel,
+  categorizeItem,
+} from "@/lib/categorization";
+import { formatDate } from "@/lib/format";
+import {
+  ArticleSettings,
+  DEFAULT_ARTICLE_SETTINGS,
+  MAX_SUMMARY_SENTENCES,
+  MIN_SUMMARY_SENTENCES,
+  SUMMARY_SOURCE_LABELS,
+  summarySource,
+} from "@/lib/articles";
+import { ImportSheet, readSpreadsheet } from "@/lib/taxonomy-import";
+import {
+  CategoryChange,
+  EMPTY_TAXONOMY,
+  Taxonomy,
+  categoryOptions,
+  changeTaxonomy,
+  isEmptyTaxonomy,
+  recategorize,
+  recategorizeMultipliers,
+  taxonomyFromRows,
+} from "@/lib/taxonomy";
+import type {
+  Workspace,
+  WorkspaceSettings,
+  WorkspaceSummary,
+} from "@/lib/workspaces";
+import type { MonitoringRun, RunSummary } from "@/lib/runs";
+import { ResultComparison, compareResults } from "@/lib/compare";
+import {
+  ITEM_STATUS_LABELS,
+  ItemRecord,
+  ItemStatus,
+  itemIdentity,
+} from "@/lib/items";
+import WorkspaceSwitcher from "@/components/WorkspaceSwitcher";
+import RunHistoryPanel from "@/components/RunHistoryPanel";
+import SearchProgress, {
+  EMPTY_PROGRESS,
+  SearchProgressState,
+  reduceProgress,
+} from "@/components/SearchProgress";
+import type { RunStreamEvent } from "@/lib/runs";
+import type { SourceDiagnostic } from "@/lib/pipeline";
+import SourceHealthPanel from "@/components/SourceHealthPanel";
+import ScoreBreakdownPanel from "@/components/ScoreBreakdownPanel";
+import RelatedCoverageList from "@/components/RelatedCoverageList";
+import CategoryOverride from "@/components/CategoryOverride";
+import ExpansionReviewDrawer from "@/components/ExpansionReviewDrawer";
+import TaxonomyImportDialog from "@/components/TaxonomyImportDialog";
+import TaxonomyPanel from "@/components/TaxonomyPanel";
+import {
+  DEFAULT_SCORING_CONFIG,
+  MAX_KEYWORD_WEIGHT,
+  ScoredNewsItem,
+  ScoringConfig,
+  WeightedKeywordRow,
+  describeBreakdown,
+  hostOf,
+  rescoreItems,
+} from "@/lib/scoring";
+import ScoringConfigPanel from "@/components/ScoringConfigPanel";
+import EntityDictionaryPanel from "@/components/EntityDictionaryPanel";
+import CompanyRegistryPanel from "@/components/CompanyRegistryPanel";
+import EventRulesPanel from "@/components/EventRulesPanel";
+import NewsletterCurationPanel from "@/components/NewsletterCurationPanel";
+import WatchlistTarget from "@/components/WatchlistTarget";
+import type { WatchTarget } from "@/lib/targets";
+import { readNdjson } from "@/lib/ndjson";
+import {
+  ADAPTER_CATALOG,
+  AdapterId,
+  DEFAULT_ADAPTERS,
+} from "@/lib/sources/catalog";
+import {
+  FieldError,
+  MAX_MAX_ITEMS,
+  MIN_MAX_ITEMS,
+  validateSearchPayload,
+} from "@/lib/validation";
 
-const EMPTY_FILTERS: FiltersState = {
-  keyword: "all",
-  company: "all",
-  searchTerm: "",
-  minAuthentic: 0,
-  minImpact: 0,
-  timeWindow: "all",
+const ACTIVE_WORKSPACE_KEY = "agentic:active-workspace";
+
+const HISTORY_SEARCH_LIMIT = 200;
+const HISTORY_SEARCH_DELAY_MS = 300;
+
+type HistorySearchState =
+  | { status: "idle" | "loading" }
+  | { status: "ready"; hits: SearchHit[]; total: number; indexed: number }
+  | { status: "error"; message: string };
+
+const STATUS_BADGE_STYLES: Record<ItemStatus, string> = {
+  new: "border-emerald-400/60 bg-emerald-400/10 text-emerald-200",
+  seen: "border-slate-700 text-slate-400",
+  included: "border-sky-400/60 bg-sky-400/10 text-sky-200",
+  dismissed: "border-red-500/40 text-red-300",
 };
 
+const INPUT_CLASS =
+  "w-full rounded-md border border-slate-700 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-slate-500 focus:outline-none";
+
+/**
+ * Picks a managed category. A value the taxonomy does not manage stays
+ * selectable, marked, until it is changed or merged in the taxonomy panel.
+ */
+function CategorySelect({
+  value,
+  options,
+  onChange,
+  className,
+}: {
+  value: string;
+  options: string[];
+  onChange: (value: string) => void;
+  className: string;
+}) {
+  const isUnmanaged = value !== "" && !options.includes(value);
+  return (
+    <select
+      value={value}
+      onChange={(event) => onChange(event.target.value)}
+      className={className}
+    >
+      <option value="">—</option>
+      {isUnmanaged && <option value={value}>{value} (unmanaged)</option>}
+      {options.map((option) => (
+        <option key={option} value={option}>
+          {option}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function FieldMessage({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="mt-1 text-xs normal-case tracking-normal text-red-300">{message}</p>;
+}
+
+/** The payload-level error if there is one, else a pointer to the fields. */
+function validationMessage(errors: FieldError[]) {
+  return (
+    errors.find((error) => error.field === "")?.message ??
+    "Fix the highlighted fields before running a cycle."
+  );
+}
+
 function getId() {
   if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
     return crypto.randomUUID();
@@ -62,39 +213,210 @@ function getId() {
   return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
 }
 
-function formatDate(value: string) {
-  try {
-    return format(new Date(value), "MMM d, yyyy HH:mm");
-  } catch {
-    return value;
-  }
-}
+const RULE_LIST_FIELDS = ["synonyms", "include", "exclude"] as const;
 
-async function parseWorkbook(file: File): Promise<KeywordSourceRow[]> {
-  const buffer = await file.arrayBuffer();
-  const workbook = XLSX.read(buffer, { type: "array" });
-  const primarySheet = workbook.Sheets[workbook.SheetNames[0]];
-  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(primarySheet, {
-    raw: false,
-    defval: "",
-  });
-  return rows
-    .map(normalizeKeywordRow)
-    .filter((row) => row.keyword.trim().length > 0);
-}
+const RULE_LIST_LABELS: Record<(typeof RULE_LIST_FIELDS)[number], string> = {
+  synonyms: "Synonyms",
+  include: "Must include",
+  exclude: "Exclude",
+};
 
 export default function Home() {
-  const [keywordRows, setKeywordRows] = useState<KeywordSourceRow[]>([]);
-  const [companyTargets, setCompanyTargets] = useState<CompanyTarget[]>([]);
+  const [keywordRows, setKeywordRows] = useState<WeightedKeywordRow[]>([]);
+  const [companyTargets, setCompanyTargets] = useState<WatchTarget[]>([]);
   const [timeRange, setTimeRange] = useState<TimeRangeOption>({ preset: "7d" });
   const [maxItems, setMaxItems] = useState<number>(60);
   const [selectedColumns, setSelectedColumns] =
-    useState<NewsletterColumn[]>(DEFAULT_COLUMNS);
+    useState<ExportColumn[]>(DEFAULT_COLUMNS);
   const [filters, setFilters] = useState<FiltersState>(EMPTY_FILTERS);
-  const [results, setResults] = useState<ConsolidatedNewsItem[]>([]);
+  const [adapters, setAdapters] = useState<AdapterId[]>(DEFAULT_ADAPTERS);
+  const [scoring, setScoring] = useState<ScoringConfig>(DEFAULT_SCORING_CONFIG);
+  const [articles, setArticles] = useState<ArticleSettings>(
+    DEFAULT_ARTICLE_SETTINGS,
+  );
+  const [entityDictionary, setEntityDictionary] = useState<EntityTerm[]>(
+    DEFAULT_ENTITY_DICTIONARY,
+  );
+  const [companyRegistry, setCompanyRegistry] = useState<CompanyEntry[]>(
+    DEFAULT_COMPANY_REGISTRY,
+  );
+  const [newsletterGroupBy, setNewsletterGroupBy] =
+    useState<NewsletterGrouping>("sopCategory");
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>(EMPTY_TAXONOMY);
+  const [isReviewingExpansions, setIsReviewingExpansions] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    sheets: ImportSheet[];
+  } | null>(null);
+  const [eventRules, setEventRules] =
+    useState<EventRule[]>(DEFAULT_EVENT_RULES);
+  const [results, setResults] = useState<ScoredNewsItem[]>([]);
+  const [history, setHistory] = useState<HistorySearchState>({
+    status: "idle",
+  });
   const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<SearchProgressState>(EMPTY_PROGRESS);
+  const searchAbortRef = useRef<AbortController | null>(null);
+  const [diagnostics, setDiagnostics] = useState<SourceDiagnostic[]>([]);
+  const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [lastRun, setLastRun] = useState<Date | null>(null);
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(
+    null,
+  );
+  const [isWorkspaceBusy, setIsWorkspaceBusy] = useState(false);
+  const activeWorkspaceRef = useRef<string | null>(null);
+  const [itemStates, setItemStates] = useState<Record<string, ItemRecord>>({});
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [openRunId, setOpenRunId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<{
+    runId: string;
+    result: ResultComparison;
+  } | null>(null);
+  const [draft, setDraft] = useState<NewsletterDraft>(EMPTY_DRAFT);
+  const [issues, setIssues] = useState<IssueSummary[]>([]);
+  const [openIssue, setOpenIssue] = useState<NewsletterIssue | null>(null);
+  const [isApproving, setIsApproving] = useState(false);
+
+  const identities = useMemo(() => {
+    const map = new Map<string, string>();
+    results.forEach((item) => map.set(item.id, itemIdentity(item)));
+    return map;
+  }, [results]);
+
+  const categoryModel = useMemo(
+    () => buildCategoryModel(keywordRows, Object.values(itemStates)),
+    [keywordRows, itemStates],
+  );
+
+  // History search replaces the last run's results with the matching items
+  // from every run, in relevance order.
+  useEffect(() => {
+    if (filters.searchScope !== "history") {
+      setHistory({ status: "idle" });
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setHistory((prev) =>
+        prev.status === "ready" ? prev : { status: "loading" },
+      );
+      try {
+        const params = new URLSearchParams({
+          q: filters.searchTerm,
+          limit: String(HISTORY_SEARCH_LIMIT),
+        });
+        if (activeWorkspaceId) params.set("workspaceId", activeWorkspaceId);
+        const response = await fetch(`/api/items/search?${params}`, {
+          signal: controller.signal,
+        });
+        const payload = await response.json();
+        if (!response.ok) {
+          setHistory({
+            status: "error",
+            message: payload.fieldErrors?.[0]?.message ?? payload.error,
+          });
+          return;
+        }
+        setHistory({
+          status: "ready",
+          hits: payload.hits as SearchHit[],
+          total: payload.total,
+          indexed: payload.indexed,
+        });
+      } catch (cause) {
+        if (controller.signal.aborted) return;
+        console.error(cause);
+        setHistory({ status: "error", message: "Unable to search history." });
+      }
+    }, HISTORY_SEARCH_DELAY_MS);
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [filters.searchScope, filters.searchTerm, activeWorkspaceId]);
+
+  const feedItems = useMemo(
+    () =>
+      filters.searchScope === "history"
+        ? history.status === "ready"
+          ? history.hits.map((hit) => hit.item)
+          : []
+        : results,
+    [filters.searchScope, history, results],
+  );
+
+  const relevance = useMemo(
+    () =>
+      new Map(
+        history.status === "ready"
+          ? history.hits.map((hit) => [hit.item.id, hit.relevance])
+          : [],
+      ),
+    [history],
+  );
+
+  // Categories, scores, companies, entities and events follow the current
+  // taxonomy, overrides, config, registry, dictionary and rules, so edits
+  // apply without another run.
+  const scoredResults = useMemo(
+    () =>
+      rescoreItems(
+        feedItems.map((item) =>
+          annotateEvent(
+            annotateEntities(
+              categorizeItem(
+                annotateKeywordHits(
+                  annotateCompanies(item, companyRegistry),
+                  keywordRows,
+                ),
+                categoryModel,
+              ),
+              entityDictionary,
+            ),
+            eventRules,
+          ),
+        ),
+        {
+          config: scoring,
+          keywords: keywordRows,
+          ownHosts: companyTargets.map((target) => hostOf(target.url)),
+        },
+      ),
+    [
+      feedItems,
+      scoring,
+      keywordRows,
+      companyTargets,
+      companyRegistry,
+      entityDictionary,
+      eventRules,
+      categoryModel,
+    ],
+  );
+
+  const entityOptions = useMemo(() => {
+    return Object.fromEntries(
+      ENTITY_FILTER_KINDS.map((kind) => {
+        const names = new Set<string>();
+        scoredResults.forEach((item) =>
+          item.entities?.[kind]?.forEach((name) => names.add(name)),
+        );
+        return [kind, Array.from(names).sort((a, b) => a.localeCompare(b))];
+      }),
+    ) as Record<(typeof ENTITY_FILTER_KINDS)[number], string[]>;
+  }, [scoredResults]);
+
+  const sopCategories = useMemo(
+    () => categoryOptions(taxonomy, "sopCategory"),
+    [taxonomy],
+  );
+
+  const businessCategories = useMemo(
+    () => categoryOptions(taxonomy, "businessCategory"),
+    [taxonomy],
+  );
 
   const keywordOptions = useMemo(() => {
     return Array.from(new Set(keywordRows.map((row) => row.keyword)));
@@ -102,14 +424,48 @@ export default function Home() {
 
   const companyOptions = useMemo(() => {
     const companies = new Set<string>();
-    results.forEach((item) =>
+    scoredResults.forEach((item) =>
       item.companyMatches.forEach((company) => companies.add(company)),
     );
     return Array.from(companies);
-  }, [results]);
+  }, [scoredResults]);
+
+  const companyGroupOptions = useMemo(() => {
+    const groups = new Set<string>();
+    scoredResults.forEach((item) =>
+      companyGroupsOf(item.companyMatches, companyRegistry).forEach((group) =>
+        groups.add(group),
+      ),
+    );
+    return Array.from(groups).sort((a, b) => a.localeCompare(b));
+  }, [scoredResults, companyRegistry]);
+
+  function fieldError(field: string) {
+    return fieldErrors.find((entry) => entry.field === field)?.message;
+  }
+
+  function fieldClass(base: string, field: string) {
+    return fieldError(field)
+      ? base.replace("border-slate-700", "border-red-500/70")
+      : base;
+  }
+
+  const statusOf = useCallback(
+    (item: ConsolidatedNewsItem): ItemStatus => {
+      const identity = identities.get(item.id) ?? itemIdentity(item);
+      return itemStates[identity]?.status ?? "new";
+    },
+    [identities, itemStates],
+  );
 
   const filteredResults = useMemo(() => {
-    return results.filter((item) => {
+    const filtered = scoredResults.filter((item) => {
+      if (filters.lifecycle !== "all") {
+        const status = statusOf(item);
+        if (status === "dismissed") return false;
+        if (filters.lifecycle === "new" && status !== "new") return false;
+      }
+
       if (filters.keyword !== "all") {
         const matchesKeyword = item.keywordMatches.includes(filters.keyword);
         if (!matchesKeyword) return false;
@@ -120,7 +476,22 @@ export default function Home() {
         if (!matchesCompany) return false;
       }
 
-      if (filters.searchTerm.trim().length > 0) {
+      if (filters.companyGroup !== "all") {
+        const groups = companyGroupsOf(item.companyMatches, companyRegistry);
+        if (!groups.includes(filters.companyGroup)) return false;
+      }
+
+      const missingEntity = ENTITY_FILTER_KINDS.some(
+        (kind) =>
+          filters[kind] !== "all" &&
+          !item.entities?.[kind]?.includes(filters[kind]),
+      );
+      if (missingEntity) return false;
+
+      if (
+        filters.searchScope === "run" &&
+        filters.searchTerm.trim().length > 0
+      ) {
         const needle = filters.searchTerm.trim().toLowerCase();
         const haystack = `${item.title} ${item.summary} ${item.source}`.toLowerCase();
         if (!haystack.includes(needle)) {
@@ -147,52 +518,734 @@ export default function Home() {
 
       return true;
     });
-  }, [filters, results]);
+    return filters.searchScope === "history"
+      ? filtered.sort(
+          (a, b) => (relevance.get(b.id) ?? 0) - (relevance.get(a.id) ?? 0),
+        )
+      : filtered;
+  }, [filters, scoredResults, statusOf, companyRegistry, relevance]);
+
+  // The issue being curated, in the order it will be read and exported.
+  const draftIssue = useMemo(
+    () =>
+      issueReadingOrder(
+        curateIssue(filteredResults, scoredResults, draft),
+        newsletterGroupBy,
+      ),
+    [filteredResults, scoredResults, draft, newsletterGroupBy],
+  );
+  const previewItems = openIssue?.items ?? draftIssue;
+  const previewColumns = openIssue?.columns ?? selectedColumns;
 
-  async function handleSearch() {
+  async function handleSearch(keywords: WeightedKeywordRow[] = keywordRows) {
+    const request = {
+      keywords,
+      companyTargets,
+      timeRange,
+      maxItems,
+      adapters,
+      scoring,
+      articles,
+    };
+    const validation = validateSearchPayload(request);
+    if (!validation.ok) {
+      setFieldErrors(validation.errors);
+      setError(validationMessage(validation.errors));
+      return;
+    }
+    setFieldErrors([]);
+
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
     setIsLoading(true);
     setError(null);
+    setProgress(EMPTY_PROGRESS);
+    setDiagnostics([]);
+    setResults([]);
+    setOpenRunId(null);
+    setComparison(null);
     try {
-      const response = await fetch("/api/search", {
+      const response = await fetch("/api/search/stream", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          keywords: keywordRows,
-          companyTargets,
-          timeRange,
-          maxItems,
+          workspaceId: activeWorkspaceId,
+          payload: request,
         }),
+        signal: controller.signal,
       });
 
+      if (response.status === 400) {
+        const payload = (await response.json()) as {
+          error?: string;
+          fieldErrors?: FieldError[];
+        };
+        const fieldErrors = payload.fieldErrors ?? [];
+        setFieldErrors(fieldErrors);
+        setError(
+          fieldErrors.length > 0
+            ? validationMessage(fieldErrors)
+            : (payload.error ?? "Unable to gather news results."),
+        );
+        return;
+      }
+
       if (!response.ok) {
         throw new Error("Search failed");
       }
 
+      await readNdjson<RunStreamEvent>(response, (event) => {
+        if (event.type === "items") {
+          setResults((prev) => [...prev, ...event.items]);
+        } else if (event.type === "done") {
+          if (event.run.status === "failed") {
+            setError("Unable to retrieve news. Please try again.");
+          }
+          showRun(event.run);
+        } else if (event.type === "fatal") {
+          setError(event.message);
+        } else {
+          if (event.type === "task-complete" || event.type === "task-error") {
+            setDiagnostics((prev) => [
+              ...prev.filter((entry) => entry.task.id !== event.task.id),
+              event.diagnostic,
+            ]);
+          }
+          setProgress((prev) => reduceProgress(prev, event));
+        }
+      });
+    } catch (cause) {
+      if (controller.signal.aborted) {
+        setError("Monitoring cycle cancelled. Partial results are shown.");
+      } else {
+        console.error(cause);
+        setError("Unable to retrieve news. Please try again.");
+      }
+    } finally {
+      searchAbortRef.current = null;
+      setIsLoading(false);
+      await refreshRuns(activeWorkspaceId, false);
+    }
+  }
+
+  function cancelSearch() {
+    searchAbortRef.current?.abort();
+  }
+
+  const showRun = useCallback((run: MonitoringRun) => {
+    setResults(run.results);
+    setDiagnostics(run.diagnostics ?? []);
+    setLastRun(new Date(run.finishedAt));
+    setOpenRunId(run.id);
+    setComparison(null);
+  }, []);
+
+  const fetchRun = useCallback(async (id: string) => {
+    const response = await fetch(`/api/runs/${id}`);
+    if (!response.ok) {
+      throw new Error("Run load failed");
+    }
+    const payload = (await response.json()) as { run: MonitoringRun };
+    return payload.run;
+  }, []);
+
+  const refreshRuns = useCallback(
+    async (workspaceId: string | null, openLatest: boolean) => {
+      try {
+        const query = workspaceId
+          ? `?workspaceId=${encodeURIComponent(workspaceId)}`
+          : "";
+        const response = await fetch(`/api/runs${query}`);
+        if (!response.ok) {
+          throw new Error("Run history failed");
+        }
+        const payload = (await response.json()) as { runs: RunSummary[] };
+        // A slower response for a previously active workspace must not win.
+        if (workspaceId !== activeWorkspaceRef.current) return;
+        setRuns(payload.runs);
+
+        if (openLatest) {
+          const latest = payload.runs.find((run) => run.status === "succeeded");
+          if (latest) {
+            showRun(await fetchRun(latest.id));
+          } else {
+            setResults([]);
+            setLastRun(null);
+            setOpenRunId(null);
+            setComparison(null);
+          }
+        }
+      } catch (cause) {
+        console.error(cause);
+        setError("Unable to load run history.");
+      }
+    },
+    [fetchRun, showRun],
+  );
+
+  useEffect(() => {
+    refreshRuns(activeWorkspaceId, true);
+  }, [activeWorkspaceId, refreshRuns]);
+
+  async function openRun(id: string) {
+    try {
+      showRun(await fetchRun(id));
+    } catch (cause) {
+      console.error(cause);
+      setError("Unable to open the selected run.");
+    }
+  }
+
+  async function compareRun(id: string | null) {
+    if (!id) {
+      setComparison(null);
+      return;
+    }
+    try {
+      const baseline = await fetchRun(id);
+      setComparison({
+        runId: id,
+        result: compareResults(results, baseline.results),
+      });
+    } catch (cause) {
+      console.error(cause);
+      setError("Unable to compare with the selected run.");
+    }
+  }
+
+  async function exportRun(id: string) {
+    try {
+      const run = await fetchRun(id);
+      downloadNewsletterWorkbook(run.results, selectedColumns);
+    } catch (cause) {
+      console.error(cause);
+      setError("Unable to export the selected run.");
+    }
+  }
+
+  async function saveSchedule(cron: string, enabled: boolean) {
+    if (!activeWorkspaceId) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/workspaces/${activeWorkspaceId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ schedule: { cron, enabled } }),
+      });
+      if (!response.ok) {
+        const payload = (await response.json()) as { error?: string };
+        throw new Error(payload.error ?? "Schedule save failed");
+      }
+      await refreshWorkspaces();
+    } catch (cause) {
+      console.error(cause);
+      setError(
+        cause instanceof Error
+          ? `Unable to save the schedule: ${cause.message}`
+          : "Unable to save the schedule.",
+      );
+    }
+  }
+
+  const refreshItemStates = useCallback(async (workspaceId: string | null) => {
+    try {
+      const query = workspaceId
+        ? `?workspaceId=${encodeURIComponent(workspaceId)}`
+        : "";
+      const response = await fetch(`/api/items/states${query}`);
+      if (!response.ok) {
+        throw new Error("Item state load failed");
+      }
+      const payload = (await response.json()) as {
+        states: Record<string, ItemRecord>;
+      };
+      if (workspaceId !== activeWorkspaceRef.current) return;
+      setItemStates(payload.states);
+    } catch (cause) {
+      console.error(cause);
+      setError("Unable to load item states.");
+    }
+  }, []);
+
+  // Opening a run reloads the states, since the run may have marked items seen.
+  useEffect(() => {
+    refreshItemStates(activeWorkspaceId);
+  }, [activeWorkspaceId, openRunId, refreshItemStates]);
+
+  async function updateItemStatus(
+    items: ConsolidatedNewsItem[],
+    status: ItemStatus,
+  ) {
+    if (items.length === 0) return;
+    try {
+      const response = await fetch("/api/items/states", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          workspaceId: activeWorkspaceId,
+          identities: items.map(itemIdentity),
+          status,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error("Item state update failed");
+      }
+      const payload = (await response.json()) as { records: ItemRecord[] };
+      setItemStates((prev) => {
+        const next = { ...prev };
+        payload.records.forEach((record) => {
+          next[record.identity] = record;
+        });
+        return next;
+      });
+    } catch (cause) {
+      console.error(cause);
+      setError("Unable to update item status.");
+    }
+  }
+
+  async function updateItemCategory(
+    item: ConsolidatedNewsItem,
+    categories: CategoryPair | null,
+  ) {
+    try {
+      const response = await fetch("/api/items/categories", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          workspaceId: activeWorkspaceId,
+          item: { url: item.url, title: item.title, summary: item.summary },
+          categories,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error("Item category update failed");
+      }
+      const payload = (await response.json()) as { record: ItemRecord };
+      setItemStates((prev) => ({
+        ...prev,
+        [payload.record.identity]: payload.record,
+      }));
+    } catch (cause) {
+      console.error(cause);
+      setError("Unable to update the item's category.");
+    }
+  }
+
+  /**
+   * Renames or merges a category in the taxonomy, the keyword rows, the
+   * scoring multipliers and the results on screen, then in stored items.
+   */
+  async function changeCategory(change: CategoryChange) {
+    setTaxonomy((prev) => changeTaxonomy(prev, change));
+    setKeywordRows((prev) => prev.map((row) => recategorize(row, change)));
+    setScoring((prev) => recategorizeMultipliers(prev, change));
+    setResults((prev) => prev.map((item) => recategorize(item, change)));
+    try {
+      const response = await fetch("/api/items/categories", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ workspaceId: activeWorkspaceId, change }),
+      });
+      if (!response.ok) {
+        throw new Error("Stored category update failed");
+      }
+      await refreshItemStates(activeWorkspaceId);
+    } catch (cause) {
+      console.error(cause);
+      setError("Unable to update categories on stored items.");
+    }
+  }
+
+  function exportNewsletter(kind: "xlsx" | "csv") {
+    if (kind === "xlsx") {
+      downloadNewsletterWorkbook(previewItems, previewColumns);
+    } else {
+      downloadNewsletterCsv(previewItems, previewColumns);
+    }
+    if (!openIssue) updateItemStatus(previewItems, "included");
+  }
+
+  const refreshNewsletter = useCallback(async (workspaceId: string | null) => {
+    try {
+      const query = workspaceId
+        ? `?workspaceId=${encodeURIComponent(workspaceId)}`
+        : "";
+      const [draftResponse, issuesResponse] = await Promise.all([
+        fetch(`/api/newsletter/draft${query}`),
+        fetch(`/api/newsletter/issues${query}`),
+      ]);
+      if (!draftResponse.ok || !issuesResponse.ok) {
+        throw new Error("Newsletter load failed");
+      }
+      const draftPayload = (await draftResponse.json()) as {
+        draft: NewsletterDraft;
+      };
+      const issuesPayload = (await issuesResponse.json()) as {
+        issues: IssueSummary[];
+      };
+      if (workspaceId !== activeWorkspaceRef.current) return;
+      setDraft(draftPayload.draft);
+      setIssues(issuesPayload.issues);
+    } catch (cause) {
+      console.error(cause);
+      setError("Unable to load the newsletter draft.");
+    }
+  }, []);
+
+  useEffect(() => {
+    setOpenIssue(null);
+    refreshNewsletter(activeWorkspaceId);
+  }, [activeWorkspaceId, refreshNewsletter]);
+
+  async function saveDraft(next: NewsletterDraft) {
+    setDraft(next);
+    try {
+      const response = await fetch("/api/newsletter/draft", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ workspaceId: activeWorkspaceId, draft: next }),
+      });
+      if (!response.ok) {
+        throw new Error("Newsletter draft save failed");
+      }
+    } catch (cause) {
+      console.error(cause);
+      setError("Unable to save the newsletter draft.");
+    }
+  }
+
+  function curateItem(item: ConsolidatedNewsItem, patch: CurationEntry) {
+    saveDraft(updateEntry(draft, itemIdentity(item), patch));
+  }
+
+  async function approveIssue(title: string) {
+    setError(null);
+    setIsApproving(true);
+    try {
+      const response = await fetch("/api/newsletter/issues", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          workspaceId: activeWorkspaceId,
+          title,
+          groupBy: newsletterGroupBy,
+          columns: selectedColumns,
+          timeRange,
+          lastRun: lastRun?.toISOString() ?? null,
+          items: draftIssue,
+        }),
+      });
       const payload = await response.json();
-      setResults(payload.results);
-      setLastRun(new Date());
+      if (!response.ok) {
+        throw new Error(payload.fieldErrors?.[0]?.message ?? payload.error);
+      }
+      const issue = payload.issue as NewsletterIssue;
+      setOpenIssue(issue);
+      await Promise.all([
+        refreshNewsletter(activeWorkspaceId),
+        updateItemStatus(issue.items, "included"),
+      ]);
     } catch (cause) {
       console.error(cause);
-      setError("Unable to retrieve news. Please try again.");
+      setError(
+        cause instanceof Error && cause.message
+          ? `Unable to approve the issue: ${cause.message}`
+          : "Unable to approve the issue.",
+      );
     } finally {
-      setIsLoading(false);
+      setIsApproving(false);
+    }
+  }
+
+  async function openNewsletterIssue(id: string | null) {
+    if (!id) {
+      setOpenIssue(null);
+      return;
+    }
+    try {
+      const response = await fetch(`/api/newsletter/issues/${id}`);
+      if (!response.ok) {
+        throw new Error("Issue load failed");
+      }
+      const payload = (await response.json()) as { issue: NewsletterIssue };
+      setOpenIssue(payload.issue);
+    } catch (cause) {
+      console.error(cause);
+      setError("Unable to open the selected issue.");
+    }
+  }
+
+  function currentSettings(): WorkspaceSettings {
+    return {
+      keywordRows,
+      companyTargets,
+      timeRange,
+      maxItems,
+      selectedColumns,
+      filters,
+      adapters,
+      scoring,
+      newsletterGroupBy,
+      taxonomy,
+      articles,
+    };
+  }
+
+  const applySettings = useCallback((settings: WorkspaceSettings) => {
+    setKeywordRows(settings.keywordRows);
+    setCompanyTargets(settings.companyTargets);
+    setTimeRange(settings.timeRange);
+    setMaxItems(settings.maxItems);
+    setSelectedColumns(settings.selectedColumns);
+    setFilters({ ...EMPTY_FILTERS, ...settings.filters });
+    setAdapters(settings.adapters);
+    setScoring(settings.scoring);
+    setNewsletterGroupBy(settings.newsletterGroupBy);
+    setArticles(settings.articles ?? DEFAULT_ARTICLE_SETTINGS);
+    // Workspaces saved before the taxonomy was managed adopt what they use.
+    setTaxonomy(
+      isEmptyTaxonomy(settings.taxonomy)
+        ? taxonomyFromRows(EMPTY_TAXONOMY, settings.keywordRows)
+        : settings.taxonomy,
+    );
+  }, []);
+
+  const rememberWorkspace = useCallback((id: string | null) => {
+    activeWorkspaceRef.current = id;
+    setActiveWorkspaceId(id);
+    if (id) {
+      window.localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+    } else {
+      window.localStorage.removeItem(ACTIVE_WORKSPACE_KEY);
+    }
+  }, []);
+
+  const refreshEntityDictionary = useCallback(async () => {
+    try {
+      const response = await fetch("/api/entities");
+      if (!response.ok) {
+        throw new Error("Entity dictionary load failed");
+      }
+      const payload = (await response.json()) as { terms: EntityTerm[] };
+      setEntityDictionary(payload.terms);
+    } catch (cause) {
+      console.error(cause);
+      setError("Unable to load the entity dictionary.");
+    }
+  }, []);
+
+  const refreshCompanyRegistry = useCallback(async () => {
+    try {
+      const response = await fetch("/api/companies");
+      if (!response.ok) {
+        throw new Error("Company registry load failed");
+      }
+      const payload = (await response.json()) as { companies: CompanyEntry[] };
+      setCompanyRegistry(payload.companies);
+    } catch (cause) {
+      console.error(cause);
+      setError("Unable to load the company registry.");
+    }
+  }, []);
+
+  const refreshEventRules = useCallback(async () => {
+    try {
+      const response = await fetch("/api/event-rules");
+      if (!response.ok) {
+        throw new Error("Event rules load failed");
+      }
+      const payload = (await response.json()) as { rules: EventRule[] };
+      setEventRules(payload.rules);
+    } catch (cause) {
+      console.error(cause);
+      setError("Unable to load the event rules.");
+    }
+  }, []);
+
+  const refreshWorkspaces = useCallback(async () => {
+    try {
+      const response = await fetch("/api/workspaces");
+      if (!response.ok) {
+        throw new Error("Workspace listing failed");
+      }
+      const payload = (await response.json()) as {
+        workspaces: WorkspaceSummary[];
+      };
+      setWorkspaces(payload.workspaces);
+    } catch (cause) {
+      console.error(cause);
+      setError("Unable to load saved workspaces.");
+    }
+  }, []);
+
+  const loadWorkspace = useCallback(
+    async (id: string | null) => {
+      if (!id) {
+        rememberWorkspace(null);
+        return;
+      }
+      setIsWorkspaceBusy(true);
+      try {
+        const response = await fetch(`/api/workspaces/${id}`);
+        if (response.status === 404) {
+          rememberWorkspace(null);
+          return;
+        }
+        if (!response.ok) {
+          throw new Error("Workspace load failed");
+        }
+        const payload = (await response.json()) as { workspace: Workspace };
+        applySettings(payload.workspace.settings);
+        rememberWorkspace(payload.workspace.id);
+      } catch (cause) {
+        console.error(cause);
+        setError("Unable to load the selected workspace.");
+      } finally {
+        setIsWorkspaceBusy(false);
+      }
+    },
+    [applySettings, rememberWorkspace],
+  );
+
+  // Restores the previous session on mount; the helpers never change.
+  useEffect(() => {
+    refreshWorkspaces();
+    refreshEntityDictionary();
+    refreshCompanyRegistry();
+    refreshEventRules();
+    const storedId = window.localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+    if (storedId) {
+      loadWorkspace(storedId);
+    }
+  }, [
+    refreshWorkspaces,
+    refreshEntityDictionary,
+    refreshCompanyRegistry,
+    refreshEventRules,
+    loadWorkspace,
+  ]);
+
+  async function createWorkspace(name: string) {
+    setIsWorkspaceBusy(true);
+    try {
+      const response = await fetch("/api/workspaces", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, settings: currentSettings() }),
+      });
+      if (!response.ok) {
+        throw new Error("Workspace creation failed");
+      }
+      const payload = (await response.json()) as { workspace: Workspace };
+      rememberWorkspace(payload.workspace.id);
+      await refreshWorkspaces();
+    } catch (cause) {
+      console.error(cause);
+      setError("Unable to create the workspace.");
+    } finally {
+      setIsWorkspaceBusy(false);
+    }
+  }
+
+  async function saveWorkspace() {
+    if (!activeWorkspaceId) return;
+    setIsWorkspaceBusy(true);
+    try {
+      const response = await fetch(`/api/workspaces/${activeWorkspaceId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ settings: currentSettings() }),
+      });
+      if (!response.ok) {
+        throw new Error("Workspace save failed");
+      }
+      await refreshWorkspaces();
+    } catch (cause) {
+      console.error(cause);
+      setError("Unable to save the workspace.");
+    } finally {
+      setIsWorkspaceBusy(false);
+    }
+  }
+
+  async function deleteWorkspace() {
+    if (!activeWorkspaceId) return;
+    if (!window.confirm("Delete this workspace? This cannot be undone.")) {
+      return;
+    }
+    setIsWorkspaceBusy(true);
+    try {
+      const response = await fetch(`/api/workspaces/${activeWorkspaceId}`, {
+        method: "DELETE",
+      });
+      if (!response.ok && response.status !== 404) {
+        throw new Error("Workspace deletion failed");
+      }
+      rememberWorkspace(null);
+      await refreshWorkspaces();
+    } catch (cause) {
+      console.error(cause);
+      setError("Unable to delete the workspace.");
+    } finally {
+      setIsWorkspaceBusy(false);
+    }
+  }
+
+  async function handleNewsletterDownload(format: NewsletterFormat) {
+    setError(null);
+    try {
+      // An approved issue is rendered from its frozen snapshot.
+      const response = openIssue
+        ? await fetch(`/api/newsletter/issues/${openIssue.id}?format=${format}`)
+        : await fetch(`/api/newsletter?format=${format}`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              items: previewItems,
+              columns: selectedColumns,
+              timeRange,
+              lastRun: lastRun?.toISOString() ?? null,
+              groupBy: newsletterGroupBy,
+            }),
+          });
+
+      if (!response.ok) {
+        throw new Error("Newsletter rendering failed");
+      }
+
+      const body = await response.text();
+      if (format === "html") {
+        downloadBlob(body, "text/html;charset=utf-8", exportFileName("html"));
+      } else {
+        downloadBlob(body, "text/markdown;charset=utf-8", exportFileName("md"));
+      }
+      if (!openIssue) await updateItemStatus(previewItems, "included");
+    } catch (cause) {
+      console.error(cause);
+      setError("Unable to render the newsletter. Please try again.");
     }
   }
 
   async function handleFileUpload(list: FileList | null) {
     if (!list || list.length === 0) return;
+    const file = list[0];
     try {
-      const rows = await parseWorkbook(list[0]);
-      setKeywordRows(rows);
+      const sheets = await readSpreadsheet(file);
+      if (sheets.length === 0) {
+        setError("The uploaded file has no rows to import.");
+        return;
+      }
+      setPendingImport({ fileName: file.name, sheets });
     } catch (cause) {
       console.error(cause);
-      setError("Unable to parse the uploaded XLSX file.");
+      setError("Unable to parse the uploaded XLSX or CSV file.");
     }
   }
 
   function updateKeyword(
     index: number,
-    field: keyof KeywordSourceRow,
+    field: keyof WeightedKeywordRow,
     value: string,
   ) {
     setKeywordRows((prev) => {
@@ -203,6 +1256,24 @@ export default function Home() {
           .split(/[,;]+/)
           .map((entry) => entry.trim())
           .filter(Boolean);
+      } else if (
+        field === "synonyms" ||
+        field === "include" ||
+        field === "exclude"
+      ) {
+        // Blank entries are kept while typing and ignored when matching.
+        const terms = value.split(/[,;]/).map((entry) => entry.trimStart());
+        if (value.trim() === "") {
+          delete current[field];
+        } else {
+          current[field] = terms;
+        }
+      } else if (field === "weight") {
+        if (value.trim() === "") {
+          delete current.weight;
+        } else {
+          current.weight = Number(value);
+        }
       } else {
         (current as Record<string, unknown>)[field] = value;
       }
@@ -226,20 +1297,9 @@ export default function Home() {
     setCompanyTargets((prev) => [...prev, { id: getId(), label: "", url: "" }]);
   }
 
-  function updateCompanyTarget(
-    id: string,
-    field: keyof CompanyTarget,
-    value: string,
-  ) {
+  function updateCompanyTarget(id: string, patch: Partial<WatchTarget>) {
     setCompanyTargets((prev) =>
-      prev.map((target) =>
-        target.id === id
-          ? {
-              ...target,
-              [field]: value,
-            }
-          : target,
-      ),
+      prev.map((target) => (target.id === id ? { ...target, ...patch } : target)),
     );
   }
 
@@ -247,7 +1307,15 @@ export default function Home() {
     setCompanyTargets((prev) => prev.filter((target) => target.id !== id));
   }
 
-  function toggleColumn(column: NewsletterColumn) {
+  function toggleAdapter(adapter: AdapterId) {
+    setAdapters((prev) =>
+      prev.includes(adapter)
+        ? prev.filter((item) => item !== adapter)
+        : [...prev, adapter],
+    );
+  }
+
+  function toggleColumn(column: ExportColumn) {
     setSelectedColumns((prev) =>
       prev.includes(column)
         ? prev.filter((item) => item !== column)
@@ -281,6 +1349,17 @@ export default function Home() {
               Impact Prioritization
             </span>
           </div>
+          <div className="mt-8">
+            <WorkspaceSwitcher
+              workspaces={workspaces}
+              activeId={activeWorkspaceId}
+              isBusy={isWorkspaceBusy}
+              onSelect={loadWorkspace}
+              onCreate={createWorkspace}
+              onSave={saveWorkspace}
+              onDelete={deleteWorkspace}
+            />
+          </div>
         </div>
       </section>
 
@@ -291,7 +1370,7 @@ export default function Home() {
               <div>
                 <h2 className="text-xl font-semibold">SOP Keyword Taxonomy</h2>
                 <p className="mt-1 text-sm text-slate-400">
-                  Upload XLSX inventories or fine-tune categories inline.
+                  Upload XLSX or CSV inventories or fine-tune categories inline.
                 </p>
               </div>
               <button
@@ -301,6 +1380,7 @@ export default function Home() {
                 Add Keyword
               </button>
             </header>
+            <FieldMessage message={fieldError("keywords")} />
 
             <div className="rounded-xl border border-dashed border-slate-700 bg-slate-950/60 p-6">
               <label
@@ -308,10 +1388,10 @@ export default function Home() {
                 className="flex cursor-pointer flex-col items-center gap-3 text-center"
               >
                 <span className="text-lg font-medium text-white">
-                  Drag &amp; Drop XLSX
+                  Drag &amp; Drop XLSX or CSV
                 </span>
                 <span className="text-sm text-slate-400">
-                  Include columns like Keyword, SOP Category, Business Category, Companies.
+                  Include columns like Keyword, SOP Category, Business Category, Companies, Weight. Every sheet is offered for import, and other headers can be mapped before rows are accepted.
                 </span>
                 <span className="rounded-full border border-slate-700 px-3 py-1 text-xs uppercase tracking-wide">
                   Browse files
@@ -320,15 +1400,18 @@ export default function Home() {
               <input
                 id="keyword-upload"
                 type="file"
-                accept=".xlsx"
+                accept=".xlsx,.csv"
                 className="hidden"
-                onChange={(event) => handleFileUpload(event.target.files)}
+                onChange={(event) => {
+                  handleFileUpload(event.target.files);
+                  event.target.value = "";
+                }}
               />
             </div>
 
             {keywordRows.length === 0 ? (
               <p className="mt-6 text-sm text-slate-400">
-                No keywords yet. Upload an XLSX or add records manually.
+                No keywords yet. Upload an XLSX or CSV file or add records manually.
               </p>
             ) : (
               <div className="mt-6 overflow-hidden rounded-xl border border-slate-900/70">
@@ -339,6 +1422,8 @@ export default function Home() {
                       <th className="px-4 py-3 text-left font-medium">SOP Category</th>
                       <th className="px-4 py-3 text-left font-medium">Business Category</th>
                       <th className="px-4 py-3 text-left font-medium">Companies</th>
+                      <th className="px-4 py-3 text-left font-medium">Matching</th>
+                      <th className="px-4 py-3 text-left font-medium">Weight</th>
                       <th className="px-4 py-3" />
                     </tr>
                   </thead>
@@ -351,26 +1436,31 @@ export default function Home() {
                             onChange={(event) =>
                               updateKeyword(index, "keyword", event.target.value)
                             }
-                            className="w-full rounded-md border border-slate-700 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-slate-500 focus:outline-none"
+                            className={fieldClass(INPUT_CLASS, `keywords.${index}.keyword`)}
                           />
+                          <FieldMessage message={fieldError(`keywords.${index}.keyword`)} />
                         </td>
                         <td className="px-4 py-3">
-                          <input
+                          <CategorySelect
                             value={row.sopCategory ?? ""}
-                            onChange={(event) =>
-                              updateKeyword(index, "sopCategory", event.target.value)
+                            options={sopCategories}
+                            onChange={(value) =>
+                              updateKeyword(index, "sopCategory", value)
                             }
-                            className="w-full rounded-md border border-slate-700 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-slate-500 focus:outline-none"
+                            className={fieldClass(INPUT_CLASS, `keywords.${index}.sopCategory`)}
                           />
+                          <FieldMessage message={fieldError(`keywords.${index}.sopCategory`)} />
                         </td>
                         <td className="px-4 py-3">
-                          <input
+                          <CategorySelect
                             value={row.businessCategory ?? ""}
-                            onChange={(event) =>
-                              updateKeyword(index, "businessCategory", event.target.value)
+                            options={businessCategories}
+                            onChange={(value) =>
+                              updateKeyword(index, "businessCategory", value)
                             }
-                            className="w-full rounded-md border border-slate-700 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-slate-500 focus:outline-none"
+                            className={fieldClass(INPUT_CLASS, `keywords.${index}.businessCategory`)}
                           />
+                          <FieldMessage message={fieldError(`keywords.${index}.businessCategory`)} />
                         </td>
                         <td className="px-4 py-3">
                           <input
@@ -378,8 +1468,50 @@ export default function Home() {
                             onChange={(event) =>
                               updateKeyword(index, "companies", event.target.value)
                             }
-                            className="w-full rounded-md border border-slate-700 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-slate-500 focus:outline-none"
+                            className={fieldClass(INPUT_CLASS, `keywords.${index}.companies`)}
+                          />
+                          <FieldMessage message={fieldError(`keywords.${index}.companies`)} />
+                        </td>
+                        <td className="min-w-56 space-y-2 px-4 py-3">
+                          {RULE_LIST_FIELDS.map((field) => (
+                            <div key={field}>
+                              <input
+                                value={row[field]?.join(", ") ?? ""}
+                                placeholder={RULE_LIST_LABELS[field]}
+                                aria-label={RULE_LIST_LABELS[field]}
+                                onChange={(event) =>
+                                  updateKeyword(index, field, event.target.value)
+                                }
+                                className={fieldClass(INPUT_CLASS, `keywords.${index}.${field}`)}
+                              />
+                              <FieldMessage message={fieldError(`keywords.${index}.${field}`)} />
+                            </div>
+                          ))}
+                          <input
+                            value={row.query ?? ""}
+                            placeholder='Query, e.g. "Stelara" AND (biosimilar OR ustekinumab)'
+                            aria-label="Query"
+                            onChange={(event) =>
+                              updateKeyword(index, "query", event.target.value)
+                            }
+                            className={fieldClass(`${INPUT_CLASS} font-mono`, `keywords.${index}.query`)}
                           />
+                          <FieldMessage message={fieldError(`keywords.${index}.query`)} />
+                        </td>
+                        <td className="px-4 py-3">
+                          <input
+                            type="number"
+                            min={0}
+                            max={MAX_KEYWORD_WEIGHT}
+                            step={0.5}
+                            placeholder="1"
+                            value={row.weight ?? ""}
+                            onChange={(event) =>
+                              updateKeyword(index, "weight", event.target.value)
+                            }
+                            className={fieldClass(`${INPUT_CLASS} w-20`, `keywords.${index}.weight`)}
+                          />
+                          <FieldMessage message={fieldError(`keywords.${index}.weight`)} />
                         </td>
                         <td className="px-4 py-3 text-right">
                           <button
@@ -405,36 +1537,15 @@ export default function Home() {
                 Target specific corporate or regulatory sources for prioritized scraping.
               </p>
               <div className="mt-4 space-y-4">
-                {companyTargets.map((target) => (
-                  <div
+                {companyTargets.map((target, index) => (
+                  <WatchlistTarget
                     key={target.id}
-                    className="rounded-lg border border-slate-800 bg-slate-950/60 p-4"
-                  >
-                    <div className="grid gap-3">
-                      <input
-                        value={target.label}
-                        onChange={(event) =>
-                          updateCompanyTarget(target.id, "label", event.target.value)
-                        }
-                        placeholder="Label (e.g., Amgen IR feed)"
-                        className="w-full rounded-md border border-slate-700 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-slate-500 focus:outline-none"
-                      />
-                      <input
-                        value={target.url}
-                        onChange={(event) =>
-                          updateCompanyTarget(target.id, "url", event.target.value)
-                        }
-                        placeholder="https://"
-                        className="w-full rounded-md border border-slate-700 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-slate-500 focus:outline-none"
-                      />
-                      <button
-                        onClick={() => removeCompanyTarget(target.id)}
-                        className="self-end rounded-md border border-transparent px-3 py-1 text-sm text-slate-300 transition hover:border-red-500 hover:text-red-300"
-                      >
-                        Remove
-                      </button>
-                    </div>
-                  </div>
+                    target={target}
+                    companies={companyRegistry}
+                    errorFor={(field) => fieldError(`companyTargets.${index}.${field}`)}
+                    onChange={(patch) => updateCompanyTarget(target.id, patch)}
+                    onRemove={() => removeCompanyTarget(target.id)}
+                  />
                 ))}
               </div>
               <button
@@ -503,8 +1614,9 @@ export default function Home() {
                               : new Date().toISOString(),
                         }))
                       }
-                      className="mt-1 w-full rounded-md border border-slate-700 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-slate-500 focus:outline-none"
+                      className={fieldClass(`mt-1 ${INPUT_CLASS}`, "timeRange.from")}
                     />
+                    <FieldMessage message={fieldError("timeRange.from")} />
                   </label>
                   <label className="text-xs uppercase tracking-wide text-slate-400">
                     To
@@ -521,8 +1633,9 @@ export default function Home() {
                           to: event.target.value,
                         }))
                       }
-                      className="mt-1 w-full rounded-md border border-slate-700 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-slate-500 focus:outline-none"
+                      className={fieldClass(`mt-1 ${INPUT_CLASS}`, "timeRange.to")}
                     />
+                    <FieldMessage message={fieldError("timeRange.to")} />
                   </label>
                 </div>
               )}
@@ -530,45 +1643,133 @@ export default function Home() {
                 Max Results
                 <input
                   type="number"
-                  min={10}
-                  max={200}
+                  min={MIN_MAX_ITEMS}
+                  max={MAX_MAX_ITEMS}
                   value={maxItems}
                   onChange={(event) => setMaxItems(Number(event.target.value))}
-                  className="mt-1 w-full rounded-md border border-slate-700 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-slate-500 focus:outline-none"
+                  className={fieldClass(`mt-1 ${INPUT_CLASS}`, "maxItems")}
                 />
+                <FieldMessage message={fieldError("maxItems")} />
               </label>
             </div>
           </div>
         </div>
 
-        <div className="rounded-2xl border border-slate-900/70 bg-slate-900/70 p-6 shadow-lg shadow-slate-950/30 backdrop-blur">
-          <div className="flex flex-col gap-6 lg:flex-row lg:items-center lg:justify-between">
-            <div>
-              <h2 className="text-xl font-semibold">Execute Discovery</h2>
-              <p className="mt-1 text-sm text-slate-400">
-                Launch federated monitoring across web search, company feeds, and heuristic AI expansion.
-              </p>
-            </div>
-            <div className="flex flex-wrap items-center gap-3">
-              {lastRun && (
-                <span className="text-sm text-slate-400">
-                  Last run: {formatDate(lastRun.toISOString())}
-                </span>
-              )}
-              <button
-                onClick={handleSearch}
-                disabled={isLoading || keywordRows.length === 0}
-                className="rounded-xl border border-emerald-400/60 bg-emerald-400/10 px-5 py-2 text-sm font-semibold text-emerald-100 transition hover:border-emerald-300 hover:bg-emerald-400/20 disabled:cursor-not-allowed disabled:border-slate-700 disabled:text-slate-500"
-              >
-                {isLoading ? "Scanning..." : "Run Monitoring Cycle"}
-              </button>
+        <div className="grid items-start gap-8 lg:grid-cols-[1.6fr_1fr]">
+          <div className="rounded-2xl border border-slate-900/70 bg-slate-900/70 p-6 shadow-lg shadow-slate-950/30 backdrop-blur">
+            <div className="flex flex-col gap-6 lg:flex-row lg:items-center lg:justify-between">
+              <div>
+                <h2 className="text-xl font-semibold">Execute Discovery</h2>
+                <p className="mt-1 text-sm text-slate-400">
+                  Launch federated monitoring across web search, company feeds, and heuristic AI expansion.
+                </p>
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                {lastRun && (
+                  <span className="text-sm text-slate-400">
+                    Last run: {formatDate(lastRun.toISOString())}
+                  </span>
+                )}
+                <button
+                  onClick={() => handleSearch()}
+                  disabled={
+                    isLoading ||
+                    (keywordRows.length === 0 && companyTargets.length === 0)
+                  }
+                  className="rounded-xl border border-emerald-400/60 bg-emerald-400/10 px-5 py-2 text-sm font-semibold text-emerald-100 transition hover:border-emerald-300 hover:bg-emerald-400/20 disabled:cursor-not-allowed disabled:border-slate-700 disabled:text-slate-500"
+                >
+                  {isLoading ? "Scanning..." : "Run Monitoring Cycle"}
+                </button>
+                <button
+                  onClick={() => setIsReviewingExpansions(true)}
+                  disabled={isLoading || keywordRows.length === 0}
+                  className="rounded-xl border border-slate-700 px-4 py-2 text-sm text-slate-200 transition hover:border-slate-500 hover:text-white disabled:cursor-not-allowed disabled:text-slate-500"
+                >
+                  Review Expansions
+                </button>
+                {isLoading && (
+                  <button
+                    onClick={cancelSearch}
+                    className="rounded-xl border border-slate-700 px-4 py-2 text-sm text-slate-300 transition hover:border-red-500 hover:text-red-300"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
             </div>
+            <fieldset className="mt-6">
+              <legend className="text-xs uppercase tracking-wide text-slate-400">
+                Sources
+              </legend>
+              <div className="mt-2 grid gap-2 sm:grid-cols-2">
+                {ADAPTER_CATALOG.map((adapter) => (
+                  <label
+                    key={adapter.id}
+                    title={adapter.description}
+                    className="flex items-center gap-3 rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-200"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={adapters.includes(adapter.id)}
+                      onChange={() => toggleAdapter(adapter.id)}
+                      disabled={isLoading}
+                      className="h-4 w-4 rounded border border-slate-600 bg-slate-950 text-emerald-400 focus:ring-emerald-300"
+                    />
+                    {adapter.label}
+                  </label>
+                ))}
+              </div>
+              <FieldMessage message={fieldError("adapters")} />
+            </fieldset>
+            <fieldset className="mt-4">
+              <legend className="text-xs uppercase tracking-wide text-slate-400">
+                Article Summaries
+              </legend>
+              <div className="mt-2 flex flex-wrap items-center gap-4 text-sm text-slate-200">
+                <label className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={articles.enabled}
+                    onChange={(event) =>
+                      setArticles((prev) => ({ ...prev, enabled: event.target.checked }))
+                    }
+                    disabled={isLoading}
+                    className="h-4 w-4 rounded border border-slate-600 bg-slate-950 text-emerald-400 focus:ring-emerald-300"
+                  />
+                  Summarise short items from their article page
+                </label>
+                <label className="flex items-center gap-2 text-slate-400">
+                  <input
+                    type="number"
+                    min={MIN_SUMMARY_SENTENCES}
+                    max={MAX_SUMMARY_SENTENCES}
+                    value={articles.sentences}
+                    onChange={(event) =>
+                      setArticles((prev) => ({
+                        ...prev,
+                        sentences: Number(event.target.value),
+                      }))
+                    }
+                    disabled={isLoading || !articles.enabled}
+                    className={fieldClass(
+                      "w-16 rounded-md border border-slate-700 bg-slate-950/60 px-2 py-1 text-sm text-white focus:border-slate-500 focus:outline-none",
+                      "articles.sentences",
+                    )}
+                  />
+                  sentences
+                </label>
+              </div>
+              <FieldMessage message={fieldError("articles.sentences")} />
+            </fieldset>
+            {progress.tasks.length > 0 && <SearchProgress progress={progress} />}
+            {error && (
+              <p className="mt-4 rounded-md border border-red-500/40 bg-red-500/10 px-4 py-2 text-sm text-red-200">
+                {error}
+              </p>
+            )}
           </div>
-          {error && (
-            <p className="mt-4 rounded-md border border-red-500/40 bg-red-500/10 px-4 py-2 text-sm text-red-200">
-              {error}
-            </p>
-          )}
+
+          <SourceHealthPanel diagnostics={diagnostics} />
         </div>
 
         <div className="grid gap-8 lg:grid-cols-[1.6fr_1fr]">
@@ -581,9 +1782,17 @@ export default function Home() {
                 </p>
               </div>
               <div className="flex flex-wrap gap-3 text-xs text-slate-400">
-                <span>
-                  Total: <span className="text-slate-100">{results.length}</span>
-                </span>
+                {history.status === "ready" ? (
+                  <span>
+                    Matches:{" "}
+                    <span className="text-slate-100">{history.total}</span> of{" "}
+                    {history.indexed} collected
+                  </span>
+                ) : (
+                  <span>
+                    Total: <span className="text-slate-100">{scoredResults.length}</span>
+                  </span>
+                )}
                 <span>
                   Showing: <span className="text-slate-100">{filteredResults.length}</span>
                 </span>
@@ -626,15 +1835,89 @@ export default function Home() {
                 </select>
               </label>
               <label className="text-xs uppercase tracking-wide text-slate-400">
-                Free text search
+                Parent group
+                <select
+                  value={filters.companyGroup}
+                  onChange={(event) =>
+                    setFilters((prev) => ({ ...prev, companyGroup: event.target.value }))
+                  }
+                  className="mt-1 w-full rounded-md border border-slate-700 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-slate-500 focus:outline-none"
+                >
+                  <option value="all">All groups</option>
+                  {companyGroupOptions.map((group) => (
+                    <option key={group} value={group}>
+                      {group}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {ENTITY_FILTER_KINDS.map((kind) => {
+                const info = ENTITY_KINDS.find((entry) => entry.id === kind);
+                return (
+                  <label key={kind} className="text-xs uppercase tracking-wide text-slate-400">
+                    {info?.label} focus
+                    <select
+                      value={filters[kind]}
+                      onChange={(event) =>
+                        setFilters((prev) => ({ ...prev, [kind]: event.target.value }))
+                      }
+                      className="mt-1 w-full rounded-md border border-slate-700 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-slate-500 focus:outline-none"
+                    >
+                      <option value="all">All {info?.plural}</option>
+                      {entityOptions[kind].map((name) => (
+                        <option key={name} value={name}>
+                          {name}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                );
+              })}
+              <label className="text-xs uppercase tracking-wide text-slate-400 sm:col-span-2">
+                <span className="flex items-center justify-between gap-2">
+                  Free text search
+                  <span className="flex gap-1 normal-case tracking-normal">
+                    {(["run", "history"] as const).map((scope) => (
+                      <button
+                        key={scope}
+                        type="button"
+                        onClick={() =>
+                          setFilters((prev) => ({ ...prev, searchScope: scope }))
+                        }
+                        className={`rounded-full border px-2 py-0.5 transition ${
+                          filters.searchScope === scope
+                            ? "border-emerald-400 bg-emerald-400/10 text-emerald-200"
+                            : "border-slate-700 text-slate-400 hover:border-slate-500"
+                        }`}
+                      >
+                        {scope === "run" ? "Latest run" : "All collected"}
+                      </button>
+                    ))}
+                  </span>
+                </span>
                 <input
                   value={filters.searchTerm}
                   onChange={(event) =>
                     setFilters((prev) => ({ ...prev, searchTerm: event.target.value }))
                   }
-                  placeholder="Biosimilar launch..."
-                  className="mt-1 w-full rounded-md border border-slate-700 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-slate-500 focus:outline-none"
+                  placeholder={
+                    filters.searchScope === "history"
+                      ? '"interchangeable" company:Sandoz from:2024-01'
+                      : "Biosimilar launch..."
+                  }
+                  className={`mt-1 w-full rounded-md border bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-slate-500 focus:outline-none ${
+                    history.status === "error" ? "border-red-500/70" : "border-slate-700"
+                  }`}
                 />
+                {filters.searchScope === "history" && (
+                  <span className="mt-1 block normal-case tracking-normal text-slate-500">
+                    {history.status === "error"
+                      ? history.message
+                      : history.status === "loading"
+                        ? "Searching every collected item..."
+                        : 'Phrases in quotes, -word to exclude, word* for prefixes; source:, company:, sop:, business:, keyword:, from:, to: and date:2024-01..2024-03.'}
+                  </span>
+                )}
               </label>
               <label className="text-xs uppercase tracking-wide text-slate-400">
                 Result recency
@@ -656,7 +1939,24 @@ export default function Home() {
               </label>
             </div>
 
-            <div className="mt-4 grid gap-4 sm:grid-cols-2">
+            <div className="mt-4 grid gap-4 sm:grid-cols-3">
+              <label className="text-xs uppercase tracking-wide text-slate-400">
+                Lifecycle
+                <select
+                  value={filters.lifecycle}
+                  onChange={(event) =>
+                    setFilters((prev) => ({
+                      ...prev,
+                      lifecycle: event.target.value as FiltersState["lifecycle"],
+                    }))
+                  }
+                  className="mt-1 w-full rounded-md border border-slate-700 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-slate-500 focus:outline-none"
+                >
+                  <option value="active">Hide dismissed</option>
+                  <option value="new">New only</option>
+                  <option value="all">Include dismissed</option>
+                </select>
+              </label>
               <label className="text-xs uppercase tracking-wide text-slate-400">
                 Authentic score (min)
                 <input
@@ -700,7 +2000,9 @@ export default function Home() {
             <div className="mt-6 space-y-4">
               {filteredResults.length === 0 && (
                 <div className="rounded-lg border border-slate-800 bg-slate-950/60 px-4 py-6 text-center text-sm text-slate-400">
-                  No signals match the active filters. Adjust filters or launch a new cycle.
+                  {filters.searchScope === "history"
+                    ? "No collected items match the search and filters."
+                    : "No signals match the active filters. Adjust filters or launch a new cycle."}
                 </div>
               )}
 
@@ -712,27 +2014,49 @@ export default function Home() {
                   <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
                     <div>
                       <div className="flex flex-wrap items-center gap-2 text-xs uppercase tracking-wide text-slate-400">
+                        <span
+                          className={`rounded-full border px-3 py-1 ${STATUS_BADGE_STYLES[statusOf(item)]}`}
+                        >
+                          {ITEM_STATUS_LABELS[statusOf(item)]}
+                        </span>
                         <span className="rounded-full border border-slate-700 px-3 py-1">
                           {item.source}
                         </span>
-                        {item.sopCategory && (
-                          <span className="rounded-full border border-slate-700 px-3 py-1">
-                            {item.sopCategory}
-                          </span>
-                        )}
-                        {item.businessCategory && (
-                          <span className="rounded-full border border-slate-700 px-3 py-1">
-                            {item.businessCategory}
-                          </span>
-                        )}
-                        {item.keywordMatches.map((keyword) => (
+                        {item.event && (
                           <span
-                            key={`${item.id}-${keyword}`}
-                            className="rounded-full border border-slate-700 px-3 py-1"
+                            title={`Matched: ${item.event.matched.join(", ")}`}
+                            className="rounded-full border border-sky-500/40 px-3 py-1 text-sky-200"
                           >
-                            {keyword}
+                            {describeEvent(item.event)}
                           </span>
-                        ))}
+                        )}
+                        {item.keywordMatches.map((keyword) => {
+                          const hit = item.keywordHits?.find(
+                            (entry) => entry.keyword === keyword,
+                          );
+                          const viaAlternative =
+                            hit?.via === "synonym" || hit?.via === "expansion";
+                          return (
+                            <span
+                              key={`${item.id}-${keyword}`}
+                              title={hit ? describeKeywordHit(hit) : undefined}
+                              className={`rounded-full border px-3 py-1 ${
+                                hit?.via === "expansion"
+                                  ? "border-violet-400/50 text-violet-100"
+                                  : "border-slate-700"
+                              }`}
+                            >
+                              {keyword}
+                              {viaAlternative && hit && ` ← ${hit.term}`}
+                            </span>
+                          );
+                        })}
+                        <CategoryOverride
+                          item={item}
+                          sopOptions={sopCategories}
+                          businessOptions={businessCategories}
+                          onSave={(categories) => updateItemCategory(item, categories)}
+                        />
                       </div>
                       <a
                         href={item.url}
@@ -745,6 +2069,11 @@ export default function Home() {
                       <p className="mt-2 text-sm text-slate-300">
                         {item.summary || "No summary available."}
                       </p>
+                      {item.summary && (
+                        <p className="mt-1 text-xs text-slate-500">
+                          {SUMMARY_SOURCE_LABELS[summarySource(item)]}
+                        </p>
+                      )}
                       <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-slate-400">
                         <span>{formatDate(item.publishedAt)}</span>
                         {item.companyMatches.length > 0 && (
@@ -761,20 +2090,98 @@ export default function Home() {
                           </span>
                         )}
                       </div>
+                      {item.entities && Object.keys(item.entities).length > 0 && (
+                        <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                          {ENTITY_KINDS.flatMap((kind) =>
+                            (item.entities?.[kind.id] ?? []).map((name) => (
+                              <span
+                                key={`${item.id}-${kind.id}-${name}`}
+                                title={kind.label}
+                                className="rounded-md border border-sky-500/30 bg-sky-500/5 px-2 py-0.5 text-sky-200"
+                              >
+                                {name}
+                              </span>
+                            )),
+                          )}
+                        </div>
+                      )}
+                      {item.related && <RelatedCoverageList related={item.related} />}
+                      {item.scoreBreakdown && (
+                        <ScoreBreakdownPanel breakdown={item.scoreBreakdown} />
+                      )}
                     </div>
                     <div className="flex flex-row items-center gap-3 sm:flex-col sm:items-end">
-                      <div className="rounded-lg border border-slate-700 bg-slate-950/70 px-3 py-2 text-center">
+                      <div
+                        title={describeBreakdown(item.scoreBreakdown?.authentic)}
+                        className="rounded-lg border border-slate-700 bg-slate-950/70 px-3 py-2 text-center"
+                      >
                         <div className="text-xs uppercase text-slate-500">Authentic</div>
                         <div className="text-lg font-semibold text-white">
                           {item.authenticScore}
                         </div>
                       </div>
-                      <div className="rounded-lg border border-slate-700 bg-slate-950/70 px-3 py-2 text-center">
+                      <div
+                        title={describeBreakdown(item.scoreBreakdown?.marketImpact)}
+                        className="rounded-lg border border-slate-700 bg-slate-950/70 px-3 py-2 text-center"
+                      >
                         <div className="text-xs uppercase text-slate-500">Impact</div>
                         <div className="text-lg font-semibold text-white">
                           {item.marketImpactScore}
                         </div>
                       </div>
+                      {statusOf(item) === "dismissed" ? (
+                        <button
+                          onClick={() => updateItemStatus([item], "seen")}
+                          className="rounded-md border border-transparent px-2 py-1 text-xs text-slate-300 transition hover:border-slate-600 hover:text-white"
+                        >
+                          Restore
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => updateItemStatus([item], "dismissed")}
+                          className="rounded-md border border-transparent px-2 py-1 text-xs text-slate-300 transition hover:border-red-500 hover:text-red-300"
+                        >
+                          Dismiss
+                        </button>
+                      )}
+                      {(() => {
+                        const entry = draft.entries[itemIdentity(item)];
+                        return (
+                          <div className="flex gap-1">
+                            <button
+                              onClick={() =>
+                                curateItem(item, {
+                                  pinned: !entry?.pinned,
+                                  excluded: false,
+                                })
+                              }
+                              className={`rounded-md border px-2 py-1 text-xs transition ${
+                                entry?.pinned
+                                  ? "border-sky-400/60 text-sky-200"
+                                  : "border-transparent text-slate-300 hover:border-sky-400/60 hover:text-sky-200"
+                              }`}
+                            >
+                              {entry?.pinned ? "Pinned" : "Pin"}
+                            </button>
+                            <button
+                              onClick={() =>
+                                curateItem(item, {
+                                  excluded: !entry?.excluded,
+                                  pinned: false,
+                                })
+                              }
+                              title="Keep out of the newsletter"
+                              className={`rounded-md border px-2 py-1 text-xs transition ${
+                                entry?.excluded
+                                  ? "border-red-500/40 text-red-300"
+                                  : "border-transparent text-slate-300 hover:border-red-500 hover:text-red-300"
+                              }`}
+                            >
+                              {entry?.excluded ? "Excluded" : "Exclude"}
+                            </button>
+                          </div>
+                        );
+                      })()}
                     </div>
                   </div>
                 </article>
@@ -783,6 +2190,48 @@ export default function Home() {
           </div>
 
           <div className="space-y-6">
+            <RunHistoryPanel
+              runs={runs}
+              openRunId={openRunId}
+              comparison={comparison}
+              schedule={
+                workspaces.find((workspace) => workspace.id === activeWorkspaceId)
+                  ?.schedule
+              }
+              canSchedule={activeWorkspaceId !== null}
+              onOpen={openRun}
+              onCompare={compareRun}
+              onExport={exportRun}
+              onSaveSchedule={saveSchedule}
+            />
+
+            <TaxonomyPanel
+              taxonomy={taxonomy}
+              rows={keywordRows}
+              onChange={setTaxonomy}
+              onCategoryChange={changeCategory}
+            />
+
+            <ScoringConfigPanel
+              config={scoring}
+              categories={sopCategories}
+              errorFor={(field) => fieldError(`scoring.${field}`)}
+              onChange={setScoring}
+            />
+
+            <EntityDictionaryPanel
+              dictionary={entityDictionary}
+              onSaved={setEntityDictionary}
+            />
+
+            <CompanyRegistryPanel
+              companies={companyRegistry}
+              targets={companyTargets}
+              onSaved={setCompanyRegistry}
+            />
+
+            <EventRulesPanel rules={eventRules} onSaved={setEventRules} />
+
             <div className="rounded-2xl border border-slate-900/70 bg-slate-900/70 p-6 shadow-lg shadow-slate-950/30 backdrop-blur">
               <h2 className="text-xl font-semibold">Newsletter Blueprint</h2>
               <p className="mt-1 text-sm text-slate-400">
@@ -804,18 +2253,82 @@ export default function Home() {
                   </label>
                 ))}
               </div>
+              <label className="mt-4 block text-xs uppercase tracking-wide text-slate-400">
+                Group sections by
+                <select
+                  value={newsletterGroupBy}
+                  onChange={(event) =>
+                    setNewsletterGroupBy(event.target.value as NewsletterGrouping)
+                  }
+                  className="mt-1 w-full rounded-md border border-slate-700 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-slate-500 focus:outline-none"
+                >
+                  {NEWSLETTER_GROUPINGS.map((grouping) => (
+                    <option key={grouping.id} value={grouping.id}>
+                      {grouping.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
             </div>
 
+            <NewsletterCurationPanel
+              issue={draftIssue}
+              groupBy={newsletterGroupBy}
+              draft={draft}
+              onChange={saveDraft}
+              issues={issues}
+              openIssueId={openIssue?.id ?? null}
+              onOpenIssue={openNewsletterIssue}
+              onApprove={approveIssue}
+              isApproving={isApproving}
+            />
+
             <div className="rounded-2xl border border-slate-900/70 bg-slate-900/70 p-6 shadow-lg shadow-slate-950/30 backdrop-blur">
-              <h2 className="text-xl font-semibold">Newsletter Preview</h2>
-              <p className="mt-1 text-sm text-slate-400">
-                Preview reflects active filters and selected columns.
-              </p>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h2 className="text-xl font-semibold">Newsletter Preview</h2>
+                  <p className="mt-1 text-sm text-slate-400">
+                    {openIssue
+                      ? `Approved issue "${openIssue.title}" from ${formatDate(openIssue.approvedAt)}, exported exactly as approved.`
+                      : "Preview shows the curated issue with the selected columns."}
+                  </p>
+                </div>
+                <div className="flex flex-wrap justify-end gap-2">
+                  <button
+                    onClick={() => exportNewsletter("xlsx")}
+                    disabled={previewItems.length === 0 || previewColumns.length === 0}
+                    className="rounded-lg border border-slate-700 px-3 py-1.5 text-sm font-medium text-slate-200 transition hover:border-slate-500 hover:text-white disabled:cursor-not-allowed disabled:text-slate-500"
+                  >
+                    Export XLSX
+                  </button>
+                  <button
+                    onClick={() => exportNewsletter("csv")}
+                    disabled={previewItems.length === 0 || previewColumns.length === 0}
+                    className="rounded-lg border border-slate-700 px-3 py-1.5 text-sm font-medium text-slate-200 transition hover:border-slate-500 hover:text-white disabled:cursor-not-allowed disabled:text-slate-500"
+                  >
+                    Export CSV
+                  </button>
+                  <button
+                    onClick={() => handleNewsletterDownload("html")}
+                    disabled={previewItems.length === 0 || previewColumns.length === 0}
+                    className="rounded-lg border border-slate-700 px-3 py-1.5 text-sm font-medium text-slate-200 transition hover:border-slate-500 hover:text-white disabled:cursor-not-allowed disabled:text-slate-500"
+                  >
+                    Email HTML
+                  </button>
+                  <button
+                    onClick={() => handleNewsletterDownload("markdown")}
+                    disabled={previewItems.length === 0 || previewColumns.length === 0}
+                    className="rounded-lg border border-slate-700 px-3 py-1.5 text-sm font-medium text-slate-200 transition hover:border-slate-500 hover:text-white disabled:cursor-not-allowed disabled:text-slate-500"
+                  >
+                    Markdown
+                  </button>
+                </div>
+              </div>
               <div className="mt-4 overflow-x-auto rounded-xl border border-slate-800">
                 <table className="min-w-full divide-y divide-slate-800 text-sm">
                   <thead className="bg-slate-900/70 text-slate-300">
                     <tr>
-                      {selectedColumns.map((column) => (
+                      {previewColumns.map((column) => (
                         <th key={column} className="px-4 py-3 text-left font-medium">
                           {
                             AVAILABLE_COLUMNS.find((entry) => entry.id === column)?.label
@@ -825,9 +2338,9 @@ export default function Home() {
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-slate-800 text-slate-200">
-                    {filteredResults.slice(0, 12).map((item) => (
+                    {previewItems.map((item) => (
                       <tr key={`newsletter-${item.id}`}>
-                        {selectedColumns.map((column) => {
+                        {previewColumns.map((column) => {
                           switch (column) {
                             case "title":
                               return (
@@ -878,12 +2391,30 @@ export default function Home() {
                                   {item.marketImpactScore}
                                 </td>
                               );
+                            case "authenticFactors":
+                            case "impactFactors":
+                            case "summarySource":
+                            case "editorialNote":
+                              return (
+                                <td
+                                  key={`${item.id}-${column}`}
+                                  className="px-4 py-3 text-xs text-slate-400"
+                                >
+                                  {getColumnValue(item, column)}
+                                </td>
+                              );
                             case "keyword":
                               return (
                                 <td key={`${item.id}-keyword`} className="px-4 py-3">
                                   {item.keywordMatches.join(", ")}
                                 </td>
                               );
+                            case "eventType":
+                              return (
+                                <td key={`${item.id}-event`} className="px-4 py-3">
+                                  {describeEvent(item.event)}
+                                </td>
+                              );
                             case "sopCategory":
                               return (
                                 <td key={`${item.id}-sop`} className="px-4 py-3">
@@ -905,15 +2436,43 @@ export default function Home() {
                   </tbody>
                 </table>
               </div>
-              {filteredResults.length > 12 && (
+              {previewItems.length > 0 && (
                 <p className="mt-3 text-xs text-slate-400">
-                  Showing top 12 records. Additional export tooling can build on this dataset.
+                  {previewItems.length} items. Exports include exactly these items in this
+                  order, with one sheet per SOP category.
                 </p>
               )}
             </div>
           </div>
         </div>
       </section>
+      {isReviewingExpansions && (
+        <ExpansionReviewDrawer
+          rows={keywordRows}
+          onClose={() => setIsReviewingExpansions(false)}
+          onApply={(rows, run) => {
+            setKeywordRows(rows);
+            setIsReviewingExpansions(false);
+            if (run) handleSearch(rows);
+          }}
+        />
+      )}
+      {pendingImport && (
+        <TaxonomyImportDialog
+          fileName={pendingImport.fileName}
+          sheets={pendingImport.sheets}
+          currentRows={keywordRows}
+          taxonomy={taxonomy}
+          onClose={() => setPendingImport(null)}
+          onImport={(rows) => {
+            setKeywordRows(rows);
+            if (isEmptyTaxonomy(taxonomy)) {
+              setTaxonomy(taxonomyFromRows(EMPTY_TAXONOMY, rows));
+            }
+            setPendingImport(null);
+          }}
+        />
+      )}
     </main>
   );
 }
@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from "react";
+import { CATEGORY_SOURCE_LABELS, CategoryPair } from "@/lib/categorization";
+import type { ScoredNewsItem } from "@/lib/scoring";
+
+const FIELD_CLASS =
+  "w-full rounded-md border border-slate-700 bg-slate-950/60 px-2 py-1.5 text-sm normal-case tracking-normal text-white focus:border-slate-500 focus:outline-none";
+
+type CategoryOverrideProps = {
+  item: ScoredNewsItem;
+  sopOptions: string[];
+  businessOptions: string[];
+  /** Null reverts the item to its keyword or suggested categories. */
+  onSave: (categories: CategoryPair | null) => Promise<void>;
+};
+
+export default function CategoryOverride({
+  item,
+  sopOptions,
+  businessOptions,
+  onSave,
+}: CategoryOverrideProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<CategoryPair>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const assignment = item.categoryAssignment;
+  const listId = `categories-${item.id}`;
+
+  function open() {
+    setDraft({
+      sopCategory: item.sopCategory ?? "",
+      businessCategory: item.businessCategory ?? "",
+    });
+    setIsEditing(true);
+  }
+
+  async function save(categories: CategoryPair | null) {
+    setIsSaving(true);
+    try {
+      await onSave(categories);
+      setIsEditing(false);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  const tooltip = assignment
+    ? [CATEGORY_SOURCE_LABELS[assignment.source], ...assignment.reasons].join(
+        "\n",
+      )
+    : "No category matched";
+
+  return (
+    <>
+      <span
+        title={tooltip}
+        className={`rounded-full border px-3 py-1 ${
+          assignment?.source === "classifier"
+            ? "border-dashed border-amber-400/50 text-amber-100"
+            : "border-slate-700"
+        }`}
+      >
+        {item.sopCategory || "Uncategorised"}
+        {item.businessCategory && ` · ${item.businessCategory}`}
+        {assignment?.source === "classifier" &&
+          ` · ${Math.round(assignment.confidence * 100)}%`}
+        {assignment?.source === "analyst" && " · set"}
+      </span>
+      {!isEditing && (
+        <button
+          onClick={open}
+          className="text-xs normal-case tracking-normal text-slate-400 transition hover:text-white"
+        >
+          Edit category
+        </button>
+      )}
+      {isEditing && (
+        <div className="flex basis-full flex-wrap items-center gap-2">
+          <input
+            value={draft.sopCategory ?? ""}
+            list={`${listId}-sop`}
+            aria-label="SOP category"
+            placeholder="SOP category"
+            onChange={(event) =>
+              setDraft((prev) => ({ ...prev, sopCategory: event.target.value }))
+            }
+            className={`${FIELD_CLASS} sm:w-48`}
+          />
+          <datalist id={`${listId}-sop`}>
+            {sopOptions.map((option) => (
+              <option key={option} value={option} />
+            ))}
+          </datalist>
+          <input
+            value={draft.businessCategory ?? ""}
+            list={`${listId}-business`}
+            aria-label="Business category"
+            placeholder="Business category"
+            onChange={(event) =>
+              setDraft((prev) => ({
+                ...prev,
+                businessCategory: event.target.value,
+              }))
+            }
+            className={`${FIELD_CLASS} sm:w-48`}
+          />
+          <datalist id={`${listId}-business`}>
+            {businessOptions.map((option) => (
+              <option key={option} value={option} />
+            ))}
+          </datalist>
+          <button
+            onClick={() => save(draft)}
+            disabled={isSaving}
+            className="rounded-md border border-emerald-400/60 px-3 py-1 text-xs normal-case tracking-normal text-emerald-100 transition hover:border-emerald-300 disabled:cursor-not-allowed disabled:text-slate-500"
+          >
+            Save
+          </button>
+          {assignment?.source === "analyst" && (
+            <button
+              onClick={() => save(null)}
+              disabled={isSaving}
+              className="text-xs normal-case tracking-normal text-slate-400 transition hover:text-white"
+            >
+              Use automatic
+            </button>
+          )}
+          <button
+            onClick={() => setIsEditing(false)}
+            className="text-xs normal-case tracking-normal text-slate-400 transition hover:text-white"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,332 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import {
+  COMPANY_ROLES,
+  CompanyEntry,
+  CompanyRole,
+  DEFAULT_COMPANY_REGISTRY,
+  companyGroup,
+  companyId,
+  findCompany,
+} from "@/lib/companies";
+import type { WatchTarget } from "@/lib/targets";
+import type { FieldError } from "@/lib/validation";
+
+const FIELD_CLASS =
+  "w-full rounded-md border bg-slate-950/60 px-2 py-1.5 text-sm text-white focus:border-slate-500 focus:outline-none";
+
+type CompanyRegistryPanelProps = {
+  companies: CompanyEntry[];
+  /** Watchlist targets, to show which feeds each company is linked to. */
+  targets: WatchTarget[];
+  onSaved: (companies: CompanyEntry[]) => void;
+};
+
+export default function CompanyRegistryPanel({
+  companies,
+  targets,
+  onSaved,
+}: CompanyRegistryPanelProps) {
+  const [draft, setDraft] = useState<CompanyEntry[]>(companies);
+  const [query, setQuery] = useState("");
+  const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(companies);
+  }, [companies]);
+
+  const needle = query.trim().toLowerCase();
+  const rows = draft
+    .map((entry, index) => ({ entry, index }))
+    .filter(
+      ({ entry }) =>
+        !needle ||
+        !entry.name.trim() ||
+        entry.name.toLowerCase().includes(needle) ||
+        findCompany(query, [entry]) !== undefined,
+    );
+  const linkable = draft.filter((entry) => entry.id && entry.name.trim());
+
+  function errorFor(index: number, field?: string) {
+    const path = field ? `companies.${index}.${field}` : `companies.${index}`;
+    return fieldErrors.find((entry) => entry.field === path)?.message;
+  }
+
+  function update(index: number, patch: Partial<CompanyEntry>) {
+    setDraft((prev) =>
+      prev.map((entry, position) =>
+        position === index ? { ...entry, ...patch } : entry,
+      ),
+    );
+    setStatus(null);
+  }
+
+  function remove(index: number) {
+    const removed = draft[index];
+    setDraft((prev) =>
+      prev
+        .filter((_, position) => position !== index)
+        .map((entry) => ({
+          ...entry,
+          parentId: entry.parentId === removed.id ? undefined : entry.parentId,
+          partnerIds: entry.partnerIds?.filter((id) => id !== removed.id),
+        })),
+    );
+    setFieldErrors([]);
+    setStatus(null);
+  }
+
+  function toggleRole(index: number, role: CompanyRole) {
+    const roles = draft[index].roles ?? [];
+    update(index, {
+      roles: roles.includes(role)
+        ? roles.filter((entry) => entry !== role)
+        : [...roles, role],
+    });
+  }
+
+  async function save() {
+    // New companies get an id from their name when first saved.
+    const assigned = draft.reduce<CompanyEntry[]>(
+      (next, entry) => [
+        ...next,
+        entry.id || !entry.name.trim()
+          ? entry
+          : { ...entry, id: companyId(entry.name, [...next, ...draft]) },
+      ],
+      [],
+    );
+    setDraft(assigned);
+    setIsSaving(true);
+    setStatus(null);
+    try {
+      const response = await fetch("/api/companies", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companies: assigned }),
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        setFieldErrors(payload.fieldErrors ?? []);
+        setStatus(payload.error ?? "Unable to save the registry.");
+        return;
+      }
+      setFieldErrors([]);
+      setStatus("Registry saved.");
+      onSaved(payload.companies as CompanyEntry[]);
+    } catch (error) {
+      console.error(error);
+      setStatus("Unable to save the registry.");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-slate-900/70 bg-slate-900/70 p-6 shadow-lg shadow-slate-950/30 backdrop-blur">
+      <h2 className="text-xl font-semibold">Company Registry</h2>
+      <p className="mt-1 text-sm text-slate-400">
+        Items name companies by their registry name whichever alias or ticker
+        the source used. Parents group subsidiaries under one filter.
+      </p>
+
+      <input
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        placeholder="Find a company, alias or ticker"
+        className={`${FIELD_CLASS} mt-4 border-slate-700`}
+      />
+
+      <ul className="mt-4 max-h-96 space-y-4 overflow-y-auto pr-1">
+        {rows.map(({ entry, index }) => {
+          const nameError = errorFor(index, "name") ?? errorFor(index);
+          const parentError = errorFor(index, "parentId");
+          const partnerError = errorFor(index, "partnerIds");
+          const others = linkable.filter((other) => other.id !== entry.id);
+          const feeds = entry.id
+            ? targets.filter((target) => target.companyId === entry.id)
+            : [];
+          const group = entry.parentId ? companyGroup(entry, draft) : undefined;
+          return (
+            <li
+              key={entry.id || `new-${index}`}
+              className="grid gap-2 border-b border-slate-800/70 pb-4 last:border-0"
+            >
+              <div className="flex items-center gap-2">
+                <input
+                  value={entry.name}
+                  aria-label="Name"
+                  placeholder="Name"
+                  onChange={(event) =>
+                    update(index, { name: event.target.value })
+                  }
+                  className={`${FIELD_CLASS} ${nameError ? "border-red-500/70" : "border-slate-700"}`}
+                />
+                <input
+                  value={entry.ticker ?? ""}
+                  aria-label="Ticker"
+                  placeholder="Ticker"
+                  onChange={(event) =>
+                    update(index, { ticker: event.target.value })
+                  }
+                  className={`${FIELD_CLASS} w-28 shrink-0 border-slate-700`}
+                />
+                <button
+                  onClick={() => remove(index)}
+                  aria-label={`Remove ${entry.name || "company"}`}
+                  className="rounded-md px-2 py-1 text-sm text-slate-400 transition hover:text-red-300"
+                >
+                  ×
+                </button>
+              </div>
+              <input
+                value={entry.aliases?.join(", ") ?? ""}
+                aria-label="Aliases"
+                placeholder="Aliases, comma-separated"
+                onChange={(event) =>
+                  update(index, {
+                    aliases: event.target.value
+                      .split(",")
+                      .map((alias) => alias.trimStart()),
+                  })
+                }
+                className={`${FIELD_CLASS} border-slate-800 text-slate-300`}
+              />
+              <div className="grid gap-2 sm:grid-cols-2">
+                <select
+                  value={entry.parentId ?? ""}
+                  aria-label="Parent company"
+                  onChange={(event) =>
+                    update(index, {
+                      parentId: event.target.value || undefined,
+                    })
+                  }
+                  className={`${FIELD_CLASS} ${parentError ? "border-red-500/70" : "border-slate-800"} text-slate-300`}
+                >
+                  <option value="">No parent</option>
+                  {others.map((other) => (
+                    <option key={other.id} value={other.id}>
+                      Part of {other.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value=""
+                  aria-label="Add partner"
+                  onChange={(event) =>
+                    event.target.value &&
+                    update(index, {
+                      partnerIds: [
+                        ...(entry.partnerIds ?? []),
+                        event.target.value,
+                      ],
+                    })
+                  }
+                  className={`${FIELD_CLASS} ${partnerError ? "border-red-500/70" : "border-slate-800"} text-slate-300`}
+                >
+                  <option value="">Add partner…</option>
+                  {others
+                    .filter((other) => !entry.partnerIds?.includes(other.id))
+                    .map((other) => (
+                      <option key={other.id} value={other.id}>
+                        {other.name}
+                      </option>
+                    ))}
+                </select>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                {COMPANY_ROLES.map((role) => {
+                  const active = entry.roles?.includes(role.id);
+                  return (
+                    <button
+                      key={role.id}
+                      onClick={() => toggleRole(index, role.id)}
+                      className={`rounded-full border px-2 py-0.5 transition ${
+                        active
+                          ? "border-emerald-400/60 bg-emerald-400/10 text-emerald-200"
+                          : "border-slate-700 text-slate-400 hover:border-slate-500"
+                      }`}
+                    >
+                      {role.label}
+                    </button>
+                  );
+                })}
+                {entry.partnerIds?.map((partnerId) => (
+                  <span
+                    key={partnerId}
+                    className="flex items-center gap-1 rounded-full border border-slate-700 px-2 py-0.5 text-slate-300"
+                  >
+                    Partner:{" "}
+                    {draft.find((other) => other.id === partnerId)?.name ??
+                      partnerId}
+                    <button
+                      onClick={() =>
+                        update(index, {
+                          partnerIds: entry.partnerIds?.filter(
+                            (id) => id !== partnerId,
+                          ),
+                        })
+                      }
+                      aria-label="Remove partner"
+                      className="text-slate-500 hover:text-red-300"
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+              {(group || feeds.length > 0) && (
+                <p className="text-xs text-slate-500">
+                  {group && `Group: ${group.name}`}
+                  {group && feeds.length > 0 && " · "}
+                  {feeds.length > 0 &&
+                    `Feeds: ${feeds.map((target) => target.label || target.url).join(", ")}`}
+                </p>
+              )}
+              {[nameError, parentError, partnerError]
+                .filter(Boolean)
+                .map((message) => (
+                  <p key={message} className="text-xs text-red-300">
+                    {message}
+                  </p>
+                ))}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="mt-4 flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => {
+            setDraft((prev) => [...prev, { id: "", name: "" }]);
+            setQuery("");
+          }}
+          className="rounded-lg border border-slate-700 bg-slate-950/60 px-4 py-2 text-sm font-medium text-slate-200 transition hover:border-slate-500 hover:text-white"
+        >
+          Add Company
+        </button>
+        <button
+          onClick={save}
+          disabled={isSaving}
+          className="rounded-lg border border-emerald-400/60 bg-emerald-400/10 px-4 py-2 text-sm font-medium text-emerald-100 transition hover:border-emerald-300 disabled:cursor-not-allowed disabled:border-slate-700 disabled:text-slate-500"
+        >
+          {isSaving ? "Saving..." : "Save Registry"}
+        </button>
+        <button
+          onClick={() => {
+            setDraft(DEFAULT_COMPANY_REGISTRY);
+            setFieldErrors([]);
+            setStatus("Bundled registry restored; save to keep it.");
+          }}
+          className="text-xs text-slate-400 transition hover:text-white"
+        >
+          Restore bundled
+        </button>
+      </div>
+      {status && <p className="mt-3 text-xs text-slate-400">{status}</p>}
+    </div>
+  );
+}
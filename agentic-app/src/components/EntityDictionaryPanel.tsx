@@ -0,0 +1,202 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_ENTITY_DICTIONARY,
+  DictionaryKind,
+  ENTITY_KINDS,
+  EntityTerm,
+} from "@/lib/entities";
+import type { FieldError } from "@/lib/validation";
+
+const DICTIONARY_KINDS = ENTITY_KINDS.filter(
+  (kind): kind is (typeof ENTITY_KINDS)[number] & { id: DictionaryKind } =>
+    kind.id !== "suffix",
+);
+
+const IMPLIES_HINT: Record<DictionaryKind, string> = {
+  molecule: "",
+  brand: "Molecule",
+  regulator: "Jurisdiction",
+  jurisdiction: "",
+};
+
+const FIELD_CLASS =
+  "w-full rounded-md border bg-slate-950/60 px-2 py-1.5 text-sm text-white focus:border-slate-500 focus:outline-none";
+
+type EntityDictionaryPanelProps = {
+  dictionary: EntityTerm[];
+  onSaved: (terms: EntityTerm[]) => void;
+};
+
+export default function EntityDictionaryPanel({
+  dictionary,
+  onSaved,
+}: EntityDictionaryPanelProps) {
+  const [draft, setDraft] = useState<EntityTerm[]>(dictionary);
+  const [kind, setKind] = useState<DictionaryKind>("molecule");
+  const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(dictionary);
+  }, [dictionary]);
+
+  const rows = draft
+    .map((term, index) => ({ term, index }))
+    .filter(({ term }) => term.kind === kind);
+
+  function errorFor(index: number, field: string) {
+    return fieldErrors.find(
+      (entry) => entry.field === `terms.${index}.${field}`,
+    )?.message;
+  }
+
+  function update(index: number, patch: Partial<EntityTerm>) {
+    setDraft((prev) =>
+      prev.map((term, position) =>
+        position === index ? { ...term, ...patch } : term,
+      ),
+    );
+    setStatus(null);
+  }
+
+  function remove(index: number) {
+    setDraft((prev) => prev.filter((_, position) => position !== index));
+    setFieldErrors([]);
+    setStatus(null);
+  }
+
+  async function save() {
+    setIsSaving(true);
+    setStatus(null);
+    try {
+      const response = await fetch("/api/entities", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ terms: draft }),
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        setFieldErrors(payload.fieldErrors ?? []);
+        setStatus(payload.error ?? "Unable to save the dictionary.");
+        return;
+      }
+      setFieldErrors([]);
+      setStatus("Dictionary saved.");
+      onSaved(payload.terms as EntityTerm[]);
+    } catch (error) {
+      console.error(error);
+      setStatus("Unable to save the dictionary.");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-slate-900/70 bg-slate-900/70 p-6 shadow-lg shadow-slate-950/30 backdrop-blur">
+      <h2 className="text-xl font-semibold">Entity Dictionary</h2>
+      <p className="mt-1 text-sm text-slate-400">
+        Names tagged on every item and offered as filters. Suffixed biosimilar
+        names such as adalimumab-aaty are recognised automatically.
+      </p>
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        {DICTIONARY_KINDS.map((option) => (
+          <button
+            key={option.id}
+            onClick={() => setKind(option.id)}
+            className={`rounded-full border px-3 py-1 text-xs font-medium transition ${
+              kind === option.id
+                ? "border-emerald-400 bg-emerald-400/10 text-emerald-200"
+                : "border-slate-700 text-slate-300 hover:border-slate-500"
+            }`}
+          >
+            {option.label}s
+          </button>
+        ))}
+      </div>
+
+      <ul className="mt-4 max-h-80 space-y-3 overflow-y-auto pr-1">
+        {rows.map(({ term, index }) => {
+          const nameError = errorFor(index, "name");
+          return (
+            <li key={index} className="grid gap-2">
+              <div className="flex items-center gap-2">
+                <input
+                  value={term.name}
+                  aria-label="Name"
+                  placeholder="Name"
+                  onChange={(event) =>
+                    update(index, { name: event.target.value })
+                  }
+                  className={`${FIELD_CLASS} ${nameError ? "border-red-500/70" : "border-slate-700"}`}
+                />
+                {IMPLIES_HINT[kind] && (
+                  <input
+                    value={term.implies ?? ""}
+                    aria-label={IMPLIES_HINT[kind]}
+                    placeholder={IMPLIES_HINT[kind]}
+                    onChange={(event) =>
+                      update(index, { implies: event.target.value })
+                    }
+                    className={`${FIELD_CLASS} border-slate-700`}
+                  />
+                )}
+                <button
+                  onClick={() => remove(index)}
+                  aria-label={`Remove ${term.name || "term"}`}
+                  className="rounded-md px-2 py-1 text-sm text-slate-400 transition hover:text-red-300"
+                >
+                  ×
+                </button>
+              </div>
+              <input
+                value={term.aliases?.join(", ") ?? ""}
+                aria-label="Aliases"
+                placeholder="Aliases, comma-separated"
+                onChange={(event) =>
+                  update(index, {
+                    aliases: event.target.value
+                      .split(",")
+                      .map((alias) => alias.trimStart()),
+                  })
+                }
+                className={`${FIELD_CLASS} border-slate-800 text-slate-300`}
+              />
+              {nameError && <p className="text-xs text-red-300">{nameError}</p>}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="mt-4 flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => setDraft((prev) => [...prev, { kind, name: "" }])}
+          className="rounded-lg border border-slate-700 bg-slate-950/60 px-4 py-2 text-sm font-medium text-slate-200 transition hover:border-slate-500 hover:text-white"
+        >
+          Add Term
+        </button>
+        <button
+          onClick={save}
+          disabled={isSaving}
+          className="rounded-lg border border-emerald-400/60 bg-emerald-400/10 px-4 py-2 text-sm font-medium text-emerald-100 transition hover:border-emerald-300 disabled:cursor-not-allowed disabled:border-slate-700 disabled:text-slate-500"
+        >
+          {isSaving ? "Saving..." : "Save Dictionary"}
+        </button>
+        <button
+          onClick={() => {
+            setDraft(DEFAULT_ENTITY_DICTIONARY);
+            setFieldErrors([]);
+            setStatus("Bundled dictionary restored; save to keep it.");
+          }}
+          className="text-xs text-slate-400 transition hover:text-white"
+        >
+          Restore bundled
+        </button>
+      </div>
+      {status && <p className="mt-3 text-xs text-slate-400">{status}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_EVENT_RULES,
+  EVENT_TYPES,
+  EventRule,
+  EventType,
+} from "@/lib/events";
+import type { FieldError } from "@/lib/validation";
+
+type Draft = Record<EventType, string>;
+
+function toDraft(rules: EventRule[]): Draft {
+  return Object.fromEntries(
+    EVENT_TYPES.map((type) => [
+      type.id,
+      (rules.find((rule) => rule.type === type.id)?.patterns ?? []).join("\n"),
+    ]),
+  ) as Draft;
+}
+
+/** One rule per event type, in `EVENT_TYPES` order so error paths line up. */
+function fromDraft(draft: Draft): EventRule[] {
+  return EVENT_TYPES.map((type) => ({
+    type: type.id,
+    patterns: draft[type.id]
+      .split("\n")
+      .map((pattern) => pattern.trim())
+      .filter(Boolean),
+  }));
+}
+
+type EventRulesPanelProps = {
+  rules: EventRule[];
+  onSaved: (rules: EventRule[]) => void;
+};
+
+export default function EventRulesPanel({
+  rules,
+  onSaved,
+}: EventRulesPanelProps) {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(rules));
+  const [type, setType] = useState<EventType>("approval");
+  const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(toDraft(rules));
+  }, [rules]);
+
+  function errorsFor(eventType: EventType) {
+    const index = EVENT_TYPES.findIndex((entry) => entry.id === eventType);
+    return fieldErrors.filter((entry) =>
+      entry.field.startsWith(`rules.${index}.`),
+    );
+  }
+
+  async function save() {
+    setIsSaving(true);
+    setStatus(null);
+    try {
+      const response = await fetch("/api/event-rules", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rules: fromDraft(draft) }),
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        setFieldErrors(payload.fieldErrors ?? []);
+        setStatus(payload.error ?? "Unable to save the event rules.");
+        return;
+      }
+      setFieldErrors([]);
+      setStatus("Event rules saved.");
+      onSaved(payload.rules as EventRule[]);
+    } catch (error) {
+      console.error(error);
+      setStatus("Unable to save the event rules.");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  const errors = errorsFor(type);
+
+  return (
+    <div className="rounded-2xl border border-slate-900/70 bg-slate-900/70 p-6 shadow-lg shadow-slate-950/30 backdrop-blur">
+      <h2 className="text-xl font-semibold">Event Rules</h2>
+      <p className="mt-1 text-sm text-slate-400">
+        Phrases that classify an item&apos;s regulatory event, one per line.
+        Capitalised acronyms match exactly; wrap a pattern in slashes to use a
+        regular expression. Title matches count double.
+      </p>
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        {EVENT_TYPES.map((option) => (
+          <button
+            key={option.id}
+            onClick={() => setType(option.id)}
+            className={`rounded-full border px-3 py-1 text-xs font-medium transition ${
+              type === option.id
+                ? "border-emerald-400 bg-emerald-400/10 text-emerald-200"
+                : errorsFor(option.id).length > 0
+                  ? "border-red-500/70 text-red-200"
+                  : "border-slate-700 text-slate-300 hover:border-slate-500"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={draft[type]}
+        aria-label="Patterns"
+        rows={8}
+        onChange={(event) => {
+          const value = event.target.value;
+          setDraft((prev) => ({ ...prev, [type]: value }));
+          setStatus(null);
+        }}
+        className={`mt-4 w-full rounded-md border bg-slate-950/60 px-3 py-2 font-mono text-sm text-white focus:border-slate-500 focus:outline-none ${
+          errors.length > 0 ? "border-red-500/70" : "border-slate-700"
+        }`}
+      />
+      {errors.map((entry) => (
+        <p key={entry.field} className="text-xs text-red-300">
+          {entry.message}
+        </p>
+      ))}
+
+      <div className="mt-4 flex flex-wrap items-center gap-3">
+        <button
+          onClick={save}
+          disabled={isSaving}
+          className="rounded-lg border border-emerald-400/60 bg-emerald-400/10 px-4 py-2 text-sm font-medium text-emerald-100 transition hover:border-emerald-300 disabled:cursor-not-allowed disabled:border-slate-700 disabled:text-slate-500"
+        >
+          {isSaving ? "Saving..." : "Save Rules"}
+        </button>
+        <button
+          onClick={() => {
+            setDraft(toDraft(DEFAULT_EVENT_RULES));
+            setFieldErrors([]);
+            setStatus("Bundled rules restored; save to keep them.");
+          }}
+          className="text-xs text-slate-400 transition hover:text-white"
+        >
+          Restore bundled
+        </button>
+      </div>
+      {status && <p className="mt-3 text-xs text-slate-400">{status}</p>}
+    </div>
+  );
+}
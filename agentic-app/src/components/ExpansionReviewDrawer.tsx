@@ -0,0 +1,334 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import {
+  EXPANSION_KINDS,
+  ExpansionProposal,
+  applyReview,
+} from "@/lib/expansion";
+import type { WeightedKeywordRow } from "@/lib/scoring";
+
+type Decision = "accept" | "reject";
+
+type ExpanderOption = { id: string; label: string };
+
+type ReviewEntry = {
+  /** Position of the row in the taxonomy. */
+  index: number;
+  proposals: ExpansionProposal[];
+};
+
+type ExpansionReviewDrawerProps = {
+  rows: WeightedKeywordRow[];
+  onClose: () => void;
+  /** Receives the whole taxonomy with the review folded in. */
+  onApply: (rows: WeightedKeywordRow[], run: boolean) => void;
+};
+
+function kindLabel(kind: string) {
+  return EXPANSION_KINDS.find((entry) => entry.id === kind)?.label ?? kind;
+}
+
+function decisionKey(index: number, term: string) {
+  return `${index}:${term.toLowerCase()}`;
+}
+
+export default function ExpansionReviewDrawer({
+  rows,
+  onClose,
+  onApply,
+}: ExpansionReviewDrawerProps) {
+  const [expanders, setExpanders] = useState<ExpanderOption[]>([]);
+  const [expander, setExpander] = useState<string | null>(null);
+  const [entries, setEntries] = useState<ReviewEntry[]>([]);
+  const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+  const [removed, setRemoved] = useState<Set<string>>(new Set());
+  const [status, setStatus] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  // Proposals are fetched for the taxonomy as it was when the drawer opened.
+  const [openedRows] = useState(rows);
+
+  useEffect(() => {
+    fetch("/api/expansions")
+      .then((response) => {
+        if (!response.ok) throw new Error("Expander listing failed");
+        return response.json() as Promise<{ expanders: ExpanderOption[] }>;
+      })
+      .then((payload) => {
+        setExpanders(payload.expanders);
+        setExpander(payload.expanders[0]?.id ?? null);
+      })
+      .catch((error) => {
+        console.error(error);
+        setStatus("Unable to list query expanders.");
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!expander) return;
+    const controller = new AbortController();
+    const indices = openedRows
+      .map((row, index) => ({ row, index }))
+      .filter(({ row }) => row.keyword.trim());
+    setIsLoading(true);
+    setStatus(null);
+    fetch("/api/expansions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        keywords: indices.map(({ row }) => row),
+        expander,
+      }),
+      signal: controller.signal,
+    })
+      .then(async (response) => {
+        const payload = await response.json();
+        if (!response.ok) {
+          throw new Error(payload.error ?? "Unable to expand keywords.");
+        }
+        const proposals = payload.proposals as ExpansionProposal[][];
+        setEntries(
+          indices.map(({ index }, position) => ({
+            index,
+            proposals: proposals[position] ?? [],
+          })),
+        );
+        setDecisions({});
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error(error);
+        setStatus(
+          error instanceof Error ? error.message : "Unable to expand keywords.",
+        );
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [expander, openedRows]);
+
+  function decide(index: number, term: string, decision: Decision) {
+    const key = decisionKey(index, term);
+    setDecisions((prev) => {
+      const next = { ...prev };
+      if (next[key] === decision) {
+        delete next[key];
+      } else {
+        next[key] = decision;
+      }
+      return next;
+    });
+  }
+
+  function acceptAll() {
+    const next: Record<string, Decision> = {};
+    entries.forEach(({ index, proposals }) =>
+      proposals.forEach((proposal) => {
+        next[decisionKey(index, proposal.term)] = "accept";
+      }),
+    );
+    setDecisions(next);
+  }
+
+  function apply(run: boolean) {
+    const reviewed = rows.map((row, index) => {
+      const kept = {
+        ...row,
+        expansions: row.expansions?.filter(
+          (expansion) => !removed.has(decisionKey(index, expansion.term)),
+        ),
+      };
+      const entry = entries.find((candidate) => candidate.index === index);
+      if (!entry || !expander) return kept;
+      const decided = (decision: Decision) =>
+        entry.proposals.filter(
+          (proposal) =>
+            decisions[decisionKey(index, proposal.term)] === decision,
+        );
+      return applyReview(kept, expander, decided("accept"), decided("reject"));
+    });
+    onApply(reviewed, run);
+  }
+
+  const pending = entries.reduce(
+    (count, entry) => count + entry.proposals.length,
+    0,
+  );
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-slate-950/70">
+      <aside
+        role="dialog"
+        aria-label="Review query expansions"
+        className="flex h-full w-full max-w-xl flex-col border-l border-slate-800 bg-slate-900 shadow-2xl shadow-slate-950"
+      >
+        <header className="border-b border-slate-800 p-6">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h2 className="text-xl font-semibold">Review Query Expansions</h2>
+              <p className="mt-1 text-sm text-slate-400">
+                Accepted terms are searched and matched alongside each keyword.
+                Rejected terms are not proposed again.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              aria-label="Close"
+              className="rounded-md px-2 py-1 text-lg text-slate-400 transition hover:text-white"
+            >
+              ×
+            </button>
+          </div>
+          {expanders.length > 1 && (
+            <label className="mt-4 block text-xs uppercase tracking-wide text-slate-400">
+              Expander
+              <select
+                value={expander ?? ""}
+                onChange={(event) => setExpander(event.target.value)}
+                className="mt-1 w-full rounded-md border border-slate-700 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-slate-500 focus:outline-none"
+              >
+                {expanders.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </header>
+
+        <div className="flex-1 space-y-5 overflow-y-auto p-6">
+          {isLoading && (
+            <p className="text-sm text-slate-400">Expanding keywords...</p>
+          )}
+          {status && <p className="text-sm text-red-300">{status}</p>}
+          {!isLoading &&
+            entries.map(({ index, proposals }) => {
+              const row = rows[index];
+              const accepted = row.expansions ?? [];
+              if (proposals.length === 0 && accepted.length === 0) return null;
+              return (
+                <section key={index}>
+                  <h3 className="text-sm font-semibold text-emerald-200">
+                    {row.keyword}
+                  </h3>
+                  {accepted.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {accepted.map((expansion) => {
+                        const key = decisionKey(index, expansion.term);
+                        const isRemoved = removed.has(key);
+                        return (
+                          <button
+                            key={key}
+                            title={`${kindLabel(expansion.kind)} from ${expansion.expander}; click to ${isRemoved ? "keep" : "remove"}`}
+                            onClick={() =>
+                              setRemoved((prev) => {
+                                const next = new Set(prev);
+                                if (isRemoved) {
+                                  next.delete(key);
+                                } else {
+                                  next.add(key);
+                                }
+                                return next;
+                              })
+                            }
+                            className={`rounded-full border px-3 py-1 text-xs transition ${
+                              isRemoved
+                                ? "border-slate-800 text-slate-500 line-through"
+                                : "border-emerald-400/40 text-emerald-100 hover:border-red-400"
+                            }`}
+                          >
+                            {expansion.term}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                  <ul className="mt-2 space-y-2">
+                    {proposals.map((proposal) => {
+                      const decision =
+                        decisions[decisionKey(index, proposal.term)];
+                      return (
+                        <li
+                          key={proposal.term}
+                          className="flex items-center justify-between gap-3 rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2"
+                        >
+                          <div className="min-w-0">
+                            <p className="text-sm text-slate-100">
+                              {proposal.term}
+                              <span className="ml-2 rounded-full border border-slate-700 px-2 py-0.5 text-[10px] uppercase tracking-wide text-slate-400">
+                                {kindLabel(proposal.kind)}
+                              </span>
+                            </p>
+                            <p className="text-xs text-slate-500">
+                              {proposal.reason}
+                            </p>
+                          </div>
+                          <div className="flex shrink-0 gap-1">
+                            <button
+                              onClick={() =>
+                                decide(index, proposal.term, "accept")
+                              }
+                              className={`rounded-md border px-2 py-1 text-xs transition ${
+                                decision === "accept"
+                                  ? "border-emerald-400 bg-emerald-400/10 text-emerald-100"
+                                  : "border-slate-700 text-slate-300 hover:border-emerald-400"
+                              }`}
+                            >
+                              Accept
+                            </button>
+                            <button
+                              onClick={() =>
+                                decide(index, proposal.term, "reject")
+                              }
+                              className={`rounded-md border px-2 py-1 text-xs transition ${
+                                decision === "reject"
+                                  ? "border-red-400 bg-red-400/10 text-red-200"
+                                  : "border-slate-700 text-slate-300 hover:border-red-400"
+                              }`}
+                            >
+                              Reject
+                            </button>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </section>
+              );
+            })}
+          {!isLoading && !status && pending === 0 && (
+            <p className="text-sm text-slate-400">
+              No new expansions to review.
+            </p>
+          )}
+        </div>
+
+        <footer className="flex flex-wrap items-center gap-3 border-t border-slate-800 p-6">
+          <button
+            onClick={acceptAll}
+            disabled={pending === 0}
+            className="text-xs text-slate-400 transition hover:text-white disabled:cursor-not-allowed disabled:text-slate-600"
+          >
+            Accept all
+          </button>
+          <div className="ml-auto flex gap-3">
+            <button
+              onClick={() => apply(false)}
+              className="rounded-lg border border-slate-700 bg-slate-950/60 px-4 py-2 text-sm font-medium text-slate-200 transition hover:border-slate-500 hover:text-white"
+            >
+              Apply
+            </button>
+            <button
+              onClick={() => apply(true)}
+              className="rounded-lg border border-emerald-400/60 bg-emerald-400/10 px-4 py-2 text-sm font-medium text-emerald-100 transition hover:border-emerald-300"
+            >
+              Apply &amp; Run
+            </button>
+          </div>
+        </footer>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { ExtractionRules, validateRules } from "@/lib/extraction";
+
+const RULE_INPUTS: {
+  field: keyof ExtractionRules;
+  label: string;
+  placeholder: string;
+}[] = [
+  {
+    field: "container",
+    label: "Item container",
+    placeholder: "li.press-release",
+  },
+  { field: "title", label: "Title", placeholder: "h3" },
+  { field: "link", label: "Link (optional)", placeholder: "a.read-more" },
+  { field: "date", label: "Date (optional)", placeholder: "time, .date" },
+  { field: "summary", label: "Summary (optional)", placeholder: "p.teaser" },
+  {
+    field: "dateFormat",
+    label: "Date format (optional)",
+    placeholder: "MMMM d, yyyy",
+  },
+];
+
+const EMPTY_RULES: ExtractionRules = { container: "", title: "" };
+
+type ExtractionRulesEditorProps = {
+  rules: ExtractionRules | undefined;
+  /** Server-side validation messages, keyed by rule field. */
+  errorFor: (field: keyof ExtractionRules) => string | undefined;
+  onChange: (rules: ExtractionRules | undefined) => void;
+};
+
+export default function ExtractionRulesEditor({
+  rules,
+  errorFor,
+  onChange,
+}: ExtractionRulesEditorProps) {
+  const current = rules ?? EMPTY_RULES;
+  const touched = Object.values(current).some((value) => value?.trim());
+  const localErrors = touched ? validateRules(current) : {};
+
+  function update(field: keyof ExtractionRules, value: string) {
+    const next = { ...current, [field]: value };
+    onChange(
+      Object.values(next).some((text) => text?.trim()) ? next : undefined,
+    );
+  }
+
+  return (
+    <div className="grid gap-2 rounded-md border border-slate-800 p-3">
+      <p className="text-xs text-slate-400">
+        CSS selectors for each press release; fields are looked up inside the
+        container. The preview refreshes as you type.
+      </p>
+      {RULE_INPUTS.map(({ field, label, placeholder }) => {
+        const message = localErrors[field] ?? errorFor(field);
+        return (
+          <label
+            key={field}
+            className="text-xs uppercase tracking-wide text-slate-400"
+          >
+            {label}
+            <input
+              value={current[field] ?? ""}
+              onChange={(event) => update(field, event.target.value)}
+              placeholder={placeholder}
+              className={`mt-1 w-full rounded-md border bg-slate-950/60 px-3 py-1.5 font-mono text-sm normal-case text-white focus:border-slate-500 focus:outline-none ${message ? "border-red-500/70" : "border-slate-700"}`}
+            />
+            {message && (
+              <span className="mt-1 block normal-case tracking-normal text-red-300">
+                {message}
+              </span>
+            )}
+          </label>
+        );
+      })}
+      {rules && (
+        <button
+          onClick={() => onChange(undefined)}
+          className="self-end text-xs text-slate-400 hover:text-red-300"
+        >
+          Clear rules
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import {
+  IssueSummary,
+  MAX_ISSUE_SIZE,
+  MAX_NOTE_LENGTH,
+  NewsletterDraft,
+  moveItem,
+  updateEntry,
+} from "@/lib/curation";
+import { formatDate } from "@/lib/format";
+import { itemIdentity } from "@/lib/items";
+import {
+  DEFAULT_NEWSLETTER_TITLE,
+  NewsletterGrouping,
+  groupNewsletterItems,
+} from "@/lib/newsletter";
+import type { ScoredNewsItem } from "@/lib/scoring";
+
+type NewsletterCurationPanelProps = {
+  /** The draft issue in reading order. */
+  issue: ScoredNewsItem[];
+  groupBy: NewsletterGrouping;
+  draft: NewsletterDraft;
+  onChange: (draft: NewsletterDraft) => void;
+  issues: IssueSummary[];
+  openIssueId: string | null;
+  onOpenIssue: (id: string | null) => void;
+  onApprove: (title: string) => void;
+  isApproving: boolean;
+};
+
+/** A note is saved when the field loses focus, not on every keystroke. */
+function NoteField({
+  value,
+  onSave,
+}: {
+  value: string;
+  onSave: (note: string) => void;
+}) {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  return (
+    <textarea
+      value={draft}
+      rows={draft ? 2 : 1}
+      maxLength={MAX_NOTE_LENGTH}
+      placeholder="Editorial note"
+      aria-label="Editorial note"
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={() => draft !== value && onSave(draft)}
+      className="mt-2 w-full rounded-md border border-slate-800 bg-slate-950/60 px-2 py-1.5 text-xs text-slate-200 focus:border-slate-500 focus:outline-none"
+    />
+  );
+}
+
+export default function NewsletterCurationPanel({
+  issue,
+  groupBy,
+  draft,
+  onChange,
+  issues,
+  openIssueId,
+  onOpenIssue,
+  onApprove,
+  isApproving,
+}: NewsletterCurationPanelProps) {
+  const [title, setTitle] = useState(DEFAULT_NEWSLETTER_TITLE);
+  const [dragging, setDragging] = useState<string | null>(null);
+
+  const sections = groupNewsletterItems(issue, groupBy);
+  const excludedCount = Object.values(draft.entries).filter(
+    (entry) => entry.excluded,
+  ).length;
+
+  function clearExclusions() {
+    onChange(
+      Object.keys(draft.entries).reduce(
+        (next, identity) => updateEntry(next, identity, { excluded: false }),
+        draft,
+      ),
+    );
+  }
+
+  return (
+    <div className="rounded-2xl border border-slate-900/70 bg-slate-900/70 p-6 shadow-lg shadow-slate-950/30 backdrop-blur">
+      <h2 className="text-xl font-semibold">Newsletter Curation</h2>
+      <p className="mt-1 text-sm text-slate-400">
+        Pinned items always make the issue; the rest fill it from the filtered
+        feed. Drag items to reorder them within their section.
+      </p>
+
+      <div className="mt-4 flex flex-wrap items-center gap-3 text-xs text-slate-400">
+        <label className="flex items-center gap-2">
+          Issue size
+          <input
+            type="number"
+            min={1}
+            max={MAX_ISSUE_SIZE}
+            value={draft.size}
+            onChange={(event) =>
+              onChange({
+                ...draft,
+                size: Math.min(
+                  MAX_ISSUE_SIZE,
+                  Math.max(1, Math.round(Number(event.target.value)) || 1),
+                ),
+              })
+            }
+            className="w-16 rounded-md border border-slate-700 bg-slate-950/60 px-2 py-1 text-sm text-white focus:border-slate-500 focus:outline-none"
+          />
+        </label>
+        {excludedCount > 0 && (
+          <button
+            onClick={clearExclusions}
+            className="text-slate-400 transition hover:text-white"
+          >
+            {excludedCount} excluded · Restore all
+          </button>
+        )}
+      </div>
+
+      {issue.length === 0 ? (
+        <p className="mt-4 text-sm text-slate-500">
+          No items to curate. Run a cycle or loosen the feed filters.
+        </p>
+      ) : (
+        <div className="mt-4 max-h-[32rem] space-y-4 overflow-y-auto pr-1">
+          {sections.map((section) => (
+            <section key={section.heading}>
+              <h3 className="border-b border-emerald-400/40 pb-1 text-sm font-semibold text-white">
+                {section.heading}
+              </h3>
+              {section.groups.map((group) => {
+                const groupKey = `${section.heading}|${group.businessCategory}`;
+                const identities = group.items.map(itemIdentity);
+                return (
+                  <div key={groupKey} className="mt-2">
+                    <div className="text-xs uppercase tracking-wide text-slate-500">
+                      {group.businessCategory}
+                    </div>
+                    <ul className="mt-1 space-y-2">
+                      {group.items.map((item, index) => {
+                        const identity = identities[index];
+                        const entry = draft.entries[identity];
+                        const move = (target: string | undefined) =>
+                          target &&
+                          onChange(moveItem(draft, issue, identity, target));
+                        return (
+                          <li
+                            key={identity}
+                            draggable
+                            onDragStart={() => setDragging(identity)}
+                            onDragEnd={() => setDragging(null)}
+                            onDragOver={(event) => {
+                              // Items only move within their own section and business group.
+                              if (dragging && identities.includes(dragging)) {
+                                event.preventDefault();
+                              }
+                            }}
+                            onDrop={(event) => {
+                              event.preventDefault();
+                              if (dragging && dragging !== identity) {
+                                onChange(
+                                  moveItem(draft, issue, dragging, identity),
+                                );
+                              }
+                              setDragging(null);
+                            }}
+                            className={`cursor-grab rounded-lg border bg-slate-950/60 p-3 text-sm ${
+                              dragging === identity
+                                ? "border-emerald-400/60 opacity-60"
+                                : "border-slate-800"
+                            }`}
+                          >
+                            <div className="flex items-start justify-between gap-2">
+                              <span className="text-slate-200">
+                                {entry?.pinned && (
+                                  <span className="mr-2 rounded-full border border-sky-400/60 px-2 py-0.5 text-xs text-sky-200">
+                                    Pinned
+                                  </span>
+                                )}
+                                {item.title}
+                              </span>
+                              <div className="flex shrink-0 items-center gap-1 text-xs text-slate-400">
+                                <button
+                                  onClick={() => move(identities[index - 1])}
+                                  disabled={index === 0}
+                                  aria-label="Move up"
+                                  className="rounded px-1 hover:text-white disabled:text-slate-700"
+                                >
+                                  ↑
+                                </button>
+                                <button
+                                  onClick={() => move(identities[index + 1])}
+                                  disabled={index === identities.length - 1}
+                                  aria-label="Move down"
+                                  className="rounded px-1 hover:text-white disabled:text-slate-700"
+                                >
+                                  ↓
+                                </button>
+                                <button
+                                  onClick={() =>
+                                    onChange(
+                                      updateEntry(draft, identity, {
+                                        pinned: !entry?.pinned,
+                                      }),
+                                    )
+                                  }
+                                  className="rounded px-1 hover:text-sky-200"
+                                >
+                                  {entry?.pinned ? "Unpin" : "Pin"}
+                                </button>
+                                <button
+                                  onClick={() =>
+                                    onChange(
+                                      updateEntry(draft, identity, {
+                                        pinned: false,
+                                        excluded: true,
+                                      }),
+                                    )
+                                  }
+                                  className="rounded px-1 hover:text-red-300"
+                                >
+                                  Exclude
+                                </button>
+                              </div>
+                            </div>
+                            <NoteField
+                              value={entry?.note ?? ""}
+                              onSave={(note) =>
+                                onChange(updateEntry(draft, identity, { note }))
+                              }
+                            />
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                );
+              })}
+            </section>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center gap-3">
+        <input
+          value={title}
+          onChange={(event) => setTitle(event.target.value)}
+          placeholder="Issue title"
+          aria-label="Issue title"
+          className="min-w-0 flex-1 rounded-md border border-slate-700 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-slate-500 focus:outline-none"
+        />
+        <button
+          onClick={() => onApprove(title)}
+          disabled={isApproving || issue.length === 0 || !title.trim()}
+          className="rounded-lg border border-emerald-400/60 bg-emerald-400/10 px-4 py-2 text-sm font-medium text-emerald-100 transition hover:border-emerald-300 disabled:cursor-not-allowed disabled:border-slate-700 disabled:text-slate-500"
+        >
+          {isApproving ? "Approving..." : "Approve Issue"}
+        </button>
+      </div>
+
+      {issues.length > 0 && (
+        <div className="mt-6">
+          <div className="text-xs uppercase tracking-wide text-slate-400">
+            Approved issues
+          </div>
+          <ul className="mt-2 space-y-2 text-sm">
+            {issues.map((entry) => {
+              const isOpen = entry.id === openIssueId;
+              return (
+                <li
+                  key={entry.id}
+                  className={`flex items-center justify-between gap-3 rounded-lg border px-3 py-2 ${
+                    isOpen
+                      ? "border-emerald-400/60 bg-emerald-400/10"
+                      : "border-slate-800 bg-slate-950/60"
+                  }`}
+                >
+                  <div>
+                    <div className="text-slate-200">{entry.title}</div>
+                    <div className="text-xs text-slate-500">
+                      {formatDate(entry.approvedAt)} · {entry.itemCount} items
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => onOpenIssue(isOpen ? null : entry.id)}
+                    className="text-xs text-slate-300 transition hover:text-white"
+                  >
+                    {isOpen ? "Back to draft" : "Open"}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import type { RelatedCoverage } from "@/lib/clustering";
+import { formatDate } from "@/lib/format";
+
+type RelatedCoverageListProps = {
+  related: RelatedCoverage[];
+};
+
+export default function RelatedCoverageList({
+  related,
+}: RelatedCoverageListProps) {
+  if (related.length === 0) return null;
+  return (
+    <details className="mt-3 text-xs">
+      <summary className="cursor-pointer text-sky-300 hover:text-sky-200">
+        +{related.length} related coverage
+      </summary>
+      <ul className="mt-2 space-y-2 rounded-lg border border-slate-800 bg-slate-950/70 p-3">
+        {related.map((entry) => (
+          <li key={entry.id}>
+            <span className="uppercase tracking-wide text-slate-500">
+              {entry.source}
+            </span>
+            <span className="ml-2 text-slate-500">
+              {formatDate(entry.publishedAt)}
+            </span>
+            <a
+              href={entry.url}
+              target="_blank"
+              rel="noreferrer"
+              className="block text-slate-200 hover:text-white"
+            >
+              {entry.title}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,186 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import type { RunSummary } from "@/lib/runs";
+import type { WorkspaceSchedule } from "@/lib/workspaces";
+import type { ResultComparison } from "@/lib/compare";
+import { nextCronOccurrence, validateCron } from "@/lib/cron";
+import { formatDate } from "@/lib/format";
+
+type RunHistoryPanelProps = {
+  runs: RunSummary[];
+  openRunId: string | null;
+  comparison: { runId: string; result: ResultComparison } | null;
+  schedule: WorkspaceSchedule | undefined;
+  canSchedule: boolean;
+  onOpen: (id: string) => void;
+  onCompare: (id: string | null) => void;
+  onExport: (id: string) => void;
+  onSaveSchedule: (cron: string, enabled: boolean) => void;
+};
+
+const DEFAULT_CRON = "0 7 * * 1-5";
+
+function formatDuration(ms: number) {
+  if (ms < 1000) return `${ms} ms`;
+  return `${(ms / 1000).toFixed(1)} s`;
+}
+
+export default function RunHistoryPanel({
+  runs,
+  openRunId,
+  comparison,
+  schedule,
+  canSchedule,
+  onOpen,
+  onCompare,
+  onExport,
+  onSaveSchedule,
+}: RunHistoryPanelProps) {
+  const [cronDraft, setCronDraft] = useState(schedule?.cron ?? DEFAULT_CRON);
+  const [enabledDraft, setEnabledDraft] = useState(schedule?.enabled ?? false);
+
+  useEffect(() => {
+    setCronDraft(schedule?.cron ?? DEFAULT_CRON);
+    setEnabledDraft(schedule?.enabled ?? false);
+  }, [schedule?.cron, schedule?.enabled]);
+
+  const cronError = validateCron(cronDraft);
+  const nextRun =
+    !cronError && enabledDraft ? nextCronOccurrence(cronDraft) : null;
+
+  return (
+    <div className="rounded-2xl border border-slate-900/70 bg-slate-900/70 p-6 shadow-lg shadow-slate-950/30 backdrop-blur">
+      <h2 className="text-xl font-semibold">Run History</h2>
+      <p className="mt-1 text-sm text-slate-400">
+        Open, compare or re-export any recorded monitoring cycle.
+      </p>
+
+      <div className="mt-4 rounded-lg border border-slate-800 bg-slate-950/60 p-4">
+        <div className="text-xs uppercase tracking-wide text-slate-400">
+          Schedule
+        </div>
+        {canSchedule ? (
+          <>
+            <div className="mt-2 flex flex-wrap items-center gap-3">
+              <input
+                value={cronDraft}
+                onChange={(event) => setCronDraft(event.target.value)}
+                placeholder="m h dom mon dow"
+                className="w-40 rounded-md border border-slate-700 bg-slate-950/60 px-3 py-1.5 font-mono text-sm text-white focus:border-slate-500 focus:outline-none"
+              />
+              <label className="flex items-center gap-2 text-sm text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={enabledDraft}
+                  onChange={(event) => setEnabledDraft(event.target.checked)}
+                  className="h-4 w-4 rounded border border-slate-600 bg-slate-950 text-emerald-400 focus:ring-emerald-300"
+                />
+                Enabled
+              </label>
+              <button
+                onClick={() => onSaveSchedule(cronDraft, enabledDraft)}
+                disabled={Boolean(cronError)}
+                className="rounded-md border border-slate-700 px-3 py-1.5 text-sm text-slate-200 transition hover:border-slate-500 hover:text-white disabled:cursor-not-allowed disabled:text-slate-500"
+              >
+                Save schedule
+              </button>
+            </div>
+            <p className="mt-2 text-xs text-slate-400">
+              {cronError
+                ? cronError
+                : nextRun
+                  ? `Next run: ${formatDate(nextRun.toISOString())}`
+                  : "Scheduling disabled."}
+              {schedule?.lastTriggeredAt &&
+                ` · Last triggered ${formatDate(schedule.lastTriggeredAt)}`}
+            </p>
+          </>
+        ) : (
+          <p className="mt-2 text-sm text-slate-400">
+            Save this session as a workspace to schedule recurring cycles.
+          </p>
+        )}
+      </div>
+
+      {comparison && (
+        <div className="mt-4 rounded-lg border border-sky-500/40 bg-sky-500/10 px-4 py-3 text-sm text-sky-100">
+          Compared with run from{" "}
+          {formatDate(
+            runs.find((run) => run.id === comparison.runId)?.finishedAt ?? "",
+          )}
+          : {comparison.result.added.length} new,{" "}
+          {comparison.result.removed.length} dropped,{" "}
+          {comparison.result.unchanged} unchanged.
+          <button
+            onClick={() => onCompare(null)}
+            className="ml-3 text-xs uppercase tracking-wide text-sky-200 hover:text-white"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+
+      <div className="mt-4 space-y-2">
+        {runs.length === 0 && (
+          <p className="text-sm text-slate-400">No recorded cycles yet.</p>
+        )}
+        {runs.map((run) => (
+          <div
+            key={run.id}
+            className={`rounded-lg border px-4 py-3 text-sm ${
+              run.id === openRunId
+                ? "border-emerald-400/60 bg-emerald-400/5"
+                : "border-slate-800 bg-slate-950/60"
+            }`}
+          >
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="text-slate-200">
+                {formatDate(run.finishedAt)}
+                <span className="ml-2 rounded-full border border-slate-700 px-2 py-0.5 text-xs uppercase tracking-wide text-slate-400">
+                  {run.trigger}
+                </span>
+              </div>
+              <div
+                className={`text-xs ${
+                  run.status === "failed" ? "text-red-300" : "text-slate-400"
+                }`}
+              >
+                {run.status === "failed"
+                  ? "Failed"
+                  : `${run.resultCount} items`}{" "}
+                · {formatDuration(run.durationMs)}
+              </div>
+            </div>
+            {run.error && (
+              <p className="mt-1 text-xs text-red-300">{run.error}</p>
+            )}
+            <div className="mt-2 flex gap-2 text-xs">
+              <button
+                onClick={() => onOpen(run.id)}
+                disabled={run.id === openRunId}
+                className="rounded-md border border-slate-700 px-2 py-1 text-slate-200 transition hover:border-slate-500 disabled:cursor-not-allowed disabled:text-slate-500"
+              >
+                Open
+              </button>
+              <button
+                onClick={() => onCompare(run.id)}
+                disabled={run.id === openRunId || openRunId === null}
+                className="rounded-md border border-slate-700 px-2 py-1 text-slate-200 transition hover:border-slate-500 disabled:cursor-not-allowed disabled:text-slate-500"
+              >
+                Compare
+              </button>
+              <button
+                onClick={() => onExport(run.id)}
+                disabled={run.status === "failed"}
+                className="rounded-md border border-slate-700 px-2 py-1 text-slate-200 transition hover:border-slate-500 disabled:cursor-not-allowed disabled:text-slate-500"
+              >
+                Export XLSX
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import type { ScoreBreakdown, ScoreExplanation } from "@/lib/scoring";
+
+type ScoreBreakdownPanelProps = {
+  breakdown: ScoreBreakdown;
+};
+
+function FactorList({
+  title,
+  explanation,
+}: {
+  title: string;
+  explanation: ScoreExplanation;
+}) {
+  return (
+    <div>
+      <div className="flex items-center justify-between text-slate-400">
+        <span className="uppercase tracking-wide">{title}</span>
+        <span className="font-semibold text-white">{explanation.total}</span>
+      </div>
+      <ul className="mt-1 space-y-1">
+        {explanation.factors.map((factor) => (
+          <li key={factor.key} className="flex justify-between gap-3">
+            <span className="text-slate-300">
+              {factor.label}
+              <span className="ml-1 text-slate-500">· {factor.detail}</span>
+            </span>
+            <span
+              className={
+                factor.points < 0 ? "text-red-300" : "text-emerald-300"
+              }
+            >
+              {factor.points > 0 ? "+" : ""}
+              {factor.points}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function ScoreBreakdownPanel({
+  breakdown,
+}: ScoreBreakdownPanelProps) {
+  return (
+    <details className="mt-3 text-xs">
+      <summary className="cursor-pointer text-slate-400 hover:text-slate-200">
+        Why these scores?
+      </summary>
+      <div className="mt-2 grid gap-4 rounded-lg border border-slate-800 bg-slate-950/70 p-3 sm:grid-cols-2">
+        <FactorList title="Authentic" explanation={breakdown.authentic} />
+        <FactorList title="Impact" explanation={breakdown.marketImpact} />
+      </div>
+    </details>
+  );
+}
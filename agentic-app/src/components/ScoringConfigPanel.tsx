@@ -0,0 +1,203 @@
+'use client';
+
+import {
+  DEFAULT_SCORING_CONFIG,
+  MAX_CATEGORY_MULTIPLIER,
+  REPUTATION_TIERS,
+  ReputationTier,
+  ScoringConfig,
+  SourceReputation,
+} from "@/lib/scoring";
+
+type ScoringConfigPanelProps = {
+  config: ScoringConfig;
+  /** SOP categories in the taxonomy, offered for multipliers. */
+  categories: string[];
+  /** Server-side validation messages, keyed by path under `scoring`. */
+  errorFor: (field: string) => string | undefined;
+  onChange: (config: ScoringConfig) => void;
+};
+
+const FIELD_CLASS =
+  "rounded-md border bg-slate-950/60 px-2 py-1.5 text-sm text-white focus:border-slate-500 focus:outline-none";
+
+function TierSelect({
+  value,
+  onChange,
+  label,
+}: {
+  value: ReputationTier;
+  onChange: (tier: ReputationTier) => void;
+  label: string;
+}) {
+  return (
+    <select
+      value={value}
+      aria-label={label}
+      onChange={(event) => onChange(event.target.value as ReputationTier)}
+      className={`${FIELD_CLASS} border-slate-700`}
+    >
+      {REPUTATION_TIERS.map((tier) => (
+        <option key={tier.id} value={tier.id}>
+          {tier.id === "blocked"
+            ? tier.label
+            : `${tier.label} (+${tier.points})`}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export default function ScoringConfigPanel({
+  config,
+  categories,
+  errorFor,
+  onChange,
+}: ScoringConfigPanelProps) {
+  const multiplierCategories = Array.from(
+    new Set([...categories, ...Object.keys(config.categoryMultipliers)]),
+  ).sort();
+
+  function updateSource(index: number, patch: Partial<SourceReputation>) {
+    onChange({
+      ...config,
+      sources: config.sources.map((source, position) =>
+        position === index ? { ...source, ...patch } : source,
+      ),
+    });
+  }
+
+  function removeSource(index: number) {
+    onChange({
+      ...config,
+      sources: config.sources.filter((_, position) => position !== index),
+    });
+  }
+
+  function updateMultiplier(category: string, value: string) {
+    const next = { ...config.categoryMultipliers };
+    if (value.trim() === "") {
+      delete next[category];
+    } else {
+      next[category] = Number(value);
+    }
+    onChange({ ...config, categoryMultipliers: next });
+  }
+
+  return (
+    <div className="rounded-2xl border border-slate-900/70 bg-slate-900/70 p-6 shadow-lg shadow-slate-950/30 backdrop-blur">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold">Scoring</h2>
+          <p className="mt-1 text-sm text-slate-400">
+            Edits re-score the current results immediately. Save the workspace
+            to use them on later runs.
+          </p>
+        </div>
+        <button
+          onClick={() => onChange(DEFAULT_SCORING_CONFIG)}
+          className="shrink-0 rounded-md border border-slate-700 px-3 py-1 text-xs text-slate-300 transition hover:border-slate-500 hover:text-white"
+        >
+          Reset
+        </button>
+      </div>
+
+      <h3 className="mt-5 text-xs uppercase tracking-wide text-slate-400">
+        Source reputation
+      </h3>
+      <label className="mt-2 flex items-center justify-between gap-3 text-sm text-slate-300">
+        Watchlist company sites
+        <TierSelect
+          value={config.ownSiteTier}
+          label="Watchlist company sites"
+          onChange={(tier) => onChange({ ...config, ownSiteTier: tier })}
+        />
+      </label>
+      <ul className="mt-3 max-h-72 space-y-2 overflow-y-auto pr-1">
+        {config.sources.map((source, index) => {
+          const message =
+            errorFor(`sources.${index}.domain`) ??
+            errorFor(`sources.${index}.tier`);
+          return (
+            <li key={index}>
+              <div className="flex items-center gap-2">
+                <input
+                  value={source.domain}
+                  placeholder="example.com"
+                  aria-label="Domain"
+                  onChange={(event) =>
+                    updateSource(index, { domain: event.target.value })
+                  }
+                  className={`${FIELD_CLASS} min-w-0 flex-1 ${message ? "border-red-500/70" : "border-slate-700"}`}
+                />
+                <TierSelect
+                  value={source.tier}
+                  label={`Tier for ${source.domain || "domain"}`}
+                  onChange={(tier) => updateSource(index, { tier })}
+                />
+                <button
+                  onClick={() => removeSource(index)}
+                  aria-label={`Remove ${source.domain || "domain"}`}
+                  className="rounded-md px-2 py-1 text-sm text-slate-400 transition hover:text-red-300"
+                >
+                  ×
+                </button>
+              </div>
+              {message && (
+                <p className="mt-1 text-xs text-red-300">{message}</p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      <button
+        onClick={() =>
+          onChange({
+            ...config,
+            sources: [...config.sources, { domain: "", tier: "standard" }],
+          })
+        }
+        className="mt-3 w-full rounded-lg border border-slate-700 bg-slate-950/60 px-4 py-2 text-sm font-medium text-slate-200 transition hover:border-slate-500 hover:text-white"
+      >
+        Add Domain
+      </button>
+
+      <h3 className="mt-6 text-xs uppercase tracking-wide text-slate-400">
+        Impact multiplier by SOP category
+      </h3>
+      {multiplierCategories.length === 0 ? (
+        <p className="mt-2 text-sm text-slate-500">
+          Add SOP categories to the taxonomy to weight them.
+        </p>
+      ) : (
+        <ul className="mt-2 space-y-2">
+          {multiplierCategories.map((category) => {
+            const message = errorFor(`categoryMultipliers.${category}`);
+            return (
+              <li key={category}>
+                <label className="flex items-center justify-between gap-3 text-sm text-slate-300">
+                  {category}
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_CATEGORY_MULTIPLIER}
+                    step={0.1}
+                    placeholder="1"
+                    value={config.categoryMultipliers[category] ?? ""}
+                    onChange={(event) =>
+                      updateMultiplier(category, event.target.value)
+                    }
+                    className={`${FIELD_CLASS} w-24 ${message ? "border-red-500/70" : "border-slate-700"}`}
+                  />
+                </label>
+                {message && (
+                  <p className="mt-1 text-xs text-red-300">{message}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
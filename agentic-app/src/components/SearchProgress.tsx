@@ -0,0 +1,131 @@
+'use client';
+
+import type { PipelineEvent, SourceError, SourceTask } from "@/lib/pipeline";
+import { adapterLabel } from "@/lib/sources/catalog";
+
+export type TaskState = "pending" | "running" | "done" | "failed";
+
+export type SearchProgressState = {
+  tasks: SourceTask[];
+  states: Record<string, TaskState>;
+  itemCounts: Record<string, number>;
+  errors: SourceError[];
+  completed: number;
+  /** Article pages read for summaries, once the sources are done. */
+  articles?: { completed: number; total: number };
+};
+
+export const EMPTY_PROGRESS: SearchProgressState = {
+  tasks: [],
+  states: {},
+  itemCounts: {},
+  errors: [],
+  completed: 0,
+};
+
+export function reduceProgress(
+  state: SearchProgressState,
+  event: PipelineEvent,
+): SearchProgressState {
+  switch (event.type) {
+    case "start":
+      return {
+        ...EMPTY_PROGRESS,
+        tasks: event.tasks,
+        states: Object.fromEntries(
+          event.tasks.map((task) => [task.id, "pending" as TaskState]),
+        ),
+      };
+    case "task-start":
+      return {
+        ...state,
+        states: { ...state.states, [event.task.id]: "running" },
+      };
+    case "task-complete":
+      return {
+        ...state,
+        completed: event.completed,
+        states: { ...state.states, [event.task.id]: "done" },
+        itemCounts: { ...state.itemCounts, [event.task.id]: event.itemCount },
+      };
+    case "task-error":
+      return {
+        ...state,
+        completed: event.completed,
+        states: { ...state.states, [event.task.id]: "failed" },
+        errors: [...state.errors, { task: event.task, message: event.message }],
+      };
+    case "articles":
+      return {
+        ...state,
+        articles: { completed: event.completed, total: event.total },
+      };
+    default:
+      return state;
+  }
+}
+
+const STATE_STYLES: Record<TaskState, string> = {
+  pending: "border-slate-800 text-slate-500",
+  running: "border-emerald-400/60 text-emerald-200",
+  done: "border-slate-700 text-slate-300",
+  failed: "border-red-500/50 text-red-300",
+};
+
+type SearchProgressProps = {
+  progress: SearchProgressState;
+};
+
+export default function SearchProgress({ progress }: SearchProgressProps) {
+  const total = progress.tasks.length;
+  const percent =
+    total === 0 ? 0 : Math.round((progress.completed / total) * 100);
+
+  return (
+    <div className="mt-6 space-y-3">
+      <div className="flex items-center justify-between text-xs text-slate-400">
+        <span>
+          {progress.completed} of {total} sources scanned
+        </span>
+        <span>{percent}%</span>
+      </div>
+      <div className="h-1.5 overflow-hidden rounded-full bg-slate-800">
+        <div
+          className="h-full bg-emerald-400 transition-all"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <div className="flex flex-wrap gap-2 text-xs">
+        {progress.tasks.map((task) => {
+          const state = progress.states[task.id] ?? "pending";
+          return (
+            <span
+              key={task.id}
+              className={`rounded-full border px-3 py-1 ${STATE_STYLES[state]}`}
+              title={adapterLabel(task.adapterId)}
+            >
+              {task.label}
+              {state === "done" && ` · ${progress.itemCounts[task.id] ?? 0}`}
+              {state === "running" && " …"}
+            </span>
+          );
+        })}
+      </div>
+      {progress.articles && progress.articles.total > 0 && (
+        <div className="text-xs text-slate-400">
+          {progress.articles.completed} of {progress.articles.total} articles
+          read for summaries
+        </div>
+      )}
+      {progress.errors.length > 0 && (
+        <ul className="space-y-1 text-xs text-red-300">
+          {progress.errors.map((entry) => (
+            <li key={entry.task.id}>
+              {entry.task.label}: {entry.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import type { SourceDiagnostic, SourceHealth } from "@/lib/pipeline";
+import { adapterLabel } from "@/lib/sources/catalog";
+
+const HEALTH_STYLES: Record<SourceHealth, string> = {
+  ok: "text-emerald-300",
+  error: "text-red-300",
+  skipped: "text-slate-500",
+};
+
+type SourceHealthPanelProps = {
+  diagnostics: SourceDiagnostic[];
+};
+
+function describeHealth(diagnostic: SourceDiagnostic) {
+  if (diagnostic.health === "ok") return "OK";
+  if (diagnostic.health === "skipped") return "Skipped";
+  return diagnostic.httpStatus ? `HTTP ${diagnostic.httpStatus}` : "Error";
+}
+
+export default function SourceHealthPanel({
+  diagnostics,
+}: SourceHealthPanelProps) {
+  const failing = diagnostics.filter((entry) => entry.health === "error");
+
+  return (
+    <details
+      open={failing.length > 0}
+      className="rounded-2xl border border-slate-900/70 bg-slate-900/70 p-6 shadow-lg shadow-slate-950/30 backdrop-blur"
+    >
+      <summary className="cursor-pointer list-none">
+        <div className="flex items-center justify-between gap-3">
+          <h2 className="text-xl font-semibold">Source health</h2>
+          <span
+            className={`text-xs ${failing.length > 0 ? "text-red-300" : "text-slate-400"}`}
+          >
+            {diagnostics.length === 0
+              ? "No cycle yet"
+              : `${diagnostics.length - failing.length}/${diagnostics.length} healthy`}
+          </span>
+        </div>
+        <p className="mt-1 text-sm text-slate-400">
+          Per-source fetch, dedup and latency figures for the open cycle.
+        </p>
+      </summary>
+
+      {diagnostics.length > 0 && (
+        <div className="mt-4 overflow-x-auto rounded-xl border border-slate-800">
+          <table className="min-w-full divide-y divide-slate-800 text-xs">
+            <thead className="bg-slate-900/70 text-slate-400">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">Source</th>
+                <th className="px-3 py-2 text-right font-medium">Fetched</th>
+                <th className="px-3 py-2 text-right font-medium">Kept</th>
+                <th className="px-3 py-2 text-right font-medium">Dupes</th>
+                <th className="px-3 py-2 text-right font-medium">Latency</th>
+                <th className="px-3 py-2 text-left font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800 text-slate-200">
+              {diagnostics.map((diagnostic) => (
+                <tr key={diagnostic.task.id}>
+                  <td className="px-3 py-2">
+                    <div
+                      className="max-w-[12rem] truncate"
+                      title={diagnostic.task.url}
+                    >
+                      {diagnostic.task.label}
+                    </div>
+                    <div className="text-[10px] uppercase tracking-wide text-slate-500">
+                      {adapterLabel(diagnostic.task.adapterId)}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-right">{diagnostic.fetched}</td>
+                  <td className="px-3 py-2 text-right">{diagnostic.kept}</td>
+                  <td className="px-3 py-2 text-right">
+                    {diagnostic.deduplicated}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {(diagnostic.latencyMs / 1000).toFixed(1)} s
+                  </td>
+                  <td
+                    className={`px-3 py-2 ${HEALTH_STYLES[diagnostic.health]}`}
+                    title={diagnostic.error}
+                  >
+                    {describeHealth(diagnostic)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,283 @@
+'use client';
+
+import { useMemo, useState } from "react";
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportSheet,
+  guessMapping,
+  mergeKeywordRows,
+  prepareImport,
+  unmappedHeaders,
+} from "@/lib/taxonomy-import";
+import type { WeightedKeywordRow } from "@/lib/scoring";
+import type { Taxonomy } from "@/lib/taxonomy";
+
+type ImportMode = "merge" | "replace";
+
+type TaxonomyImportDialogProps = {
+  fileName: string;
+  sheets: ImportSheet[];
+  currentRows: WeightedKeywordRow[];
+  /** Categories imported rows are checked against. */
+  taxonomy: Taxonomy;
+  onClose: () => void;
+  onImport: (rows: WeightedKeywordRow[]) => void;
+};
+
+const VISIBLE_ISSUES = 50;
+
+export default function TaxonomyImportDialog({
+  fileName,
+  sheets,
+  currentRows,
+  taxonomy,
+  onClose,
+  onImport,
+}: TaxonomyImportDialogProps) {
+  const [mappings, setMappings] = useState<ColumnMapping[]>(() =>
+    sheets.map((sheet) => guessMapping(sheet.headers)),
+  );
+  const [included, setIncluded] = useState<boolean[]>(() =>
+    mappings.map((mapping) => Boolean(mapping.keyword)),
+  );
+  const [expanded, setExpanded] = useState<boolean[]>(() =>
+    sheets.map(
+      (sheet, index) =>
+        !mappings[index].keyword ||
+        unmappedHeaders(sheet.headers, mappings[index]).length > 0,
+    ),
+  );
+  const [mode, setMode] = useState<ImportMode>(
+    currentRows.some((row) => row.keyword.trim()) ? "merge" : "replace",
+  );
+
+  const preview = useMemo(
+    () =>
+      prepareImport(
+        sheets.flatMap((sheet, index) =>
+          included[index] && mappings[index].keyword
+            ? [{ sheet, mapping: mappings[index] }]
+            : [],
+        ),
+        taxonomy,
+      ),
+    [sheets, mappings, included, taxonomy],
+  );
+
+  const outcome = useMemo(() => {
+    const current = currentRows.filter((row) => row.keyword.trim());
+    return mode === "merge"
+      ? mergeKeywordRows(current, preview.rows)
+      : { rows: preview.rows, added: preview.rows.length, updated: 0 };
+  }, [mode, currentRows, preview.rows]);
+
+  const errorCount = preview.issues.filter(
+    (issue) => issue.severity === "error",
+  ).length;
+
+  function mapColumn(sheetIndex: number, field: ImportField, header: string) {
+    setMappings((prev) =>
+      prev.map((mapping, index) => {
+        if (index !== sheetIndex) return mapping;
+        const next = { ...mapping };
+        if (header) {
+          next[field] = header;
+        } else {
+          delete next[field];
+        }
+        return next;
+      }),
+    );
+    if (field === "keyword" && header) {
+      setIncluded((prev) =>
+        prev.map((value, index) => (index === sheetIndex ? true : value)),
+      );
+    }
+  }
+
+  function toggle(setter: typeof setIncluded, sheetIndex: number) {
+    setter((prev) =>
+      prev.map((value, index) => (index === sheetIndex ? !value : value)),
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-950/70 p-6">
+      <div
+        role="dialog"
+        aria-label="Import taxonomy"
+        className="flex max-h-full w-full max-w-3xl flex-col rounded-2xl border border-slate-800 bg-slate-900 shadow-2xl shadow-slate-950"
+      >
+        <header className="flex items-start justify-between gap-4 border-b border-slate-800 p-6">
+          <div>
+            <h2 className="text-xl font-semibold">Import Taxonomy</h2>
+            <p className="mt-1 text-sm text-slate-400">
+              {fileName} · {sheets.length}{" "}
+              {sheets.length === 1 ? "sheet" : "sheets"}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="rounded-md px-2 py-1 text-lg text-slate-400 transition hover:text-white"
+          >
+            ×
+          </button>
+        </header>
+
+        <div className="flex-1 space-y-6 overflow-y-auto p-6">
+          <section className="space-y-3">
+            {sheets.map((sheet, sheetIndex) => {
+              const mapping = mappings[sheetIndex];
+              const unmapped = unmappedHeaders(sheet.headers, mapping);
+              return (
+                <div
+                  key={sheet.name}
+                  className="rounded-xl border border-slate-800 bg-slate-950/60 p-4"
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <label className="flex items-center gap-2 text-sm text-slate-100">
+                      <input
+                        type="checkbox"
+                        checked={included[sheetIndex]}
+                        disabled={!mapping.keyword}
+                        onChange={() => toggle(setIncluded, sheetIndex)}
+                        className="h-4 w-4 rounded border-slate-700 bg-slate-900 text-emerald-400 focus:ring-emerald-400"
+                      />
+                      {sheet.name}
+                      <span className="text-xs text-slate-500">
+                        {sheet.rows.length} rows
+                      </span>
+                    </label>
+                    <button
+                      onClick={() => toggle(setExpanded, sheetIndex)}
+                      className="text-xs text-slate-400 transition hover:text-white"
+                    >
+                      {expanded[sheetIndex] ? "Hide columns" : "Map columns"}
+                    </button>
+                  </div>
+                  {!mapping.keyword && (
+                    <p className="mt-2 text-xs text-amber-200">
+                      No keyword column recognised; choose one to import this
+                      sheet.
+                    </p>
+                  )}
+                  {mapping.keyword && unmapped.length > 0 && (
+                    <p className="mt-2 text-xs text-slate-500">
+                      Not imported: {unmapped.join(", ")}
+                    </p>
+                  )}
+                  {expanded[sheetIndex] && (
+                    <div className="mt-3 grid gap-3 sm:grid-cols-3">
+                      {IMPORT_FIELDS.map((field) => (
+                        <label
+                          key={field.id}
+                          className="text-xs uppercase tracking-wide text-slate-400"
+                        >
+                          {field.label}
+                          <select
+                            value={mapping[field.id] ?? ""}
+                            onChange={(event) =>
+                              mapColumn(
+                                sheetIndex,
+                                field.id,
+                                event.target.value,
+                              )
+                            }
+                            className="mt-1 w-full rounded-md border border-slate-700 bg-slate-950/60 px-2 py-1.5 text-sm normal-case tracking-normal text-white focus:border-slate-500 focus:outline-none"
+                          >
+                            <option value="">— not imported —</option>
+                            {sheet.headers
+                              .filter((header) => header.trim())
+                              .map((header) => (
+                                <option key={header} value={header}>
+                                  {header}
+                                </option>
+                              ))}
+                          </select>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-emerald-200">
+              Validation Report
+            </h3>
+            <p className="mt-1 text-sm text-slate-400">
+              {preview.rows.length} rows ready
+              {errorCount > 0 && `, ${errorCount} skipped`}
+              {preview.issues.length > errorCount &&
+                `, ${preview.issues.length - errorCount} flagged`}
+              .
+            </p>
+            {preview.issues.length > 0 && (
+              <ul className="mt-3 max-h-56 space-y-1 overflow-y-auto rounded-lg border border-slate-800 bg-slate-950/60 p-3 text-xs">
+                {preview.issues.slice(0, VISIBLE_ISSUES).map((issue, index) => (
+                  <li
+                    key={`${issue.sheet}-${issue.line}-${index}`}
+                    className={
+                      issue.severity === "error"
+                        ? "text-red-300"
+                        : "text-amber-200"
+                    }
+                  >
+                    <span className="text-slate-500">
+                      {issue.sheet} row {issue.line}:
+                    </span>{" "}
+                    {issue.severity === "error" ? "Skipped. " : ""}
+                    {issue.message}
+                  </li>
+                ))}
+                {preview.issues.length > VISIBLE_ISSUES && (
+                  <li className="text-slate-500">
+                    and {preview.issues.length - VISIBLE_ISSUES} more
+                  </li>
+                )}
+              </ul>
+            )}
+          </section>
+        </div>
+
+        <footer className="flex flex-wrap items-center gap-4 border-t border-slate-800 p-6">
+          {(["merge", "replace"] as const).map((option) => (
+            <label
+              key={option}
+              className="flex items-center gap-2 text-sm text-slate-300"
+            >
+              <input
+                type="radio"
+                name="import-mode"
+                checked={mode === option}
+                onChange={() => setMode(option)}
+                className="h-4 w-4 border-slate-700 bg-slate-900 text-emerald-400 focus:ring-emerald-400"
+              />
+              {option === "merge"
+                ? "Merge with current taxonomy"
+                : "Replace current taxonomy"}
+            </label>
+          ))}
+          <div className="ml-auto flex items-center gap-3">
+            <span className="text-xs text-slate-500">
+              {outcome.added} new
+              {mode === "merge" && `, ${outcome.updated} updated`}
+            </span>
+            <button
+              onClick={() => onImport(outcome.rows)}
+              disabled={preview.rows.length === 0}
+              className="rounded-lg border border-emerald-400/60 bg-emerald-400/10 px-4 py-2 text-sm font-medium text-emerald-100 transition hover:border-emerald-300 disabled:cursor-not-allowed disabled:border-slate-800 disabled:bg-transparent disabled:text-slate-500"
+            >
+              Import {preview.rows.length} rows
+            </button>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,432 @@
+'use client';
+
+import { useState } from "react";
+import { downloadTaxonomyWorkbook } from "@/lib/export";
+import { readSpreadsheet, readTaxonomySheets } from "@/lib/taxonomy-import";
+import {
+  CategoryChange,
+  CategoryField,
+  Taxonomy,
+  TaxonomyEntry,
+  addCategory,
+  canonicalCategory,
+  categoryChangeProblem,
+  categoryOptions,
+  flattenTaxonomy,
+  isWithinCategory,
+  joinPath,
+  mergeTaxonomies,
+  removeCategory,
+  splitPath,
+  taxonomyFromRows,
+  unmanagedCategories,
+} from "@/lib/taxonomy";
+import type { WeightedKeywordRow } from "@/lib/scoring";
+
+type Editing = {
+  mode: "add" | "rename" | "merge";
+  path: string;
+  draft: string;
+};
+
+type TaxonomyPanelProps = {
+  taxonomy: Taxonomy;
+  rows: WeightedKeywordRow[];
+  onChange: (taxonomy: Taxonomy) => void;
+  /** Renames or merges a category everywhere it is used. */
+  onCategoryChange: (change: CategoryChange) => Promise<void>;
+};
+
+const FIELDS: { id: CategoryField; label: string }[] = [
+  { id: "sopCategory", label: "SOP categories" },
+  { id: "businessCategory", label: "Business categories" },
+];
+
+const SMALL_INPUT_CLASS =
+  "w-full rounded-md border border-slate-700 bg-slate-950/60 px-2 py-1 text-sm text-white focus:border-slate-500 focus:outline-none";
+
+export default function TaxonomyPanel({
+  taxonomy,
+  rows,
+  onChange,
+  onCategoryChange,
+}: TaxonomyPanelProps) {
+  const [field, setField] = useState<CategoryField>("sopCategory");
+  const [newName, setNewName] = useState("");
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const entries: TaxonomyEntry[] =
+    field === "sopCategory"
+      ? flattenTaxonomy(taxonomy.sopCategories)
+      : taxonomy.businessCategories.map((name) => ({
+          path: name,
+          name,
+          depth: 0,
+        }));
+  const unmanaged = unmanagedCategories(taxonomy, rows, field);
+
+  function usage(path: string) {
+    return rows.filter((row) =>
+      field === "sopCategory"
+        ? isWithinCategory(row.sopCategory ?? "", path)
+        : row.businessCategory === path,
+    ).length;
+  }
+
+  function mergeTargets(path: string) {
+    return categoryOptions(taxonomy, field).filter((option) =>
+      field === "sopCategory"
+        ? !isWithinCategory(option, path)
+        : option !== path,
+    );
+  }
+
+  function add(value: string) {
+    const name = value.trim();
+    if (!name) return;
+    onChange(addCategory(taxonomy, field, name));
+    setNewName("");
+    setStatus(null);
+  }
+
+  function remove(path: string) {
+    const count = usage(path);
+    onChange(removeCategory(taxonomy, field, path));
+    setStatus(
+      count > 0
+        ? `${count} keyword ${count === 1 ? "row keeps" : "rows keep"} "${path}" as an unmanaged category.`
+        : null,
+    );
+  }
+
+  async function apply(change: CategoryChange) {
+    const problem = categoryChangeProblem(change);
+    if (problem) {
+      setStatus(problem);
+      return;
+    }
+    setIsApplying(true);
+    setStatus(null);
+    try {
+      await onCategoryChange(change);
+      setEditing(null);
+    } finally {
+      setIsApplying(false);
+    }
+  }
+
+  function submit(entry: Editing) {
+    if (entry.mode === "add") {
+      add(joinPath([...splitPath(entry.path), entry.draft]));
+      setEditing(null);
+      return;
+    }
+    const to =
+      entry.mode === "merge" || field === "businessCategory"
+        ? entry.draft
+        : joinPath([...splitPath(entry.path).slice(0, -1), entry.draft]);
+    void apply({ field, from: entry.path, to });
+  }
+
+  async function importWorkbook(list: FileList | null) {
+    const file = list?.[0];
+    if (!file) return;
+    try {
+      const imported = readTaxonomySheets(await readSpreadsheet(file));
+      const merged = mergeTaxonomies(taxonomy, imported);
+      const added = (["sopCategory", "businessCategory"] as const).reduce(
+        (count, kind) =>
+          count +
+          categoryOptions(merged, kind).length -
+          categoryOptions(taxonomy, kind).length,
+        0,
+      );
+      onChange(merged);
+      setStatus(
+        added > 0
+          ? `Added ${added} categories from ${file.name}.`
+          : `${file.name} holds no new categories.`,
+      );
+    } catch (error) {
+      console.error(error);
+      setStatus("Unable to read the taxonomy workbook.");
+    }
+  }
+
+  function renderEditor(entry: Editing) {
+    return (
+      <form
+        onSubmit={(event) => {
+          event.preventDefault();
+          submit(entry);
+        }}
+        className="mt-2 flex gap-2"
+      >
+        {entry.mode === "merge" ? (
+          <select
+            value={entry.draft}
+            aria-label="Merge into"
+            onChange={(event) =>
+              setEditing({ ...entry, draft: event.target.value })
+            }
+            className={SMALL_INPUT_CLASS}
+          >
+            <option value="">Merge into…</option>
+            {mergeTargets(entry.path).map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <input
+            autoFocus
+            value={entry.draft}
+            aria-label={entry.mode === "add" ? "Sub-category name" : "New name"}
+            placeholder={entry.mode === "add" ? "Sub-category" : "New name"}
+            onChange={(event) =>
+              setEditing({ ...entry, draft: event.target.value })
+            }
+            className={SMALL_INPUT_CLASS}
+          />
+        )}
+        <button
+          type="submit"
+          disabled={isApplying || !entry.draft.trim()}
+          className="rounded-md border border-emerald-400/60 px-2 py-1 text-xs text-emerald-100 transition hover:border-emerald-300 disabled:cursor-not-allowed disabled:border-slate-700 disabled:text-slate-500"
+        >
+          {entry.mode === "add"
+            ? "Add"
+            : entry.mode === "merge"
+              ? "Merge"
+              : "Rename"}
+        </button>
+        <button
+          type="button"
+          onClick={() => setEditing(null)}
+          className="text-xs text-slate-400 transition hover:text-white"
+        >
+          Cancel
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="rounded-2xl border border-slate-900/70 bg-slate-900/70 p-6 shadow-lg shadow-slate-950/30 backdrop-blur">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold">Managed Taxonomy</h2>
+          <p className="mt-1 text-sm text-slate-400">
+            The categories keyword rows and items may use. Renames and merges
+            carry over to keywords, stored items and run history.
+          </p>
+        </div>
+        <div className="flex shrink-0 gap-2">
+          <label className="cursor-pointer rounded-md border border-slate-700 px-2 py-1 text-xs text-slate-300 transition hover:border-slate-500 hover:text-white">
+            Import XLSX
+            <input
+              type="file"
+              accept=".xlsx,.csv"
+              className="hidden"
+              onChange={(event) => {
+                importWorkbook(event.target.files);
+                event.target.value = "";
+              }}
+            />
+          </label>
+          <button
+            onClick={() => downloadTaxonomyWorkbook(taxonomy)}
+            className="rounded-md border border-slate-700 px-2 py-1 text-xs text-slate-300 transition hover:border-slate-500 hover:text-white"
+          >
+            Export XLSX
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        {FIELDS.map((option) => (
+          <button
+            key={option.id}
+            onClick={() => {
+              setField(option.id);
+              setEditing(null);
+              setStatus(null);
+            }}
+            className={`rounded-full border px-3 py-1 text-xs font-medium transition ${
+              field === option.id
+                ? "border-emerald-400 bg-emerald-400/10 text-emerald-200"
+                : "border-slate-700 text-slate-300 hover:border-slate-500"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <ul className="mt-4 space-y-1">
+        {entries.map((entry) => {
+          const isEditing = editing?.path === entry.path;
+          return (
+            <li
+              key={entry.path}
+              style={{ paddingLeft: `${entry.depth * 1.25}rem` }}
+            >
+              <div className="group flex items-center justify-between gap-2 rounded-md px-2 py-1 hover:bg-slate-950/60">
+                <span className="text-sm text-slate-100">
+                  {entry.name}
+                  <span className="ml-2 text-xs text-slate-500">
+                    {usage(entry.path)}
+                  </span>
+                </span>
+                <span className="flex gap-2 text-xs text-slate-500 opacity-0 transition group-hover:opacity-100">
+                  {field === "sopCategory" && (
+                    <button
+                      onClick={() =>
+                        setEditing({ mode: "add", path: entry.path, draft: "" })
+                      }
+                      className="hover:text-white"
+                    >
+                      Sub-category
+                    </button>
+                  )}
+                  <button
+                    onClick={() =>
+                      setEditing({
+                        mode: "rename",
+                        path: entry.path,
+                        draft: entry.name,
+                      })
+                    }
+                    className="hover:text-white"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    onClick={() =>
+                      setEditing({ mode: "merge", path: entry.path, draft: "" })
+                    }
+                    className="hover:text-white"
+                  >
+                    Merge
+                  </button>
+                  <button
+                    onClick={() => remove(entry.path)}
+                    className="hover:text-red-300"
+                  >
+                    Remove
+                  </button>
+                </span>
+              </div>
+              {isEditing && editing && renderEditor(editing)}
+            </li>
+          );
+        })}
+        {entries.length === 0 && (
+          <li className="text-sm text-slate-500">No categories yet.</li>
+        )}
+      </ul>
+
+      <form
+        onSubmit={(event) => {
+          event.preventDefault();
+          add(newName);
+        }}
+        className="mt-3 flex gap-2"
+      >
+        <input
+          value={newName}
+          onChange={(event) => setNewName(event.target.value)}
+          placeholder={
+            field === "sopCategory"
+              ? "New category, or Parent > Child"
+              : "New business category"
+          }
+          className={SMALL_INPUT_CLASS}
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim()}
+          className="rounded-md border border-slate-700 px-3 py-1 text-xs text-slate-200 transition hover:border-slate-500 hover:text-white disabled:cursor-not-allowed disabled:text-slate-500"
+        >
+          Add
+        </button>
+      </form>
+
+      {unmanaged.length > 0 && (
+        <div className="mt-5 rounded-xl border border-dashed border-amber-400/40 p-3">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs uppercase tracking-wide text-amber-200">
+              In use, not managed
+            </p>
+            <button
+              onClick={() => onChange(taxonomyFromRows(taxonomy, rows))}
+              className="text-xs text-slate-400 transition hover:text-white"
+            >
+              Adopt all
+            </button>
+          </div>
+          <ul className="mt-2 space-y-2">
+            {unmanaged.map((value) => {
+              const managed = canonicalCategory(taxonomy, field, value);
+              return (
+                <li
+                  key={value}
+                  className="flex items-center justify-between gap-2 text-sm"
+                >
+                  <span className="text-slate-200">&quot;{value}&quot;</span>
+                  <span className="flex shrink-0 gap-2 text-xs">
+                    {managed ? (
+                      <button
+                        disabled={isApplying}
+                        onClick={() =>
+                          apply({ field, from: value, to: managed })
+                        }
+                        className="text-emerald-200 transition hover:text-emerald-100"
+                      >
+                        Use &quot;{managed}&quot;
+                      </button>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => add(value)}
+                          className="text-slate-300 transition hover:text-white"
+                        >
+                          Add
+                        </button>
+                        <select
+                          value=""
+                          aria-label={`Merge "${value}" into`}
+                          disabled={isApplying}
+                          onChange={(event) =>
+                            event.target.value &&
+                            apply({
+                              field,
+                              from: value,
+                              to: event.target.value,
+                            })
+                          }
+                          className="rounded-md border border-slate-700 bg-slate-950/60 px-1 py-0.5 text-xs text-slate-300"
+                        >
+                          <option value="">Merge into…</option>
+                          {categoryOptions(taxonomy, field).map((option) => (
+                            <option key={option} value={option}>
+                              {option}
+                            </option>
+                          ))}
+                        </select>
+                      </>
+                    )}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+      {status && <p className="mt-3 text-xs text-slate-400">{status}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  TARGET_TYPES,
+  TARGET_TYPE_LABELS,
+  TargetType,
+  WatchTarget,
+  detectTargetType,
+  resolveTargetType,
+} from "@/lib/targets";
+import type { CompanyEntry } from "@/lib/companies";
+import type { TargetPreview } from "@/lib/sources/preview";
+import { formatDate } from "@/lib/format";
+import { ExtractionRules, hasRules, validateRules } from "@/lib/extraction";
+import ExtractionRulesEditor from "@/components/ExtractionRulesEditor";
+
+const INPUT_CLASS =
+  "w-full rounded-md border border-slate-700 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-slate-500 focus:outline-none";
+
+type PreviewState =
+  | { status: "idle" }
+  | { status: "loading" }
+  | { status: "ready"; preview: TargetPreview }
+  | { status: "error"; message: string };
+
+type WatchlistTargetProps = {
+  target: WatchTarget;
+  /** Registry companies the feed can be linked to. */
+  companies: CompanyEntry[];
+  /** Validation message for a field path relative to the target, e.g. `rules.title`. */
+  errorFor: (field: string) => string | undefined;
+  onChange: (patch: Partial<WatchTarget>) => void;
+  onRemove: () => void;
+};
+
+const LIVE_PREVIEW_DELAY_MS = 600;
+
+export default function WatchlistTarget({
+  target,
+  companies,
+  errorFor,
+  onChange,
+  onRemove,
+}: WatchlistTargetProps) {
+  const [preview, setPreview] = useState<PreviewState>({ status: "idle" });
+  const [showRules, setShowRules] = useState(Boolean(target.rules));
+  const requestRef = useRef(0);
+  const resolvedType = resolveTargetType(target);
+  const urlError = errorFor("url");
+
+  useEffect(() => {
+    setPreview({ status: "idle" });
+  }, [target.url, target.type]);
+
+  const testTarget = useCallback(async () => {
+    const request = (requestRef.current += 1);
+    setPreview({ status: "loading" });
+    try {
+      const response = await fetch("/api/targets/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ target }),
+      });
+      const payload = await response.json();
+      // A newer edit has already started another preview.
+      if (request !== requestRef.current) return;
+      if (!response.ok) {
+        setPreview({
+          status: "error",
+          message: payload.fieldErrors?.[0]?.message ?? payload.error,
+        });
+        return;
+      }
+      setPreview({ status: "ready", preview: payload as TargetPreview });
+    } catch (error) {
+      console.error(error);
+      if (request !== requestRef.current) return;
+      setPreview({ status: "error", message: "Unable to reach the target." });
+    }
+  }, [target]);
+
+  // Live preview while editing rules, once they are complete and valid.
+  useEffect(() => {
+    if (
+      !showRules ||
+      resolvedType !== "html" ||
+      !target.url.trim() ||
+      !hasRules(target.rules) ||
+      Object.keys(validateRules(target.rules)).length > 0
+    ) {
+      return;
+    }
+    const timer = setTimeout(testTarget, LIVE_PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [showRules, resolvedType, target, testTarget]);
+
+  return (
+    <div className="rounded-lg border border-slate-800 bg-slate-950/60 p-4">
+      <div className="grid gap-3">
+        <input
+          value={target.label}
+          onChange={(event) => onChange({ label: event.target.value })}
+          placeholder="Label (e.g., Amgen IR feed)"
+          className={INPUT_CLASS}
+        />
+        <input
+          value={target.url}
+          onChange={(event) => onChange({ url: event.target.value })}
+          placeholder="https://"
+          className={`${INPUT_CLASS} ${urlError ? "border-red-500/70" : ""}`}
+        />
+        {urlError && <p className="text-xs text-red-300">{urlError}</p>}
+        <select
+          value={target.companyId ?? ""}
+          aria-label="Company"
+          onChange={(event) =>
+            onChange({ companyId: event.target.value || undefined })
+          }
+          className="rounded-md border border-slate-700 bg-slate-950/60 px-3 py-1.5 text-sm text-white focus:border-slate-500 focus:outline-none"
+        >
+          <option value="">Not linked to a company</option>
+          {companies.map((company) => (
+            <option key={company.id} value={company.id}>
+              {company.name}
+            </option>
+          ))}
+          {target.companyId &&
+            !companies.some((company) => company.id === target.companyId) && (
+              <option value={target.companyId}>
+                {target.companyId} (not in registry)
+              </option>
+            )}
+        </select>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={target.type ?? "auto"}
+            onChange={(event) =>
+              onChange({
+                type:
+                  event.target.value === "auto"
+                    ? undefined
+                    : (event.target.value as TargetType),
+              })
+            }
+            className="flex-1 rounded-md border border-slate-700 bg-slate-950/60 px-3 py-1.5 text-sm text-white focus:border-slate-500 focus:outline-none"
+          >
+            <option value="auto">
+              Auto-detect ({TARGET_TYPE_LABELS[detectTargetType(target.url)]})
+            </option>
+            {TARGET_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {TARGET_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={testTarget}
+            disabled={!target.url.trim() || preview.status === "loading"}
+            className="rounded-md border border-slate-700 px-3 py-1.5 text-sm text-slate-200 transition hover:border-emerald-400 hover:text-emerald-200 disabled:cursor-not-allowed disabled:text-slate-500"
+          >
+            {preview.status === "loading" ? "Testing..." : "Test target"}
+          </button>
+          {resolvedType === "html" && (
+            <button
+              onClick={() => setShowRules((prev) => !prev)}
+              className={`rounded-md border px-3 py-1.5 text-sm transition ${target.rules ? "border-emerald-400/60 text-emerald-200" : "border-slate-700 text-slate-300"} hover:border-slate-500`}
+            >
+              Rules
+            </button>
+          )}
+          <button
+            onClick={onRemove}
+            className="rounded-md border border-transparent px-3 py-1.5 text-sm text-slate-300 transition hover:border-red-500 hover:text-red-300"
+          >
+            Remove
+          </button>
+        </div>
+
+        {showRules && resolvedType === "html" && (
+          <ExtractionRulesEditor
+            rules={target.rules}
+            errorFor={(field: keyof ExtractionRules) =>
+              errorFor(`rules.${field}`)
+            }
+            onChange={(rules) => onChange({ rules })}
+          />
+        )}
+
+        {preview.status === "error" && (
+          <p className="rounded-md border border-red-500/40 bg-red-500/10 px-3 py-2 text-xs text-red-200">
+            {preview.message}
+          </p>
+        )}
+        {preview.status === "ready" && (
+          <div className="rounded-md border border-slate-800 p-3 text-xs">
+            <div className="flex flex-wrap items-center justify-between gap-2 text-slate-400">
+              <span>
+                {TARGET_TYPE_LABELS[preview.preview.detectedType]} ·{" "}
+                {preview.preview.containerCount !== undefined &&
+                  `${preview.preview.containerCount} containers matched · `}
+                {preview.preview.items.length} latest items
+              </span>
+              {preview.preview.detectedType !== resolvedType && (
+                <button
+                  onClick={() =>
+                    onChange({ type: preview.preview.detectedType })
+                  }
+                  className="text-emerald-300 hover:text-emerald-200"
+                >
+                  Use {TARGET_TYPE_LABELS[preview.preview.detectedType]}
+                </button>
+              )}
+            </div>
+            {preview.preview.items.length === 0 ? (
+              <p className="mt-2 text-slate-500">No items found.</p>
+            ) : (
+              <ul className="mt-2 space-y-2">
+                {preview.preview.items.map((item) => (
+                  <li key={item.url}>
+                    <a
+                      href={item.url}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-slate-200 hover:text-emerald-200"
+                    >
+                      {item.title}
+                    </a>
+                    <div className="text-slate-500">
+                      {item.publishedAt
+                        ? formatDate(item.publishedAt)
+                        : "Undated"}
+                    </div>
+                    {item.summary && (
+                      <p className="line-clamp-2 text-slate-400">
+                        {item.summary}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
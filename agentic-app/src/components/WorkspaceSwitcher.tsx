@@ -0,0 +1,117 @@
+'use client';
+
+import { useState } from "react";
+import type { WorkspaceSummary } from "@/lib/workspaces";
+import { formatDate } from "@/lib/format";
+
+type WorkspaceSwitcherProps = {
+  workspaces: WorkspaceSummary[];
+  activeId: string | null;
+  isBusy: boolean;
+  onSelect: (id: string | null) => void;
+  onCreate: (name: string) => void;
+  onSave: () => void;
+  onDelete: () => void;
+};
+
+export default function WorkspaceSwitcher({
+  workspaces,
+  activeId,
+  isBusy,
+  onSelect,
+  onCreate,
+  onSave,
+  onDelete,
+}: WorkspaceSwitcherProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [draftName, setDraftName] = useState("");
+  const active = workspaces.find((workspace) => workspace.id === activeId);
+
+  function submitDraft() {
+    if (draftName.trim().length === 0) return;
+    onCreate(draftName.trim());
+    setDraftName("");
+    setIsCreating(false);
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 rounded-xl border border-slate-800 bg-slate-950/60 px-4 py-3 text-sm">
+      <label className="flex items-center gap-2 text-xs uppercase tracking-wide text-slate-400">
+        Workspace
+        <select
+          value={activeId ?? ""}
+          onChange={(event) => onSelect(event.target.value || null)}
+          disabled={isBusy}
+          className="rounded-md border border-slate-700 bg-slate-950/60 px-3 py-1.5 text-sm normal-case tracking-normal text-white focus:border-slate-500 focus:outline-none"
+        >
+          <option value="">Unsaved session</option>
+          {workspaces.map((workspace) => (
+            <option key={workspace.id} value={workspace.id}>
+              {workspace.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {isCreating ? (
+        <div className="flex items-center gap-2">
+          <input
+            value={draftName}
+            onChange={(event) => setDraftName(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") submitDraft();
+              if (event.key === "Escape") setIsCreating(false);
+            }}
+            placeholder="e.g., Immunology TA"
+            autoFocus
+            className="rounded-md border border-slate-700 bg-slate-950/60 px-3 py-1.5 text-sm text-white focus:border-slate-500 focus:outline-none"
+          />
+          <button
+            onClick={submitDraft}
+            disabled={isBusy || draftName.trim().length === 0}
+            className="rounded-md border border-emerald-400/60 px-3 py-1.5 text-emerald-100 transition hover:border-emerald-300 disabled:cursor-not-allowed disabled:border-slate-700 disabled:text-slate-500"
+          >
+            Create
+          </button>
+          <button
+            onClick={() => setIsCreating(false)}
+            className="rounded-md border border-transparent px-3 py-1.5 text-slate-300 transition hover:border-slate-600"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => setIsCreating(true)}
+          disabled={isBusy}
+          className="rounded-md border border-slate-700 px-3 py-1.5 text-slate-200 transition hover:border-slate-500 hover:text-white disabled:cursor-not-allowed disabled:text-slate-500"
+        >
+          Save as new
+        </button>
+      )}
+
+      {active && (
+        <>
+          <button
+            onClick={onSave}
+            disabled={isBusy}
+            className="rounded-md border border-emerald-400/60 bg-emerald-400/10 px-3 py-1.5 text-emerald-100 transition hover:border-emerald-300 disabled:cursor-not-allowed disabled:border-slate-700 disabled:text-slate-500"
+          >
+            {isBusy ? "Saving..." : "Save"}
+          </button>
+          <button
+            onClick={onDelete}
+            disabled={isBusy}
+            className="rounded-md border border-transparent px-3 py-1.5 text-slate-300 transition hover:border-red-500 hover:text-red-300 disabled:cursor-not-allowed"
+          >
+            Delete
+          </button>
+          <span className="text-xs text-slate-400">
+            {active.keywordCount} keywords · {active.targetCount} targets · Last
+            modified {formatDate(active.updatedAt)}
+          </span>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { createHash } from "node:crypto";
+import {
+  ArticleSettings,
+  extractArticleText,
+  needsArticleSummary,
+  summarizeArticle,
+} from "@/lib/articles";
+import { canonicalizeUrl } from "@/lib/items";
+import type { ScoredNewsItem } from "@/lib/scoring";
+import { fetchText } from "@/lib/sources/shared";
+import { readJson, writeJson } from "@/lib/store";
+
+export type StoredArticle = {
+  url: string;
+  fetchedAt: string;
+  paragraphs: string[];
+  /** Why the page could not be read; failed fetches are retried later. */
+  error?: string;
+};
+
+/** How long a failed fetch is remembered before the page is tried again. */
+const RETRY_AFTER_MS = 24 * 60 * 60 * 1000;
+
+const ARTICLE_CONCURRENCY = 4;
+
+/** Top-ranked items whose article is read per run; the rest keep their own summary. */
+const MAX_ARTICLE_ITEMS = 20;
+
+/** Article reading stops after this long so the run finishes within its route's limit. */
+const ARTICLE_BUDGET_MS = 20_000;
+
+export type ArticleProgress = (completed: number, total: number) => void;
+
+function storeName(url: string) {
+  const key = createHash("sha1").update(canonicalizeUrl(url)).digest("hex");
+  return `articles/${key}`;
+}
+
+export function readArticle(url: string) {
+  return readJson<StoredArticle | null>(storeName(url), null);
+}
+
+/**
+ * The article's main text, fetched and stored on first use. Pages that
+ * failed recently are not fetched again until the retry window passes.
+ */
+export async function loadArticle(url: string, signal?: AbortSignal) {
+  const stored = await readArticle(url);
+  if (
+    stored &&
+    (!stored.error ||
+      Date.now() - Date.parse(stored.fetchedAt) < RETRY_AFTER_MS)
+  ) {
+    return stored;
+  }
+  let article: StoredArticle;
+  try {
+    const html = await fetchText(url, signal);
+    article = {
+      url,
+      fetchedAt: new Date().toISOString(),
+      paragraphs: extractArticleText(html),
+    };
+  } catch (error) {
+    // A cancelled run says nothing about the page.
+    if (signal?.aborted) return null;
+    article = {
+      url,
+      fetchedAt: new Date().toISOString(),
+      paragraphs: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+  await writeJson(storeName(url), article);
+  return article;
+}
+
+/**
+ * Replaces missing or snippet summaries with an extractive summary of the
+ * article, favouring sentences that name the item's keywords and companies.
+ * Items keep their own summary when the page cannot be read, and when the
+ * run's article budget is spent before their turn.
+ */
+export async function summarizeFromArticles<T extends ScoredNewsItem>(
+  items: T[],
+  settings: ArticleSettings,
+  options: { signal?: AbortSignal; onProgress?: ArticleProgress } = {},
+) {
+  const results = [...items];
+  const pending = items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => needsArticleSummary(item.summary))
+    .slice(0, MAX_ARTICLE_ITEMS);
+  const deadline = AbortSignal.timeout(ARTICLE_BUDGET_MS);
+  const signal = options.signal
+    ? AbortSignal.any([options.signal, deadline])
+    : deadline;
+  let cursor = 0;
+  let completed = 0;
+  options.onProgress?.(0, pending.length);
+
+  async function worker() {
+    while (cursor < pending.length && !signal.aborted) {
+      const { item, index } = pending[cursor];
+      cursor += 1;
+      try {
+        const article = await loadArticle(item.url, signal);
+        if (!article || article.paragraphs.length === 0) continue;
+        const summary = summarizeArticle(article.paragraphs, {
+          sentences: settings.sentences,
+          title: item.title,
+          terms: [...item.keywordMatches, ...item.companyMatches],
+        });
+        if (summary.length > item.summary.trim().length) {
+          results[index] = { ...item, summary, summarySource: "article" };
+        }
+      } catch (error) {
+        console.error(`Failed to summarize ${item.url}`, error);
+      } finally {
+        completed += 1;
+        options.onProgress?.(completed, pending.length);
+      }
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(ARTICLE_CONCURRENCY, pending.length) }, () =>
+      worker(),
+    ),
+  );
+  return results;
+}
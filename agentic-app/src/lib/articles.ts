@@ -0,0 +1,243 @@
+import {
+  HtmlElement,
+  isElement,
+  parseHtml,
+  selectAll,
+  textContent,
+  walkElements,
+} from "@/lib/html";
+
+/** Where an item's summary came from: the source's own text or the fetched article. */
+export type SummarySource = "feed" | "article";
+
+export const SUMMARY_SOURCE_LABELS: Record<SummarySource, string> = {
+  feed: "From source",
+  article: "From article",
+};
+
+export function summarySource(item: { summarySource?: SummarySource }) {
+  return item.summarySource ?? "feed";
+}
+
+export type ArticleSettings = {
+  /** Fetch articles for items whose summary is missing or only a snippet. */
+  enabled: boolean;
+  /** Sentences in an extracted summary. */
+  sentences: number;
+};
+
+export const DEFAULT_ARTICLE_SETTINGS: ArticleSettings = {
+  enabled: false,
+  sentences: 3,
+};
+
+export const MIN_SUMMARY_SENTENCES = 1;
+export const MAX_SUMMARY_SENTENCES = 8;
+
+/** Summaries shorter than this are treated as snippets worth replacing. */
+export const SNIPPET_LENGTH = 200;
+
+/** Containers publishers commonly wrap the story in, most specific first. */
+const ARTICLE_SELECTORS = [
+  "[itemprop=articleBody]",
+  "article",
+  "main",
+  "[role=main]",
+];
+
+const BOILERPLATE_TAGS = new Set([
+  "nav",
+  "header",
+  "footer",
+  "aside",
+  "form",
+  "button",
+  "figure",
+  "figcaption",
+  "iframe",
+  "svg",
+  "select",
+]);
+
+const BOILERPLATE_HINT =
+  /(^|[\s_-])(nav|menu|breadcrumbs?|footer|header|sidebar|cookies?|consent|share|sharing|social|subscribe|newsletter|signup|related|recommended|comments?|promo|advert|ads?|banner|popup|modal|byline|tags?)($|[\s_-])/i;
+
+const PARAGRAPH_TAGS = new Set(["p", "li", "blockquote"]);
+
+const MIN_PARAGRAPH_LENGTH = 40;
+const MAX_LINK_DENSITY = 0.5;
+
+function isBoilerplate(element: HtmlElement) {
+  return (
+    BOILERPLATE_TAGS.has(element.tag) ||
+    element.attrs["aria-hidden"] === "true" ||
+    BOILERPLATE_HINT.test(
+      `${element.attrs.class ?? ""} ${element.attrs.id ?? ""}`,
+    )
+  );
+}
+
+function linkTextLength(element: HtmlElement) {
+  let length = 0;
+  walkElements(element, (child) => {
+    if (child.tag !== "a") return;
+    length += textContent(child).length;
+    return false;
+  });
+  return length;
+}
+
+/** Paragraph-like blocks under `scope`, skipping boilerplate subtrees. */
+function collectParagraphs(scope: HtmlElement) {
+  const paragraphs: string[] = [];
+  walkElements(scope, (element) => {
+    if (isBoilerplate(element)) return false;
+    if (!PARAGRAPH_TAGS.has(element.tag)) return;
+    const text = textContent(element);
+    if (
+      text.length >= MIN_PARAGRAPH_LENGTH &&
+      linkTextLength(element) / text.length <= MAX_LINK_DENSITY
+    ) {
+      paragraphs.push(text);
+    }
+    return false;
+  });
+  return paragraphs;
+}
+
+function paragraphsOf(scope: HtmlElement) {
+  return Array.from(new Set(collectParagraphs(scope)));
+}
+
+function weight(paragraphs: string[]) {
+  return paragraphs.reduce((sum, text) => sum + text.length, 0);
+}
+
+/**
+ * The element holding most paragraph text of its own, for pages that mark
+ * up no article container.
+ */
+function densestElement(root: HtmlElement) {
+  let best: { element: HtmlElement; weight: number } = {
+    element: root,
+    weight: 0,
+  };
+  const visit = (element: HtmlElement) => {
+    if (isBoilerplate(element)) return false;
+    const own = element.children
+      .filter(isElement)
+      .filter((child) => child.tag === "p")
+      .map(textContent)
+      .filter((text) => text.length >= MIN_PARAGRAPH_LENGTH);
+    if (weight(own) > best.weight) {
+      best = { element, weight: weight(own) };
+    }
+  };
+  if (visit(root) !== false) walkElements(root, visit);
+  return best.element;
+}
+
+/**
+ * Reads the main text of an article page as paragraphs. Navigation,
+ * headers, footers, sharing and related-content blocks, and link-heavy
+ * paragraphs are left out.
+ */
+export function extractArticleText(html: string): string[] {
+  const root = parseHtml(html);
+  const body = selectAll(root, "body")[0] ?? root;
+  for (const selector of ARTICLE_SELECTORS) {
+    const candidates = selectAll(body, selector)
+      .map(paragraphsOf)
+      .sort((a, b) => weight(b) - weight(a));
+    if (candidates[0] && weight(candidates[0]) >= MIN_PARAGRAPH_LENGTH * 3) {
+      return candidates[0];
+    }
+  }
+  const densest = densestElement(body);
+  return densest === body ? paragraphsOf(body) : paragraphsOf(densest);
+}
+
+// Abbreviations that end in a full stop without ending the sentence.
+const ABBREVIATIONS =
+  /(?:\b(?:Inc|Ltd|Co|Corp|Dr|Mr|Ms|Mrs|Prof|St|vs|No|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec|approx|e\.g|i\.e)|(?:^|\s)[A-Z](?:\.[A-Z])*)\.$/;
+
+export function splitSentences(paragraph: string) {
+  const sentences: string[] = [];
+  let current = "";
+  paragraph.split(/(?<=[.!?]["”’)]?)\s+(?=["“‘(]?[A-Z0-9])/).forEach((part) => {
+    current = current ? `${current} ${part}` : part;
+    if (!ABBREVIATIONS.test(current)) {
+      sentences.push(current.trim());
+      current = "";
+    }
+  });
+  if (current.trim()) sentences.push(current.trim());
+  return sentences;
+}
+
+const MIN_SENTENCE_LENGTH = 30;
+const MAX_SENTENCE_LENGTH = 400;
+
+function words(text: string) {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 3),
+  );
+}
+
+/**
+ * Picks the article sentences that best summarise the item, in article
+ * order. Sentences naming the item's matched keywords or companies score
+ * highest, then those sharing words with the title, then earlier ones; the
+ * same article and terms always give the same summary.
+ */
+export function summarizeArticle(
+  paragraphs: string[],
+  options: { sentences: number; title: string; terms: string[] },
+) {
+  const titleWords = words(options.title);
+  const terms = Array.from(
+    new Set(options.terms.map((term) => term.trim().toLowerCase())),
+  ).filter(Boolean);
+  const sentences = paragraphs.flatMap((paragraph, paragraphIndex) =>
+    splitSentences(paragraph).map((text, sentenceIndex) => ({
+      text,
+      leads: sentenceIndex === 0,
+      paragraphIndex,
+    })),
+  );
+  const scored = sentences
+    .map((sentence, position) => {
+      const lower = sentence.text.toLowerCase();
+      const mentioned = terms.filter((term) => lower.includes(term)).length;
+      const shared = Array.from(words(sentence.text)).filter((word) =>
+        titleWords.has(word),
+      ).length;
+      const score =
+        mentioned * 3 +
+        Math.min(shared, 3) +
+        (position === 0 ? 2 : 0) +
+        (sentence.leads ? 0.5 : 0) +
+        1 / (1 + sentence.paragraphIndex);
+      return { ...sentence, position, score };
+    })
+    .filter(
+      (sentence) =>
+        sentence.text.length >= MIN_SENTENCE_LENGTH &&
+        sentence.text.length <= MAX_SENTENCE_LENGTH &&
+        /[a-z]/i.test(sentence.text),
+    );
+  return scored
+    .sort((a, b) => b.score - a.score || a.position - b.position)
+    .slice(0, options.sentences)
+    .sort((a, b) => a.position - b.position)
+    .map((sentence) => sentence.text)
+    .join(" ");
+}
+
+/** Whether the item's summary is missing or short enough to replace. */
+export function needsArticleSummary(summary: string) {
+  return summary.trim().length < SNIPPET_LENGTH;
+}
@@ -0,0 +1,19 @@
+import { CompanyEntry, DEFAULT_COMPANY_REGISTRY } from "@/lib/companies";
+import { DEFAULT_ENTITY_DICTIONARY, EntityTerm } from "@/lib/entities";
+import { DEFAULT_EVENT_RULES, EventRule } from "@/lib/events";
+import { bundledStore } from "@/lib/store";
+
+export const companyRegistryStore = bundledStore<CompanyEntry[]>(
+  "company-registry",
+  DEFAULT_COMPANY_REGISTRY,
+);
+
+export const entityDictionaryStore = bundledStore<EntityTerm[]>(
+  "entity-dictionary",
+  DEFAULT_ENTITY_DICTIONARY,
+);
+
+export const eventRulesStore = bundledStore<EventRule[]>(
+  "event-rules",
+  DEFAULT_EVENT_RULES,
+);
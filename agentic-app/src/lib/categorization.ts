@@ -0,0 +1,275 @@
+import { ConsolidatedNewsItem } from "@/lib/types";
+import { ItemRecord, itemIdentity } from "@/lib/items";
+import { jaccard, wordTokens } from "@/lib/clustering";
+import { evidenceConfidence } from "@/lib/matching";
+import type { ScoredNewsItem, WeightedKeywordRow } from "@/lib/scoring";
+
+export type CategorySource = "keyword" | "classifier" | "analyst";
+
+export type CategoryPair = Pick<
+  ConsolidatedNewsItem,
+  "sopCategory" | "businessCategory"
+>;
+
+export type CategoryAssignment = {
+  source: CategorySource;
+  /** 0–1; keyword and analyst categories are certain. */
+  confidence: number;
+  /** Evidence behind a classifier assignment, strongest first. */
+  reasons: string[];
+  /** What the keyword row supplied, so the item can be reclassified later. */
+  inherited: CategoryPair;
+};
+
+export const CATEGORY_SOURCE_LABELS: Record<CategorySource, string> = {
+  keyword: "From keyword",
+  classifier: "Suggested",
+  analyst: "Set by analyst",
+};
+
+type Signal = {
+  pair: CategoryPair;
+  tokens: Set<string>;
+  companies: string[];
+  label: string;
+  kind: "keyword" | "example";
+};
+
+export type CategoryModel = {
+  signals: Signal[];
+  overrides: Map<string, CategoryPair>;
+};
+
+/** Evidence needed, in keyword-equivalents, for full confidence. */
+const SATURATION = 2;
+
+/** Weaker evidence than this leaves the item uncategorised. */
+const MIN_EVIDENCE = 0.5;
+
+/** Share of a keyword's words an item must contain to count as a partial hit. */
+const MIN_KEYWORD_OVERLAP = 0.5;
+
+/** Analyst examples less similar than this are ignored. */
+const MIN_EXAMPLE_SIMILARITY = 0.2;
+
+const MAX_REASONS = 3;
+
+function hasCategory(pair: CategoryPair) {
+  return Boolean(pair.sopCategory?.trim() || pair.businessCategory?.trim());
+}
+
+function pairKey(pair: CategoryPair) {
+  return `${pair.sopCategory?.trim() ?? ""}\u0000${pair.businessCategory?.trim() ?? ""}`;
+}
+
+/**
+ * Builds the classifier from the taxonomy's keyword rows, one signal per
+ * keyword or synonym, and the items analysts have categorised by hand in
+ * this workspace.
+ */
+export function buildCategoryModel(
+  keywords: WeightedKeywordRow[],
+  records: ItemRecord[],
+): CategoryModel {
+  const rows: Signal[] = keywords
+    .filter((row) => row.keyword.trim() && hasCategory(row))
+    .flatMap((row) =>
+      [row.keyword, ...(row.synonyms ?? [])]
+        .filter((term) => term.trim())
+        .map((term, position) => ({
+          pair: {
+            sopCategory: row.sopCategory,
+            businessCategory: row.businessCategory,
+          },
+          tokens: wordTokens(term),
+          // Companies are credited once per row, on the keyword itself.
+          companies:
+            position === 0
+              ? (row.companies ?? []).filter((company) => company.trim())
+              : [],
+          label: term,
+          kind: "keyword" as const,
+        })),
+    );
+  const examples: Signal[] = records.flatMap((record) =>
+    record.category && hasCategory(record.category)
+      ? [
+          {
+            pair: {
+              sopCategory: record.category.sopCategory,
+              businessCategory: record.category.businessCategory,
+            },
+            tokens: wordTokens(
+              `${record.category.title} ${record.category.summary}`,
+            ),
+            companies: [],
+            label: record.category.title,
+            kind: "example" as const,
+          },
+        ]
+      : [],
+  );
+  const overrides = new Map(
+    records.flatMap((record) =>
+      record.category
+        ? [
+            [
+              record.identity,
+              {
+                sopCategory: record.category.sopCategory,
+                businessCategory: record.category.businessCategory,
+              },
+            ] as const,
+          ]
+        : [],
+    ),
+  );
+  return { signals: [...rows, ...examples], overrides };
+}
+
+function mentions(text: string, company: string) {
+  return text.toLowerCase().includes(company.trim().toLowerCase());
+}
+
+/**
+ * Weighs every keyword row and analyst example that resembles the item and
+ * picks the category pair with the most evidence. A named company counts as
+ * a full keyword hit; partial keyword and example matches count by overlap.
+ * Given an SOP category, only pairs under it that name a business category
+ * are weighed.
+ */
+export function classifyCategory(
+  item: Pick<ConsolidatedNewsItem, "title" | "summary" | "companyMatches">,
+  model: CategoryModel,
+  sopCategory?: string,
+): { pair: CategoryPair; confidence: number; reasons: string[] } | undefined {
+  const text = `${item.title} ${item.summary}`;
+  const itemTokens = wordTokens(text);
+  const totals = new Map<
+    string,
+    {
+      pair: CategoryPair;
+      points: number;
+      reasons: { text: string; points: number }[];
+    }
+  >();
+  const credit = (pair: CategoryPair, points: number, reason: string) => {
+    const key = pairKey(pair);
+    const entry = totals.get(key) ?? { pair, points: 0, reasons: [] };
+    entry.points += points;
+    entry.reasons.push({ text: reason, points });
+    totals.set(key, entry);
+  };
+
+  const signals =
+    sopCategory === undefined
+      ? model.signals
+      : model.signals.filter(
+          (signal) =>
+            signal.pair.sopCategory?.trim() === sopCategory.trim() &&
+            signal.pair.businessCategory?.trim(),
+        );
+  signals.forEach((signal) => {
+    if (signal.kind === "keyword") {
+      const company = signal.companies.find(
+        (name) =>
+          mentions(text, name) ||
+          item.companyMatches.some(
+            (match) => match.toLowerCase() === name.trim().toLowerCase(),
+          ),
+      );
+      if (company) {
+        credit(signal.pair, 1, `Mentions ${company.trim()}`);
+        return;
+      }
+      if (signal.tokens.size === 0) return;
+      let shared = 0;
+      signal.tokens.forEach((token) => {
+        if (itemTokens.has(token)) shared += 1;
+      });
+      const overlap = shared / signal.tokens.size;
+      if (overlap >= MIN_KEYWORD_OVERLAP) {
+        credit(signal.pair, overlap, `Close to keyword "${signal.label}"`);
+      }
+      return;
+    }
+    const similarity = jaccard(itemTokens, signal.tokens);
+    if (similarity >= MIN_EXAMPLE_SIMILARITY) {
+      credit(signal.pair, 2 * similarity, `Like "${signal.label}"`);
+    }
+  });
+
+  const [best, runnerUp] = Array.from(totals.values()).sort(
+    (a, b) => b.points - a.points,
+  );
+  if (!best || best.points < MIN_EVIDENCE) return undefined;
+  return {
+    pair: best.pair,
+    confidence: evidenceConfidence(
+      best.points,
+      runnerUp?.points ?? 0,
+      SATURATION,
+    ),
+    reasons: best.reasons
+      .sort((a, b) => b.points - a.points)
+      .slice(0, MAX_REASONS)
+      .map((reason) => reason.text),
+  };
+}
+
+/**
+ * Settles an item's categories: an analyst override wins, then the SOP
+ * category its keyword row supplied, and the classifier fills what is still
+ * missing. A business category filled in under a keyword's SOP category comes
+ * only from pairs with that SOP category, and is reported as the classifier's.
+ */
+export function categorizeItem<T extends ScoredNewsItem>(
+  item: T,
+  model: CategoryModel,
+): T {
+  const inherited: CategoryPair = item.categoryAssignment?.inherited ?? {
+    sopCategory: item.sopCategory,
+    businessCategory: item.businessCategory,
+  };
+  const assign = (
+    pair: CategoryPair,
+    source: CategorySource,
+    confidence: number,
+    reasons: string[] = [],
+  ): T => ({
+    ...item,
+    sopCategory: pair.sopCategory || inherited.sopCategory,
+    businessCategory: pair.businessCategory || inherited.businessCategory,
+    categoryAssignment: { source, confidence, reasons, inherited },
+  });
+
+  const override = model.overrides.get(itemIdentity(item));
+  if (override) return assign(override, "analyst", 1);
+  if (inherited.sopCategory?.trim()) {
+    const suggestion = inherited.businessCategory?.trim()
+      ? undefined
+      : classifyCategory(item, model, inherited.sopCategory);
+    return suggestion
+      ? assign(
+          { businessCategory: suggestion.pair.businessCategory },
+          "classifier",
+          suggestion.confidence,
+          suggestion.reasons,
+        )
+      : assign({}, "keyword", 1);
+  }
+  const classified = classifyCategory(item, model);
+  if (!classified) {
+    return { ...item, ...inherited, categoryAssignment: undefined };
+  }
+  return assign(
+    {
+      sopCategory: classified.pair.sopCategory,
+      businessCategory:
+        inherited.businessCategory || classified.pair.businessCategory,
+    },
+    "classifier",
+    classified.confidence,
+    classified.reasons,
+  );
+}
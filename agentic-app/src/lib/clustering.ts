@@ -0,0 +1,189 @@
+import { ConsolidatedNewsItem } from "@/lib/types";
+import { normalizeTitle } from "@/lib/items";
+
+/** Another outlet's report of the same story, kept on the canonical item. */
+export type RelatedCoverage = Pick<
+  ConsolidatedNewsItem,
+  "id" | "title" | "url" | "source" | "publishedAt"
+>;
+
+/** Items scoring at least this are treated as the same story. */
+export const SIMILARITY_THRESHOLD = 0.45;
+
+/** Share of similarity the summaries carry; titles with no word in common score at most this. */
+const SUMMARY_WEIGHT = 0.3;
+
+/** Reports of one event rarely land further apart than this. */
+const MAX_SPREAD_MS = 3 * 86_400_000;
+
+const STOPWORDS = new Set([
+  "the",
+  "and",
+  "for",
+  "with",
+  "from",
+  "its",
+  "into",
+  "after",
+  "over",
+  "new",
+  "says",
+  "said",
+  "will",
+  "has",
+  "have",
+  "are",
+  "was",
+  "that",
+  "this",
+  "their",
+]);
+
+/** Crude suffix stripping so "approves" and "approval" share a token. */
+function stem(word: string) {
+  return word.length > 5 ? word.replace(/(ing|ed|es|al|s)$/, "") : word;
+}
+
+/** Expects text already lowercased and reduced to space-separated words. */
+function tokens(text: string) {
+  return new Set(
+    text
+      .split(" ")
+      .filter((word) => word.length > 2 && !STOPWORDS.has(word))
+      .map(stem),
+  );
+}
+
+/** Content words of free text, stemmed, for comparing items by vocabulary. */
+export function wordTokens(text: string) {
+  return tokens(
+    text
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-z0-9]+/g, " ")
+      .trim(),
+  );
+}
+
+export function jaccard(a: Set<string>, b: Set<string>) {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((token) => {
+    if (b.has(token)) shared += 1;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+type Fingerprint = {
+  title: Set<string>;
+  summary: Set<string>;
+  publishedAt: number;
+};
+
+function fingerprint(item: ConsolidatedNewsItem): Fingerprint {
+  return {
+    title: tokens(normalizeTitle(item.title)),
+    summary: wordTokens(item.summary),
+    publishedAt: new Date(item.publishedAt).getTime(),
+  };
+}
+
+/**
+ * Title-led similarity from 0 to 1; summaries count for 30% when both items
+ * have one, and items published days apart never match.
+ */
+function compare(a: Fingerprint, b: Fingerprint) {
+  if (
+    !Number.isNaN(a.publishedAt) &&
+    !Number.isNaN(b.publishedAt) &&
+    Math.abs(a.publishedAt - b.publishedAt) > MAX_SPREAD_MS
+  ) {
+    return 0;
+  }
+  const title = jaccard(a.title, b.title);
+  if (a.summary.size === 0 || b.summary.size === 0) return title;
+  return (
+    (1 - SUMMARY_WEIGHT) * title +
+    SUMMARY_WEIGHT * jaccard(a.summary, b.summary)
+  );
+}
+
+/**
+ * Groups near-duplicate items, single-link: two items sharing a close match
+ * land in the same cluster even if they are not close to each other. Above
+ * the summaries' share of the score, only items with a title word in common
+ * can match, so only those pairs are compared.
+ */
+export function clusterItems<T extends ConsolidatedNewsItem>(
+  items: T[],
+  threshold = SIMILARITY_THRESHOLD,
+): T[][] {
+  const prints = items.map(fingerprint);
+  const parent = items.map((_, index) => index);
+  const root = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const byTitleToken = new Map<string, number[]>();
+  const earlierCandidates = (index: number) => {
+    if (threshold <= SUMMARY_WEIGHT) {
+      return Array.from({ length: index }, (_, earlier) => earlier);
+    }
+    const candidates = new Set<number>();
+    prints[index].title.forEach((token) =>
+      byTitleToken.get(token)?.forEach((earlier) => candidates.add(earlier)),
+    );
+    return Array.from(candidates);
+  };
+  prints.forEach((print, i) => {
+    earlierCandidates(i).forEach((j) => {
+      if (root(i) !== root(j) && compare(prints[j], print) >= threshold) {
+        parent[root(i)] = root(j);
+      }
+    });
+    print.title.forEach((token) => {
+      const indexes = byTitleToken.get(token) ?? [];
+      indexes.push(i);
+      byTitleToken.set(token, indexes);
+    });
+  });
+  const clusters = new Map<number, T[]>();
+  items.forEach((item, index) => {
+    const key = root(index);
+    const members = clusters.get(key) ?? [];
+    members.push(item);
+    clusters.set(key, members);
+  });
+  return Array.from(clusters.values());
+}
+
+/** Orders a cluster so the most authentic report, then the earliest, leads. */
+export function rankCluster<T extends ConsolidatedNewsItem>(members: T[]) {
+  return [...members].sort(
+    (a, b) =>
+      b.authenticScore - a.authenticScore ||
+      b.marketImpactScore - a.marketImpactScore ||
+      new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime(),
+  );
+}
+
+/** Distinct outlets in a cluster; syndicated copies from one outlet count once. */
+export function countOutlets(members: ConsolidatedNewsItem[]) {
+  return new Set(
+    members.map((item) => item.source.trim().toLowerCase() || item.url),
+  ).size;
+}
+
+export function toRelatedCoverage(item: ConsolidatedNewsItem): RelatedCoverage {
+  return {
+    id: item.id,
+    title: item.title,
+    url: item.url,
+    source: item.source,
+    publishedAt: item.publishedAt,
+  };
+}
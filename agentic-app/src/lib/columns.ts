@@ -0,0 +1,92 @@
+import { NewsletterColumn } from "@/lib/types";
+import { formatDate } from "@/lib/format";
+import { ScoredNewsItem, describeBreakdown } from "@/lib/scoring";
+import { describeEvent } from "@/lib/events";
+import { SUMMARY_SOURCE_LABELS, summarySource } from "@/lib/articles";
+
+/** Newsletter columns plus the enrichments that exist only on scored items. */
+export type ExportColumn =
+  | NewsletterColumn
+  | "authenticFactors"
+  | "impactFactors"
+  | "eventType"
+  | "summarySource"
+  | "editorialNote";
+
+export const UNCATEGORIZED_LABEL = "Uncategorized";
+
+export const AVAILABLE_COLUMNS: { id: ExportColumn; label: string }[] = [
+  { id: "title", label: "Title" },
+  { id: "source", label: "Source" },
+  { id: "published", label: "Published" },
+  { id: "summary", label: "Summary" },
+  { id: "summarySource", label: "Summary source" },
+  { id: "editorialNote", label: "Editorial note" },
+  { id: "url", label: "Link" },
+  { id: "authenticScore", label: "Authentic Score" },
+  { id: "marketImpactScore", label: "Market Impact Score" },
+  { id: "authenticFactors", label: "Authenticity Breakdown" },
+  { id: "impactFactors", label: "Impact Breakdown" },
+  { id: "eventType", label: "Event type" },
+  { id: "keyword", label: "Keyword" },
+  { id: "sopCategory", label: "SOP Category" },
+  { id: "businessCategory", label: "Business Category" },
+];
+
+export const DEFAULT_COLUMNS: ExportColumn[] = [
+  "title",
+  "source",
+  "published",
+  "summary",
+  "url",
+  "authenticScore",
+  "marketImpactScore",
+  "keyword",
+  "sopCategory",
+];
+
+export function getColumnLabel(column: ExportColumn) {
+  return (
+    AVAILABLE_COLUMNS.find((entry) => entry.id === column)?.label ?? column
+  );
+}
+
+export function getColumnValue(
+  item: ScoredNewsItem,
+  column: ExportColumn,
+): string | number {
+  switch (column) {
+    case "title":
+      return item.title;
+    case "source":
+      return item.source;
+    case "published":
+      return formatDate(item.publishedAt);
+    case "summary":
+      return item.summary;
+    case "editorialNote":
+      return item.editorialNote ?? "";
+    case "summarySource":
+      return item.summary ? SUMMARY_SOURCE_LABELS[summarySource(item)] : "";
+    case "url":
+      return item.url;
+    case "authenticScore":
+      return item.authenticScore;
+    case "marketImpactScore":
+      return item.marketImpactScore;
+    case "authenticFactors":
+      return describeBreakdown(item.scoreBreakdown?.authentic) || "—";
+    case "impactFactors":
+      return describeBreakdown(item.scoreBreakdown?.marketImpact) || "—";
+    case "eventType":
+      return describeEvent(item.event);
+    case "keyword":
+      return item.keywordMatches.join(", ");
+    case "sopCategory":
+      return item.sopCategory ?? "—";
+    case "businessCategory":
+      return item.businessCategory ?? "—";
+    default:
+      return "";
+  }
+}
@@ -0,0 +1,296 @@
+import { compileAlias } from "@/lib/matching";
+import type { ConsolidatedNewsItem } from "@/lib/types";
+import type { WatchTarget } from "@/lib/targets";
+
+export type CompanyRole =
+  "originator" | "biosimilar-developer" | "commercial-partner";
+
+export const COMPANY_ROLES: { id: CompanyRole; label: string }[] = [
+  { id: "originator", label: "Originator" },
+  { id: "biosimilar-developer", label: "Biosimilar developer" },
+  { id: "commercial-partner", label: "Commercial partner" },
+];
+
+/**
+ * A company as the team refers to it. Items name it by `name`, whichever
+ * alias the source used; `parentId` and `partnerIds` point at other entries.
+ */
+export type CompanyEntry = {
+  id: string;
+  name: string;
+  aliases?: string[];
+  ticker?: string;
+  parentId?: string;
+  partnerIds?: string[];
+  roles?: CompanyRole[];
+};
+
+export const DEFAULT_COMPANY_REGISTRY: CompanyEntry[] = [
+  { id: "abbvie", name: "AbbVie", ticker: "ABBV", roles: ["originator"] },
+  {
+    id: "alvotech",
+    name: "Alvotech",
+    ticker: "ALVO",
+    partnerIds: ["teva"],
+    roles: ["biosimilar-developer"],
+  },
+  {
+    id: "amgen",
+    name: "Amgen",
+    ticker: "AMGN",
+    roles: ["originator", "biosimilar-developer"],
+  },
+  {
+    id: "biocon-biologics",
+    name: "Biocon Biologics",
+    aliases: ["Biocon"],
+    partnerIds: ["viatris"],
+    roles: ["biosimilar-developer"],
+  },
+  { id: "biogen", name: "Biogen", ticker: "BIIB", roles: ["originator"] },
+  {
+    id: "boehringer-ingelheim",
+    name: "Boehringer Ingelheim",
+    aliases: ["Boehringer", "BI"],
+    roles: ["originator", "biosimilar-developer"],
+  },
+  {
+    id: "celltrion",
+    name: "Celltrion",
+    aliases: ["Celltrion Healthcare"],
+    ticker: "068270.KS",
+    roles: ["biosimilar-developer"],
+  },
+  {
+    id: "coherus",
+    name: "Coherus BioSciences",
+    aliases: ["Coherus"],
+    ticker: "CHRS",
+    roles: ["biosimilar-developer", "commercial-partner"],
+  },
+  {
+    id: "formycon",
+    name: "Formycon",
+    ticker: "FYB",
+    roles: ["biosimilar-developer"],
+  },
+  {
+    id: "fresenius-kabi",
+    name: "Fresenius Kabi",
+    aliases: ["Fresenius"],
+    roles: ["biosimilar-developer"],
+  },
+  {
+    id: "genentech",
+    name: "Genentech",
+    parentId: "roche",
+    roles: ["originator"],
+  },
+  {
+    id: "hospira",
+    name: "Hospira",
+    parentId: "pfizer",
+    roles: ["biosimilar-developer"],
+  },
+  {
+    id: "janssen",
+    name: "Janssen",
+    parentId: "johnson-johnson",
+    roles: ["originator"],
+  },
+  {
+    id: "johnson-johnson",
+    name: "Johnson & Johnson",
+    aliases: ["J&J"],
+    ticker: "JNJ",
+    roles: ["originator"],
+  },
+  { id: "novartis", name: "Novartis", ticker: "NVS", roles: ["originator"] },
+  {
+    id: "organon",
+    name: "Organon",
+    ticker: "OGN",
+    partnerIds: ["samsung-bioepis"],
+    roles: ["commercial-partner"],
+  },
+  {
+    id: "pfizer",
+    name: "Pfizer",
+    ticker: "PFE",
+    roles: ["originator", "biosimilar-developer"],
+  },
+  { id: "regeneron", name: "Regeneron", ticker: "REGN", roles: ["originator"] },
+  { id: "roche", name: "Roche", ticker: "ROG", roles: ["originator"] },
+  {
+    id: "samsung-biologics",
+    name: "Samsung Biologics",
+    ticker: "207940.KS",
+  },
+  {
+    id: "samsung-bioepis",
+    name: "Samsung Bioepis",
+    aliases: ["Bioepis"],
+    parentId: "samsung-biologics",
+    partnerIds: ["organon", "biogen"],
+    roles: ["biosimilar-developer"],
+  },
+  {
+    id: "sandoz",
+    name: "Sandoz",
+    aliases: ["Novartis Sandoz"],
+    ticker: "SDZ",
+    roles: ["biosimilar-developer"],
+  },
+  {
+    id: "teva",
+    name: "Teva",
+    aliases: ["Teva Pharmaceuticals"],
+    ticker: "TEVA",
+    partnerIds: ["alvotech"],
+    roles: ["commercial-partner"],
+  },
+  {
+    id: "viatris",
+    name: "Viatris",
+    aliases: ["Mylan"],
+    ticker: "VTRS",
+    partnerIds: ["biocon-biologics"],
+    roles: ["commercial-partner"],
+  },
+];
+
+const LEGAL_SUFFIX =
+  /\b(co|corp|corporation|company|inc|incorporated|ltd|limited|llc|plc|ag|gmbh|sa|se|nv|bv|spa|kk)\b/g;
+
+/** Compares names ignoring case, punctuation and legal-form suffixes. */
+function nameKey(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(LEGAL_SUFFIX, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function companyNames(entry: CompanyEntry) {
+  return [entry.name, ...(entry.aliases ?? [])]
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+/** The entry a free-text company name refers to, by name, alias or ticker. */
+export function findCompany(name: string, registry: CompanyEntry[]) {
+  const key = nameKey(name);
+  if (!key) return undefined;
+  return registry.find(
+    (entry) =>
+      companyNames(entry).some((candidate) => nameKey(candidate) === key) ||
+      (entry.ticker !== undefined &&
+        entry.ticker.trim().toLowerCase() === name.trim().toLowerCase()),
+  );
+}
+
+/** Registry names replace the spellings they cover; others are kept trimmed. */
+export function normalizeCompanies(names: string[], registry: CompanyEntry[]) {
+  const normalized = new Map<string, string>();
+  names.forEach((name) => {
+    const canonical = findCompany(name, registry)?.name ?? name.trim();
+    const key = nameKey(canonical) || canonical.toLowerCase();
+    if (canonical && !normalized.has(key)) normalized.set(key, canonical);
+  });
+  return Array.from(normalized.values());
+}
+
+const compiled = new WeakMap<
+  CompanyEntry[],
+  { entry: CompanyEntry; patterns: RegExp[] }[]
+>();
+
+/** Registry companies the text mentions by name or alias. */
+export function matchRegistry(text: string, registry: CompanyEntry[]) {
+  let entries = compiled.get(registry);
+  if (!entries) {
+    entries = registry
+      .filter((entry) => entry.name.trim())
+      .map((entry) => ({
+        entry,
+        patterns: companyNames(entry).map(compileAlias),
+      }));
+    compiled.set(registry, entries);
+  }
+  return entries
+    .filter(({ patterns }) => patterns.some((pattern) => pattern.test(text)))
+    .map(({ entry }) => entry.name);
+}
+
+/** The top of the entry's parent chain; an entry without a parent is its own group. */
+export function companyGroup(entry: CompanyEntry, registry: CompanyEntry[]) {
+  let current = entry;
+  const visited = new Set([entry.id]);
+  while (current.parentId && !visited.has(current.parentId)) {
+    const parent = registry.find(
+      (candidate) => candidate.id === current.parentId,
+    );
+    if (!parent) break;
+    visited.add(parent.id);
+    current = parent;
+  }
+  return current;
+}
+
+/** Group names of the companies an item names; unregistered names are their own group. */
+export function companyGroupsOf(names: string[], registry: CompanyEntry[]) {
+  return Array.from(
+    new Set(
+      names.map((name) => {
+        const entry = findCompany(name, registry);
+        return entry ? companyGroup(entry, registry).name : name;
+      }),
+    ),
+  );
+}
+
+/** Entries whose parent is this one, directly. */
+export function subsidiariesOf(entry: CompanyEntry, registry: CompanyEntry[]) {
+  return registry.filter((candidate) => candidate.parentId === entry.id);
+}
+
+/** Entries linked as partners in either direction. */
+export function partnersOf(entry: CompanyEntry, registry: CompanyEntry[]) {
+  return registry.filter(
+    (candidate) =>
+      candidate.id !== entry.id &&
+      (entry.partnerIds?.includes(candidate.id) ||
+        candidate.partnerIds?.includes(entry.id)),
+  );
+}
+
+export function targetCompany(target: WatchTarget, registry: CompanyEntry[]) {
+  return target.companyId
+    ? registry.find((entry) => entry.id === target.companyId)
+    : undefined;
+}
+
+/** Puts the item's company matches in registry spelling. */
+export function annotateCompanies<
+  T extends Pick<ConsolidatedNewsItem, "companyMatches">,
+>(item: T, registry: CompanyEntry[]): T {
+  return {
+    ...item,
+    companyMatches: normalizeCompanies(item.companyMatches, registry),
+  };
+}
+
+/** A readable id for a new entry, unique within the registry. */
+export function companyId(name: string, registry: CompanyEntry[]) {
+  const base =
+    nameKey(name).replace(/ and /g, " ").replace(/\s+/g, "-") || "company";
+  let candidate = base;
+  let suffix = 2;
+  while (registry.some((entry) => entry.id === candidate)) {
+    candidate = `${base}-${suffix}`;
+    suffix += 1;
+  }
+  return candidate;
+}
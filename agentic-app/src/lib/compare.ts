@@ -0,0 +1,21 @@
+import { ConsolidatedNewsItem } from "@/lib/types";
+import { itemIdentity } from "@/lib/items";
+
+export type ResultComparison = {
+  added: ConsolidatedNewsItem[];
+  removed: ConsolidatedNewsItem[];
+  unchanged: number;
+};
+
+export function compareResults(
+  current: ConsolidatedNewsItem[],
+  baseline: ConsolidatedNewsItem[],
+): ResultComparison {
+  const baselineKeys = new Set(baseline.map(itemIdentity));
+  const currentKeys = new Set(current.map(itemIdentity));
+  const added = current.filter((item) => !baselineKeys.has(itemIdentity(item)));
+  const removed = baseline.filter(
+    (item) => !currentKeys.has(itemIdentity(item)),
+  );
+  return { added, removed, unchanged: current.length - added.length };
+}
@@ -0,0 +1,134 @@
+type CronField = {
+  name: string;
+  min: number;
+  max: number;
+};
+
+const FIELDS: CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+const MINUTE_MS = 60 * 1000;
+
+export type ParsedCron = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+};
+
+export class CronParseError extends Error {}
+
+function parseField(source: string, field: CronField) {
+  const values = new Set<number>();
+  source.split(",").forEach((part) => {
+    const [range, stepSource] = part.split("/");
+    const step = stepSource === undefined ? 1 : Number(stepSource);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronParseError(`Invalid step "${part}" in ${field.name}.`);
+    }
+
+    let start = field.min;
+    let end = field.max;
+    if (range !== "*") {
+      const [lowSource, highSource] = range.split("-");
+      start = Number(lowSource);
+      end =
+        highSource === undefined
+          ? stepSource
+            ? field.max
+            : start
+          : Number(highSource);
+    }
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < field.min ||
+      end > field.max ||
+      start > end
+    ) {
+      throw new CronParseError(`Invalid value "${part}" in ${field.name}.`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  });
+  return values;
+}
+
+/**
+ * Parses a standard five-field cron expression
+ * (minute hour day-of-month month day-of-week). Supports `*`, lists, ranges
+ * and steps; Sunday may be written as 0 or 7.
+ */
+export function parseCron(expression: string): ParsedCron {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new CronParseError(
+      "Cron expressions need five fields: minute hour day month weekday.",
+    );
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map(
+    (part, index) => parseField(part, FIELDS[index]),
+  );
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictsDayOfMonth: parts[2] !== "*",
+    restrictsDayOfWeek: parts[4] !== "*",
+  };
+}
+
+export function validateCron(expression: string) {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error) {
+    return error instanceof CronParseError ? error.message : "Invalid cron.";
+  }
+}
+
+export function matchesCron(cron: ParsedCron, date: Date) {
+  if (!cron.minutes.has(date.getMinutes())) return false;
+  if (!cron.hours.has(date.getHours())) return false;
+  if (!cron.months.has(date.getMonth() + 1)) return false;
+
+  const dayOfMonth = cron.daysOfMonth.has(date.getDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getDay());
+  // Classic cron semantics: when both day fields are restricted, either may match.
+  if (cron.restrictsDayOfMonth && cron.restrictsDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+export function nextCronOccurrence(
+  expression: string,
+  from: Date = new Date(),
+  horizonDays = 31,
+) {
+  const cron = parseCron(expression);
+  const cursor = new Date(from.getTime());
+  cursor.setSeconds(0, 0);
+  const limit = horizonDays * 24 * 60;
+  for (let step = 1; step <= limit; step += 1) {
+    const candidate = new Date(cursor.getTime() + step * MINUTE_MS);
+    if (matchesCron(cron, candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,152 @@
+import { TimeRangeOption } from "@/lib/types";
+import type { ExportColumn } from "@/lib/columns";
+import { itemIdentity } from "@/lib/items";
+import { NewsletterGrouping, groupNewsletterItems } from "@/lib/newsletter";
+import { ScoredNewsItem } from "@/lib/scoring";
+
+/** An analyst's decisions about one item for the next newsletter issue. */
+export type CurationEntry = {
+  /** Always in the issue, whatever the filters or the item limit. */
+  pinned?: boolean;
+  /** Never in the issue. */
+  excluded?: boolean;
+  /** Editorial note printed under the item's summary. */
+  note?: string;
+};
+
+/** The issue being prepared in a workspace, before it is approved. */
+export type NewsletterDraft = {
+  /** Decisions by item identity. */
+  entries: Record<string, CurationEntry>;
+  /** Item identities in the order the analyst arranged them. */
+  order: string[];
+  /** Items the issue holds, pinned ones included. */
+  size: number;
+};
+
+export const DEFAULT_ISSUE_SIZE = 12;
+export const MAX_ISSUE_SIZE = 100;
+export const MAX_NOTE_LENGTH = 1000;
+
+export const EMPTY_DRAFT: NewsletterDraft = {
+  entries: {},
+  order: [],
+  size: DEFAULT_ISSUE_SIZE,
+};
+
+/** An approved issue, frozen as it was curated so it exports unchanged. */
+export type NewsletterIssue = {
+  id: string;
+  workspaceId: string | null;
+  title: string;
+  approvedAt: string;
+  groupBy: NewsletterGrouping;
+  columns: ExportColumn[];
+  timeRange: TimeRangeOption;
+  lastRun: string | null;
+  items: ScoredNewsItem[];
+};
+
+export type IssueSummary = Omit<
+  NewsletterIssue,
+  "items" | "columns" | "timeRange"
+> & {
+  itemCount: number;
+};
+
+/** Sets or clears decisions for an item, dropping entries left empty. */
+export function updateEntry(
+  draft: NewsletterDraft,
+  identity: string,
+  patch: CurationEntry,
+): NewsletterDraft {
+  const merged = { ...draft.entries[identity], ...patch };
+  const entry: CurationEntry = {
+    ...(merged.pinned && { pinned: true }),
+    ...(merged.excluded && { excluded: true }),
+    ...(merged.note?.trim() && { note: merged.note }),
+  };
+  const entries = { ...draft.entries };
+  if (Object.keys(entry).length > 0) {
+    entries[identity] = entry;
+  } else {
+    delete entries[identity];
+  }
+  return { ...draft, entries };
+}
+
+/**
+ * Builds the issue from the filtered feed: pinned items first (taken from
+ * every loaded item, so a pin survives filter changes), then the feed in its
+ * own order up to the issue size, less excluded items. Items the analyst
+ * arranged keep their place; the rest follow in selection order. Notes are
+ * carried onto the items.
+ */
+export function curateIssue(
+  feed: ScoredNewsItem[],
+  pool: ScoredNewsItem[],
+  draft: NewsletterDraft,
+): ScoredNewsItem[] {
+  const entryOf = (item: ScoredNewsItem) => draft.entries[itemIdentity(item)];
+  const chosen = new Map<string, ScoredNewsItem>();
+  [...pool, ...feed].forEach((item) => {
+    const entry = entryOf(item);
+    if (entry?.pinned && !entry.excluded) {
+      chosen.set(itemIdentity(item), item);
+    }
+  });
+  feed.forEach((item) => {
+    if (chosen.size >= draft.size) return;
+    const identity = itemIdentity(item);
+    if (!entryOf(item)?.excluded && !chosen.has(identity)) {
+      chosen.set(identity, item);
+    }
+  });
+
+  const rank = new Map(draft.order.map((identity, index) => [identity, index]));
+  return Array.from(chosen.entries())
+    .map(([identity, item], position) => ({
+      item,
+      position,
+      rank: rank.get(identity) ?? Number.POSITIVE_INFINITY,
+    }))
+    .sort((a, b) => a.rank - b.rank || a.position - b.position)
+    .map(({ item }) => {
+      const note = draft.entries[itemIdentity(item)]?.note?.trim();
+      return note ? { ...item, editorialNote: note } : item;
+    });
+}
+
+/** The issue's items in reading order: section by section, as exported. */
+export function issueReadingOrder(
+  items: ScoredNewsItem[],
+  groupBy: NewsletterGrouping,
+) {
+  return groupNewsletterItems(items, groupBy).flatMap((section) =>
+    section.groups.flatMap((group) => group.items),
+  );
+}
+
+/**
+ * Moves an item to another item's place in the issue and records the whole
+ * issue's order, so the arrangement sticks across later runs.
+ */
+export function moveItem(
+  draft: NewsletterDraft,
+  issue: ScoredNewsItem[],
+  identity: string,
+  targetIdentity: string,
+): NewsletterDraft {
+  const order = issue.map(itemIdentity);
+  const from = order.indexOf(identity);
+  const to = order.indexOf(targetIdentity);
+  if (from === -1 || to === -1 || from === to) return draft;
+  order.splice(from, 1);
+  order.splice(to, 0, identity);
+  return { ...draft, order };
+}
+
+export function toIssueSummary(issue: NewsletterIssue): IssueSummary {
+  const { items, columns: _columns, timeRange: _timeRange, ...rest } = issue;
+  return { ...rest, itemCount: items.length };
+}
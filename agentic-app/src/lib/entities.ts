@@ -0,0 +1,236 @@
+import { compileAlias } from "@/lib/matching";
+import type { ScoredNewsItem } from "@/lib/scoring";
+
+export type EntityKind =
+  "molecule" | "brand" | "suffix" | "regulator" | "jurisdiction";
+
+/** Suffixed names are recognised by pattern, so the dictionary holds the rest. */
+export type DictionaryKind = Exclude<EntityKind, "suffix">;
+
+export type EntityTerm = {
+  kind: DictionaryKind;
+  name: string;
+  aliases?: string[];
+  /** Another term this one also tags, e.g. a brand's molecule or a regulator's jurisdiction. */
+  implies?: string;
+};
+
+export type ItemEntities = Partial<Record<EntityKind, string[]>>;
+
+export const ENTITY_KINDS: { id: EntityKind; label: string; plural: string }[] =
+  [
+    { id: "molecule", label: "Molecule", plural: "molecules" },
+    { id: "brand", label: "Reference product", plural: "reference products" },
+    { id: "suffix", label: "Biosimilar name", plural: "biosimilar names" },
+    { id: "regulator", label: "Regulator", plural: "regulators" },
+    { id: "jurisdiction", label: "Jurisdiction", plural: "jurisdictions" },
+  ];
+
+function molecules(...names: string[]): EntityTerm[] {
+  return names.map((name) => ({ kind: "molecule", name }));
+}
+
+function brands(entries: [string, string, ...string[]][]): EntityTerm[] {
+  return entries.map(([name, molecule, ...aliases]) => ({
+    kind: "brand",
+    name,
+    implies: molecule,
+    ...(aliases.length > 0 ? { aliases } : {}),
+  }));
+}
+
+export const DEFAULT_ENTITY_DICTIONARY: EntityTerm[] = [
+  ...molecules(
+    "adalimumab",
+    "aflibercept",
+    "bevacizumab",
+    "denosumab",
+    "eculizumab",
+    "etanercept",
+    "filgrastim",
+    "golimumab",
+    "infliximab",
+    "insulin aspart",
+    "insulin glargine",
+    "natalizumab",
+    "nivolumab",
+    "omalizumab",
+    "pegfilgrastim",
+    "pembrolizumab",
+    "pertuzumab",
+    "ranibizumab",
+    "rituximab",
+    "secukinumab",
+    "teriparatide",
+    "tocilizumab",
+    "trastuzumab",
+    "ustekinumab",
+  ),
+  ...brands([
+    ["Humira", "adalimumab"],
+    ["Eylea", "aflibercept"],
+    ["Avastin", "bevacizumab"],
+    ["Prolia", "denosumab"],
+    ["Xgeva", "denosumab"],
+    ["Soliris", "eculizumab"],
+    ["Enbrel", "etanercept"],
+    ["Neupogen", "filgrastim"],
+    ["Simponi", "golimumab"],
+    ["Remicade", "infliximab"],
+    ["NovoLog", "insulin aspart", "NovoRapid"],
+    ["Lantus", "insulin glargine"],
+    ["Tysabri", "natalizumab"],
+    ["Opdivo", "nivolumab"],
+    ["Xolair", "omalizumab"],
+    ["Neulasta", "pegfilgrastim"],
+    ["Keytruda", "pembrolizumab"],
+    ["Perjeta", "pertuzumab"],
+    ["Lucentis", "ranibizumab"],
+    ["Rituxan", "rituximab", "MabThera"],
+    ["Cosentyx", "secukinumab"],
+    ["Forteo", "teriparatide", "Forsteo"],
+    ["Actemra", "tocilizumab", "RoActemra"],
+    ["Herceptin", "trastuzumab"],
+    ["Stelara", "ustekinumab"],
+  ]),
+  {
+    kind: "regulator",
+    name: "FDA",
+    aliases: ["Food and Drug Administration"],
+    implies: "United States",
+  },
+  {
+    kind: "regulator",
+    name: "EMA",
+    aliases: ["European Medicines Agency", "CHMP"],
+    implies: "European Union",
+  },
+  {
+    kind: "regulator",
+    name: "MHRA",
+    aliases: ["Medicines and Healthcare products Regulatory Agency"],
+    implies: "United Kingdom",
+  },
+  { kind: "regulator", name: "Health Canada", implies: "Canada" },
+  {
+    kind: "regulator",
+    name: "PMDA",
+    aliases: ["Pharmaceuticals and Medical Devices Agency"],
+    implies: "Japan",
+  },
+  {
+    kind: "regulator",
+    name: "TGA",
+    aliases: ["Therapeutic Goods Administration"],
+    implies: "Australia",
+  },
+  { kind: "regulator", name: "Swissmedic", implies: "Switzerland" },
+  {
+    kind: "regulator",
+    name: "NMPA",
+    aliases: ["National Medical Products Administration"],
+    implies: "China",
+  },
+  { kind: "regulator", name: "ANVISA", implies: "Brazil" },
+  { kind: "regulator", name: "CDSCO", implies: "India" },
+  {
+    kind: "jurisdiction",
+    name: "United States",
+    aliases: ["US", "U.S.", "USA"],
+  },
+  {
+    kind: "jurisdiction",
+    name: "European Union",
+    aliases: ["EU", "Europe", "European"],
+  },
+  {
+    kind: "jurisdiction",
+    name: "United Kingdom",
+    aliases: ["UK", "U.K.", "Britain", "British"],
+  },
+  { kind: "jurisdiction", name: "Canada", aliases: ["Canadian"] },
+  { kind: "jurisdiction", name: "Japan", aliases: ["Japanese"] },
+  { kind: "jurisdiction", name: "Australia", aliases: ["Australian"] },
+  { kind: "jurisdiction", name: "Switzerland", aliases: ["Swiss"] },
+  { kind: "jurisdiction", name: "China", aliases: ["Chinese"] },
+  { kind: "jurisdiction", name: "Brazil", aliases: ["Brazilian"] },
+  { kind: "jurisdiction", name: "India", aliases: ["Indian"] },
+];
+
+/** INN stems that take a four-letter biosimilar suffix, e.g. adalimumab-aaty. */
+const SUFFIXED_NAME =
+  /(?<![A-Za-z0-9-])([a-z]{4,}(?:mab|cept|stim|poetin|parin|tropin|glutide))-([a-z]{4})(?![A-Za-z0-9-])/gi;
+
+type CompiledTerm = { term: EntityTerm; patterns: RegExp[] };
+
+const compiled = new WeakMap<EntityTerm[], CompiledTerm[]>();
+
+function compile(dictionary: EntityTerm[]) {
+  const cached = compiled.get(dictionary);
+  if (cached) return cached;
+  const terms = dictionary
+    .filter((term) => term.name.trim())
+    .map((term) => ({
+      term,
+      patterns: [term.name, ...(term.aliases ?? [])]
+        .map((alias) => alias.trim())
+        .filter(Boolean)
+        .map(compileAlias),
+    }));
+  compiled.set(dictionary, terms);
+  return terms;
+}
+
+/**
+ * Tags text with the dictionary terms it mentions, plus whatever those terms
+ * imply, and any INN carrying a biosimilar suffix.
+ */
+export function extractEntities(
+  text: string,
+  dictionary: EntityTerm[],
+): ItemEntities {
+  const found = new Map<EntityKind, Set<string>>();
+  const add = (kind: EntityKind, name: string) =>
+    found.set(kind, (found.get(kind) ?? new Set()).add(name));
+  const byName = (name: string) =>
+    dictionary.find(
+      (term) => term.name.trim().toLowerCase() === name.trim().toLowerCase(),
+    );
+
+  compile(dictionary).forEach(({ term, patterns }) => {
+    if (!patterns.some((pattern) => pattern.test(text))) return;
+    add(term.kind, term.name);
+    const implied = term.implies ? byName(term.implies) : undefined;
+    if (implied) add(implied.kind, implied.name);
+  });
+
+  Array.from(text.matchAll(SUFFIXED_NAME)).forEach((match) => {
+    add("suffix", match[0].toLowerCase());
+    const molecule = byName(match[1]);
+    add("molecule", molecule?.name ?? match[1].toLowerCase());
+  });
+
+  return Object.fromEntries(
+    Array.from(found.entries()).map(([kind, names]) => [
+      kind,
+      Array.from(names).sort((a, b) => a.localeCompare(b)),
+    ]),
+  );
+}
+
+/** Tags an item from its own text and the headlines of its related coverage. */
+export function annotateEntities<T extends ScoredNewsItem>(
+  item: T,
+  dictionary: EntityTerm[],
+): T {
+  const text = [
+    item.title,
+    item.summary,
+    ...(item.related ?? []).map((entry) => entry.title),
+  ].join("\n");
+  return { ...item, entities: extractEntities(text, dictionary) };
+}
+
+export function entityNames(entities: ItemEntities | undefined) {
+  return ENTITY_KINDS.flatMap((kind) => entities?.[kind.id] ?? []);
+}
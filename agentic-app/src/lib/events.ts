@@ -0,0 +1,275 @@
+import { compileAlias, evidenceConfidence } from "@/lib/matching";
+import type { ScoredNewsItem } from "@/lib/scoring";
+
+export type EventType =
+  | "approval"
+  | "filing"
+  | "interchangeability"
+  | "launch"
+  | "litigation"
+  | "patent"
+  | "pricing"
+  | "clinical"
+  | "deal";
+
+export const EVENT_TYPES: { id: EventType; label: string }[] = [
+  { id: "approval", label: "Approval" },
+  { id: "filing", label: "Filing / acceptance" },
+  { id: "interchangeability", label: "Interchangeability" },
+  { id: "launch", label: "Launch" },
+  { id: "litigation", label: "Litigation / settlement" },
+  { id: "patent", label: "Patent" },
+  { id: "pricing", label: "Pricing / formulary" },
+  { id: "clinical", label: "Clinical readout" },
+  { id: "deal", label: "M&A / partnership" },
+];
+
+export const UNCLASSIFIED_EVENT_LABEL = "Unclassified";
+
+/**
+ * Patterns are phrases matched as whole words, case-insensitively unless
+ * written as an acronym such as `BLA`, or case-insensitive regular
+ * expressions written between slashes, e.g. `/phase (3|iii)/`.
+ */
+export type EventRule = {
+  type: EventType;
+  patterns: string[];
+};
+
+export type ItemEvent = {
+  type: EventType;
+  /** 0–1: how many patterns hit, discounted when another type also fits. */
+  confidence: number;
+  matched: string[];
+};
+
+export const DEFAULT_EVENT_RULES: EventRule[] = [
+  {
+    type: "approval",
+    patterns: [
+      "approves",
+      "approved",
+      "approval",
+      "authorisation",
+      "authorization",
+      "positive opinion",
+      "/\\bclear(s|ed)\\b/",
+      "green light",
+      "nod",
+    ],
+  },
+  {
+    type: "filing",
+    patterns: [
+      "files",
+      "filing",
+      "submits",
+      "submitted",
+      "submission",
+      "BLA",
+      "aBLA",
+      "MAA",
+      "accepted for review",
+      "accepts",
+      "acceptance",
+      "under review",
+      "PDUFA",
+    ],
+  },
+  {
+    type: "interchangeability",
+    patterns: [
+      "interchangeable",
+      "interchangeability",
+      "/pharmacy[- ]level substitution/",
+    ],
+  },
+  {
+    type: "launch",
+    patterns: [
+      "launch",
+      "launches",
+      "launched",
+      "now available",
+      "commercially available",
+      "rollout",
+      "rolls out",
+    ],
+  },
+  {
+    type: "litigation",
+    patterns: [
+      "lawsuit",
+      "litigation",
+      "sues",
+      "sued",
+      "court",
+      "injunction",
+      "settlement",
+      "settle",
+      "settles",
+      "complaint",
+    ],
+  },
+  {
+    type: "patent",
+    patterns: [
+      "patent",
+      "patents",
+      "IPR",
+      "PTAB",
+      "inter partes",
+      "exclusivity",
+    ],
+  },
+  {
+    type: "pricing",
+    patterns: [
+      "price",
+      "pricing",
+      "list price",
+      "discount",
+      "WAC",
+      "rebate",
+      "formulary",
+      "reimbursement",
+      "PBM",
+      "tender",
+    ],
+  },
+  {
+    type: "clinical",
+    patterns: [
+      "/phase (1|2|3|i{1,3})\\b/",
+      "trial",
+      "study",
+      "topline",
+      "readout",
+      "endpoint",
+      "equivalence",
+    ],
+  },
+  {
+    type: "deal",
+    patterns: [
+      "acquire",
+      "acquires",
+      "acquisition",
+      "merger",
+      "partnership",
+      "partners with",
+      "collaboration",
+      "licensing",
+      "license agreement",
+      "deal",
+    ],
+  },
+];
+
+/** Hits needed, title hits counting double, for full confidence. */
+const SATURATION = 3;
+
+export class PatternError extends Error {
+  constructor(pattern: string, reason: string) {
+    super(`Invalid pattern "${pattern}": ${reason}`);
+    this.name = "PatternError";
+  }
+}
+
+export function compilePattern(pattern: string) {
+  const source = pattern.trim();
+  const literal = source.match(/^\/(.+)\/$/);
+  if (!literal) return compileAlias(source);
+  try {
+    return new RegExp(literal[1], "i");
+  } catch (error) {
+    throw new PatternError(
+      source,
+      error instanceof Error ? error.message : "cannot compile",
+    );
+  }
+}
+
+type CompiledRule = {
+  type: EventType;
+  patterns: { source: string; regex: RegExp }[];
+};
+
+const compiled = new WeakMap<EventRule[], CompiledRule[]>();
+
+/** Invalid patterns are skipped here; validation reports them when saving. */
+function compile(rules: EventRule[]) {
+  const cached = compiled.get(rules);
+  if (cached) return cached;
+  const result = rules.map((rule) => ({
+    type: rule.type,
+    patterns: rule.patterns
+      .filter((pattern) => pattern.trim())
+      .flatMap((source) => {
+        try {
+          return [{ source, regex: compilePattern(source) }];
+        } catch {
+          return [];
+        }
+      }),
+  }));
+  compiled.set(rules, result);
+  return result;
+}
+
+/**
+ * Picks the event type whose patterns hit hardest, counting title hits twice.
+ * Items no pattern matches are left unclassified.
+ */
+export function classifyEvent(
+  item: Pick<ScoredNewsItem, "title" | "summary">,
+  rules: EventRule[],
+): ItemEvent | undefined {
+  const scored = compile(rules)
+    .map((rule) => {
+      const matched = rule.patterns.filter(({ regex }) =>
+        regex.test(`${item.title}\n${item.summary}`),
+      );
+      const points = matched.reduce(
+        (sum, { regex }) => sum + (regex.test(item.title) ? 2 : 1),
+        0,
+      );
+      return {
+        type: rule.type,
+        points,
+        matched: matched.map(({ source }) => source),
+      };
+    })
+    .filter((entry) => entry.points > 0)
+    .sort((a, b) => b.points - a.points);
+  const [best, runnerUp] = scored;
+  if (!best) return undefined;
+  return {
+    type: best.type,
+    confidence: evidenceConfidence(
+      best.points,
+      runnerUp?.points ?? 0,
+      SATURATION,
+    ),
+    matched: best.matched,
+  };
+}
+
+export function annotateEvent<T extends ScoredNewsItem>(
+  item: T,
+  rules: EventRule[],
+): T {
+  return { ...item, event: classifyEvent(item, rules) };
+}
+
+export function eventLabel(event: ItemEvent | undefined) {
+  return (
+    EVENT_TYPES.find((type) => type.id === event?.type)?.label ??
+    UNCLASSIFIED_EVENT_LABEL
+  );
+}
+
+export function describeEvent(event: ItemEvent | undefined) {
+  if (!event) return UNCLASSIFIED_EVENT_LABEL;
+  return `${eventLabel(event)} (${Math.round(event.confidence * 100)}%)`;
+}
@@ -0,0 +1,64 @@
+import {
+  companyRegistryStore,
+  entityDictionaryStore,
+} from "@/lib/bundled-stores";
+import {
+  LlmProvider,
+  QueryExpander,
+  createDictionaryExpander,
+  createLlmExpander,
+} from "@/lib/expansion";
+
+const LLM_TIMEOUT_MS = 30_000;
+
+/**
+ * An OpenAI-compatible chat completions endpoint, enabled by setting
+ * `EXPANSION_LLM_URL` (the full `/chat/completions` URL) and
+ * `EXPANSION_LLM_MODEL`; `EXPANSION_LLM_API_KEY` is sent as a bearer token.
+ */
+function configuredProvider(): LlmProvider | null {
+  const url = process.env.EXPANSION_LLM_URL?.trim();
+  const model = process.env.EXPANSION_LLM_MODEL?.trim();
+  if (!url || !model) return null;
+  const apiKey = process.env.EXPANSION_LLM_API_KEY?.trim();
+  return {
+    label: `Language model (${model})`,
+    complete: async (prompt, signal) => {
+      const timeout = AbortSignal.timeout(LLM_TIMEOUT_MS);
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          temperature: 0,
+          messages: [{ role: "user", content: prompt }],
+        }),
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+        cache: "no-store",
+      });
+      if (!response.ok) {
+        throw new Error(`Language model request failed (${response.status}).`);
+      }
+      const payload = (await response.json()) as {
+        choices?: { message?: { content?: string } }[];
+      };
+      return payload.choices?.[0]?.message?.content ?? "";
+    },
+  };
+}
+
+/** The dictionary expander always, plus the language model when configured. */
+export async function configuredExpanders(): Promise<QueryExpander[]> {
+  const [dictionary, registry] = await Promise.all([
+    entityDictionaryStore.read(),
+    companyRegistryStore.read(),
+  ]);
+  const provider = configuredProvider();
+  return [
+    createDictionaryExpander(dictionary, registry),
+    ...(provider ? [createLlmExpander(provider)] : []),
+  ];
+}
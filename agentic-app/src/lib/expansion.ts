@@ -0,0 +1,296 @@
+import {
+  CompanyEntry,
+  DEFAULT_COMPANY_REGISTRY,
+  companyNames,
+  findCompany,
+  matchRegistry,
+  subsidiariesOf,
+} from "@/lib/companies";
+import { EntityTerm, extractEntities } from "@/lib/entities";
+import {
+  AcceptedExpansion,
+  ExpansionKind,
+  KeywordHit,
+} from "@/lib/keyword-rules";
+import type { WeightedKeywordRow } from "@/lib/scoring";
+
+export type ExpansionProposal = {
+  term: string;
+  kind: ExpansionKind;
+  /** Why the expander thinks the term belongs with the keyword. */
+  reason: string;
+};
+
+/**
+ * Proposes related search terms for taxonomy rows. Rows are expanded in one
+ * call so remote expanders can batch them; the result holds one proposal
+ * list per row, in order.
+ */
+export type QueryExpander = {
+  id: string;
+  label: string;
+  expand: (
+    rows: WeightedKeywordRow[],
+    signal?: AbortSignal,
+  ) => Promise<ExpansionProposal[][]>;
+};
+
+/** A text-completion backend the LLM expander can run on. */
+export type LlmProvider = {
+  label: string;
+  complete: (prompt: string, signal?: AbortSignal) => Promise<string>;
+};
+
+export const EXPANSION_KINDS: { id: ExpansionKind; label: string }[] = [
+  { id: "inn", label: "INN" },
+  { id: "brand", label: "Brand" },
+  { id: "company", label: "Company alias" },
+  { id: "misspelling", label: "Spelling variant" },
+  { id: "related", label: "Related term" },
+];
+
+function sameTerm(a: string, b: string) {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/** Hyphen, spacing and doubled-letter variants analysts' sources often use. */
+function spellingVariants(term: string) {
+  const variants = new Set<string>();
+  if (term.includes("-")) {
+    variants.add(term.replace(/-/g, " "));
+    variants.add(term.replace(/-/g, ""));
+  }
+  if (/biosimilar/i.test(term)) {
+    variants.add(term.replace(/biosimilar/i, "bio-similar"));
+  }
+  if (!term.includes("-")) {
+    const collapsed = term.replace(/([a-z])\1/gi, "$1");
+    if (collapsed !== term) variants.add(collapsed);
+  }
+  variants.delete(term);
+  return Array.from(variants);
+}
+
+/**
+ * The default, offline expander: reads the entity dictionary for INNs and
+ * the brands that reference them, the company registry for aliases and
+ * subsidiaries, and simple spelling heuristics.
+ */
+export function createDictionaryExpander(
+  dictionary: EntityTerm[],
+  registry: CompanyEntry[] = DEFAULT_COMPANY_REGISTRY,
+): QueryExpander {
+  const byName = (name: string) =>
+    dictionary.find((term) => sameTerm(term.name, name));
+
+  function expandRow(row: WeightedKeywordRow) {
+    const proposals: ExpansionProposal[] = [];
+    const text = [row.keyword, ...(row.synonyms ?? [])].join("\n");
+    const propose = (term: string, kind: ExpansionKind, reason: string) => {
+      const named = text.toLowerCase().includes(term.toLowerCase());
+      if (
+        !named &&
+        !proposals.some((proposal) => sameTerm(proposal.term, term))
+      ) {
+        proposals.push({ term, kind, reason });
+      }
+    };
+    const entities = extractEntities(text, dictionary);
+
+    entities.brand?.forEach((brand) => {
+      const term = byName(brand);
+      if (term?.implies) {
+        propose(term.implies, "inn", `INN of ${brand}`);
+      }
+      term?.aliases?.forEach((alias) =>
+        propose(alias, "brand", `Other market name for ${brand}`),
+      );
+    });
+    entities.molecule?.forEach((molecule) => {
+      dictionary
+        .filter(
+          (term) =>
+            term.kind === "brand" &&
+            term.implies &&
+            sameTerm(term.implies, molecule),
+        )
+        .forEach((term) =>
+          propose(term.name, "brand", `Reference product for ${molecule}`),
+        );
+    });
+    entities.suffix?.forEach((name) => {
+      const molecule = name.replace(/-[a-z]{4}$/, "");
+      propose(molecule, "inn", `Core INN of ${name}`);
+    });
+
+    const companies = [
+      ...(row.companies ?? []),
+      ...matchRegistry(text, registry),
+    ];
+    companies.forEach((company) => {
+      const entry = findCompany(company, registry);
+      if (!entry) return;
+      companyNames(entry)
+        .filter((alias) => !sameTerm(alias, company))
+        .forEach((alias) =>
+          propose(alias, "company", `Also known as ${company}`),
+        );
+      subsidiariesOf(entry, registry).forEach((subsidiary) =>
+        propose(subsidiary.name, "company", `Part of ${entry.name}`),
+      );
+    });
+
+    [row.keyword, ...proposals.map((proposal) => proposal.term)]
+      .filter((term) => term.trim().length >= 6)
+      .forEach((term) =>
+        spellingVariants(term).forEach((variant) =>
+          propose(variant, "misspelling", `Variant of ${term}`),
+        ),
+      );
+    return proposals;
+  }
+
+  return {
+    id: "dictionary",
+    label: "Entity dictionary",
+    expand: async (rows) => rows.map(expandRow),
+  };
+}
+
+const KIND_IDS = new Set(EXPANSION_KINDS.map((kind) => kind.id));
+
+function buildPrompt(rows: WeightedKeywordRow[]) {
+  const lines = rows.map(
+    (row, index) =>
+      `${index + 1}. ${row.keyword}${
+        row.companies?.length ? ` (companies: ${row.companies.join(", ")})` : ""
+      }`,
+  );
+  return [
+    "You help a biosimilars market-intelligence team widen news searches.",
+    "For each numbered search keyword below, propose up to 8 related search terms:",
+    "INN names, brand names, company aliases, common misspellings or closely related terms.",
+    'Reply with JSON only: an array with one array per keyword, each entry {"term": string, "kind": "inn" | "brand" | "company" | "misspelling" | "related", "reason": string}.',
+    "",
+    ...lines,
+  ].join("\n");
+}
+
+/** Tolerates prose or code fences around the JSON the model was asked for. */
+function parseCompletion(text: string, rowCount: number) {
+  const start = text.indexOf("[");
+  const end = text.lastIndexOf("]");
+  if (start === -1 || end <= start) {
+    throw new Error("The language model did not return a JSON array.");
+  }
+  const parsed: unknown = JSON.parse(text.slice(start, end + 1));
+  if (!Array.isArray(parsed)) {
+    throw new Error("The language model did not return a JSON array.");
+  }
+  return Array.from({ length: rowCount }, (_, index) => {
+    const entries: unknown[] = Array.isArray(parsed[index])
+      ? parsed[index]
+      : [];
+    return entries.flatMap((entry): ExpansionProposal[] => {
+      const candidate = entry as Partial<ExpansionProposal> | null;
+      if (!candidate || typeof candidate.term !== "string") return [];
+      const term = candidate.term.trim();
+      if (!term) return [];
+      return [
+        {
+          term,
+          kind:
+            candidate.kind && KIND_IDS.has(candidate.kind)
+              ? candidate.kind
+              : "related",
+          reason:
+            typeof candidate.reason === "string" && candidate.reason.trim()
+              ? candidate.reason.trim()
+              : "Suggested by the language model",
+        },
+      ];
+    });
+  });
+}
+
+export function createLlmExpander(provider: LlmProvider): QueryExpander {
+  return {
+    id: "llm",
+    label: provider.label,
+    expand: async (rows, signal) => {
+      if (rows.length === 0) return [];
+      const completion = await provider.complete(buildPrompt(rows), signal);
+      return parseCompletion(completion, rows.length);
+    },
+  };
+}
+
+function known(row: WeightedKeywordRow) {
+  return [
+    row.keyword,
+    ...(row.synonyms ?? []),
+    ...(row.expansions ?? []).map((expansion) => expansion.term),
+    ...(row.rejectedExpansions ?? []),
+  ];
+}
+
+/**
+ * Runs an expander and drops proposals the row already has, accepted or
+ * rejected, along with duplicates.
+ */
+export async function proposeExpansions(
+  expander: QueryExpander,
+  rows: WeightedKeywordRow[],
+  signal?: AbortSignal,
+) {
+  const proposals = await expander.expand(rows, signal);
+  return rows.map((row, index) => {
+    const seen = known(row);
+    return (proposals[index] ?? []).filter((proposal) => {
+      if (seen.some((term) => sameTerm(term, proposal.term))) return false;
+      seen.push(proposal.term);
+      return true;
+    });
+  });
+}
+
+/** Folds an analyst's review into the row: accepted terms join its expansions. */
+export function applyReview(
+  row: WeightedKeywordRow,
+  expander: string,
+  accepted: ExpansionProposal[],
+  rejected: ExpansionProposal[],
+): WeightedKeywordRow {
+  const expansions: AcceptedExpansion[] = [
+    ...(row.expansions ?? []),
+    ...accepted.map(({ term, kind }) => ({ term, kind, expander })),
+  ];
+  const rejectedExpansions = [
+    ...(row.rejectedExpansions ?? []),
+    ...rejected.map((proposal) => proposal.term),
+  ];
+  return {
+    ...row,
+    ...(expansions.length > 0 ? { expansions } : {}),
+    ...(rejectedExpansions.length > 0 ? { rejectedExpansions } : {}),
+  };
+}
+
+export function describeKeywordHit(hit: KeywordHit) {
+  switch (hit.via) {
+    case "keyword":
+      return "Matched the keyword";
+    case "synonym":
+      return `Matched synonym "${hit.term}"`;
+    case "expansion": {
+      const kind =
+        EXPANSION_KINDS.find((entry) => entry.id === hit.expansion?.kind)
+          ?.label ?? "Expansion";
+      return `Matched ${kind.toLowerCase()} "${hit.term}" from the ${hit.expansion?.expander ?? "unknown"} expander`;
+    }
+    case "query":
+      return `Matched query ${hit.term}`;
+    case "source":
+      return "Returned by the search engine for this keyword";
+  }
+}
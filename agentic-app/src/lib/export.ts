@@ -0,0 +1,197 @@
+import { format } from "date-fns";
+import * as XLSX from "xlsx";
+import { ConsolidatedNewsItem } from "@/lib/types";
+import {
+  ExportColumn,
+  UNCATEGORIZED_LABEL,
+  getColumnLabel,
+  getColumnValue,
+} from "@/lib/columns";
+import { Taxonomy, flattenTaxonomy, splitPath } from "@/lib/taxonomy";
+
+type CategorySummary = {
+  category: string;
+  count: number;
+  averageAuthentic: number;
+  averageImpact: number;
+};
+
+export function toExportRows(
+  items: ConsolidatedNewsItem[],
+  columns: ExportColumn[],
+) {
+  return items.map((item) => {
+    const row: Record<string, string | number> = {};
+    columns.forEach((column) => {
+      row[getColumnLabel(column)] = getColumnValue(item, column);
+    });
+    return row;
+  });
+}
+
+export function groupBySopCategory(items: ConsolidatedNewsItem[]) {
+  const groups = new Map<string, ConsolidatedNewsItem[]>();
+  items.forEach((item) => {
+    const category = item.sopCategory?.trim() || UNCATEGORIZED_LABEL;
+    const bucket = groups.get(category) ?? [];
+    bucket.push(item);
+    groups.set(category, bucket);
+  });
+  return groups;
+}
+
+function average(values: number[]) {
+  if (values.length === 0) return 0;
+  const total = values.reduce((sum, value) => sum + value, 0);
+  return Math.round((total / values.length) * 10) / 10;
+}
+
+function summarize(
+  category: string,
+  items: ConsolidatedNewsItem[],
+): CategorySummary {
+  return {
+    category,
+    count: items.length,
+    averageAuthentic: average(items.map((item) => item.authenticScore)),
+    averageImpact: average(items.map((item) => item.marketImpactScore)),
+  };
+}
+
+/**
+ * Excel caps sheet names at 31 characters and rejects a handful of
+ * punctuation marks, so category labels are sanitised and de-duplicated.
+ */
+function toSheetName(label: string, used: Set<string>) {
+  const base = label.replace(/[\\/?*[\]:]/g, " ").trim().slice(0, 31) || "Sheet";
+  let candidate = base;
+  let suffix = 2;
+  while (used.has(candidate.toLowerCase())) {
+    const tag = ` (${suffix})`;
+    candidate = `${base.slice(0, 31 - tag.length)}${tag}`;
+    suffix += 1;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+export function buildNewsletterWorkbook(
+  items: ConsolidatedNewsItem[],
+  columns: ExportColumn[],
+) {
+  const workbook = XLSX.utils.book_new();
+  const usedNames = new Set<string>();
+  const groups = groupBySopCategory(items);
+
+  const summaries = Array.from(groups.entries()).map(([category, bucket]) =>
+    summarize(category, bucket),
+  );
+  const overall = summarize("All categories", items);
+  const summarySheet = XLSX.utils.json_to_sheet(
+    [...summaries, overall].map((entry) => ({
+      "SOP Category": entry.category,
+      Items: entry.count,
+      "Avg Authentic Score": entry.averageAuthentic,
+      "Avg Market Impact Score": entry.averageImpact,
+    })),
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    summarySheet,
+    toSheetName("Summary", usedNames),
+  );
+
+  groups.forEach((bucket, category) => {
+    const sheet = XLSX.utils.json_to_sheet(toExportRows(bucket, columns), {
+      header: columns.map(getColumnLabel),
+    });
+    XLSX.utils.book_append_sheet(
+      workbook,
+      sheet,
+      toSheetName(category, usedNames),
+    );
+  });
+
+  return workbook;
+}
+
+export function buildNewsletterCsv(
+  items: ConsolidatedNewsItem[],
+  columns: ExportColumn[],
+) {
+  const sheet = XLSX.utils.json_to_sheet(toExportRows(items, columns), {
+    header: columns.map(getColumnLabel),
+  });
+  return XLSX.utils.sheet_to_csv(sheet);
+}
+
+export function exportFileName(extension: "xlsx" | "csv" | "html" | "md") {
+  return `biosimilar-newsletter-${format(new Date(), "yyyy-MM-dd")}.${extension}`;
+}
+
+export function downloadNewsletterWorkbook(
+  items: ConsolidatedNewsItem[],
+  columns: ExportColumn[],
+) {
+  XLSX.writeFile(buildNewsletterWorkbook(items, columns), exportFileName("xlsx"));
+}
+
+/**
+ * One row per SOP category with its path spread over Level columns, and the
+ * business categories on a second sheet; the layout the taxonomy import reads.
+ */
+export function buildTaxonomyWorkbook(taxonomy: Taxonomy) {
+  const workbook = XLSX.utils.book_new();
+  const entries = flattenTaxonomy(taxonomy.sopCategories);
+  const depth = Math.max(1, ...entries.map((entry) => entry.depth + 1));
+  const levels = Array.from(
+    { length: depth },
+    (_, index) => `Level ${index + 1}`,
+  );
+  const sopSheet = XLSX.utils.json_to_sheet(
+    entries.map((entry) => {
+      const row: Record<string, string> = {};
+      splitPath(entry.path).forEach((name, index) => {
+        row[levels[index]] = name;
+      });
+      return row;
+    }),
+    { header: levels },
+  );
+  XLSX.utils.book_append_sheet(workbook, sopSheet, "SOP Categories");
+  const businessSheet = XLSX.utils.json_to_sheet(
+    taxonomy.businessCategories.map((name) => ({ "Business Category": name })),
+    { header: ["Business Category"] },
+  );
+  XLSX.utils.book_append_sheet(workbook, businessSheet, "Business Categories");
+  return workbook;
+}
+
+export function downloadTaxonomyWorkbook(taxonomy: Taxonomy) {
+  XLSX.writeFile(
+    buildTaxonomyWorkbook(taxonomy),
+    `sop-taxonomy-${format(new Date(), "yyyy-MM-dd")}.xlsx`,
+  );
+}
+
+export function downloadBlob(content: string, type: string, fileName: string) {
+  const blob = new Blob([content], { type });
+  const href = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = href;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL(href);
+}
+
+export function downloadNewsletterCsv(
+  items: ConsolidatedNewsItem[],
+  columns: ExportColumn[],
+) {
+  // Leading BOM so Excel opens the file as UTF-8 instead of the system codepage.
+  downloadBlob(
+    `\ufeff${buildNewsletterCsv(items, columns)}`,
+    "text/csv;charset=utf-8",
+    exportFileName("csv"),
+  );
+}
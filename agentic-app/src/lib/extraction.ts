@@ -0,0 +1,159 @@
+import { format, isValid, parse } from "date-fns";
+import { FeedEntry } from "@/lib/feeds";
+import {
+  HtmlElement,
+  SelectorError,
+  parseHtml,
+  parseSelector,
+  selectAll,
+  selectOne,
+  textContent,
+} from "@/lib/html";
+
+/** Selectors applied to an HTML listing page; field selectors are relative to each container. */
+export type ExtractionRules = {
+  container: string;
+  title: string;
+  /** Element carrying the href; defaults to the first link in the item. */
+  link?: string;
+  date?: string;
+  summary?: string;
+  /** date-fns pattern such as `MMMM d, yyyy`; free-form parsing when unset. */
+  dateFormat?: string;
+};
+
+export type ExtractionResult = {
+  containerCount: number;
+  entries: FeedEntry[];
+};
+
+export const RULE_FIELDS: (keyof ExtractionRules)[] = [
+  "container",
+  "title",
+  "link",
+  "date",
+  "summary",
+];
+
+export function hasRules(
+  rules: ExtractionRules | undefined,
+): rules is ExtractionRules {
+  return Boolean(rules?.container.trim() && rules.title.trim());
+}
+
+/**
+ * date-fns throws on patterns it cannot use, such as `DD/MM/YYYY` or an
+ * unescaped letter, so a pattern is tried once before it is accepted.
+ */
+function dateFormatProblem(dateFormat: string) {
+  try {
+    format(new Date(2024, 0, 15), dateFormat);
+    parse("", dateFormat, new Date());
+    return undefined;
+  } catch {
+    return "Unsupported date format; use date-fns tokens such as dd/MM/yyyy.";
+  }
+}
+
+/** Returns a message per missing or invalid selector or date format, keyed by rule field. */
+export function validateRules(rules: ExtractionRules) {
+  const errors: Partial<Record<keyof ExtractionRules, string>> = {};
+  RULE_FIELDS.forEach((field) => {
+    const selector = rules[field]?.trim();
+    if (!selector) {
+      if (field === "container" || field === "title") {
+        errors[field] = "Required.";
+      }
+      return;
+    }
+    try {
+      parseSelector(selector);
+    } catch (error) {
+      errors[field] =
+        error instanceof SelectorError ? error.message : "Invalid selector.";
+    }
+  });
+  const dateFormat = rules.dateFormat?.trim();
+  const problem = dateFormat ? dateFormatProblem(dateFormat) : undefined;
+  if (problem) errors.dateFormat = problem;
+  return errors;
+}
+
+/** Unparseable dates, including ones a bad pattern cannot read, leave the item undated. */
+function parseDate(value: string, dateFormat?: string) {
+  const text = value.trim();
+  if (!text) return undefined;
+  try {
+    const date = dateFormat
+      ? parse(text, dateFormat, new Date())
+      : new Date(text);
+    return isValid(date) ? date.toISOString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function findLink(
+  item: HtmlElement,
+  title: HtmlElement,
+  rules: ExtractionRules,
+) {
+  const candidate = rules.link?.trim() ? selectOne(item, rules.link) : null;
+  let anchor = candidate ?? title;
+  while (anchor !== item && anchor.tag !== "a" && anchor.parent) {
+    anchor = anchor.parent;
+  }
+  if (anchor.attrs.href) return anchor.attrs.href;
+  const scope = candidate ?? item;
+  return (
+    [scope, ...selectAll(scope, "a[href]")].find(
+      (element) => element.tag === "a" && element.attrs.href,
+    )?.attrs.href ?? ""
+  );
+}
+
+function readDate(item: HtmlElement, rules: ExtractionRules) {
+  if (!rules.date?.trim()) return undefined;
+  const element = selectOne(item, rules.date);
+  if (!element) return undefined;
+  // <time datetime> is machine readable; prefer it over the display text.
+  const machine = element.attrs.datetime || element.attrs.content;
+  return (
+    (machine && parseDate(machine)) ||
+    parseDate(textContent(element), rules.dateFormat)
+  );
+}
+
+/**
+ * Applies extraction rules to a listing page. Items without a title or link
+ * are skipped rather than failing the page.
+ */
+export function extractWithRules(
+  html: string,
+  baseUrl: string,
+  rules: ExtractionRules,
+): ExtractionResult {
+  const containers = selectAll(parseHtml(html), rules.container);
+  const entries = containers.flatMap((item) => {
+    const title = selectOne(item, rules.title);
+    if (!title) return [];
+    const href = findLink(item, title, rules);
+    let url = "";
+    try {
+      url = href ? new URL(href, baseUrl).toString() : "";
+    } catch {
+      url = "";
+    }
+    const summaryElement = rules.summary?.trim()
+      ? selectOne(item, rules.summary)
+      : null;
+    const entry: FeedEntry = {
+      title: textContent(title),
+      url,
+      summary: summaryElement ? textContent(summaryElement) : "",
+      publishedAt: readDate(item, rules),
+    };
+    return entry.title && entry.url ? [entry] : [];
+  });
+  return { containerCount: containers.length, entries };
+}
@@ -0,0 +1,189 @@
+import { TargetType } from "@/lib/targets";
+
+export type FeedEntry = {
+  title: string;
+  url: string;
+  summary: string;
+  publishedAt?: string;
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+// Numeric entities past the last Unicode code point are left as written.
+const MAX_CODE_POINT = 0x10ffff;
+
+export function decodeEntities(value: string) {
+  return value.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, code: string) => {
+    if (code[0] === "#") {
+      const point =
+        code[1].toLowerCase() === "x"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return point <= MAX_CODE_POINT ? String.fromCodePoint(point) : match;
+    }
+    return ENTITIES[code.toLowerCase()] ?? match;
+  });
+}
+
+/** Feeds often entity-escape their HTML, so tags are stripped again after decoding. */
+export function stripTags(value: string) {
+  return decodeEntities(value.replace(/<[^>]*>/g, " "))
+    .replace(/<[^>]*>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function unwrapCdata(value: string) {
+  return value.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1");
+}
+
+function readTag(block: string, names: string[]) {
+  for (const name of names) {
+    const match = block.match(
+      new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, "i"),
+    );
+    if (match) return unwrapCdata(match[1]).trim();
+  }
+  return "";
+}
+
+/** Atom links carry the URL in `href`; prefer rel="alternate" when present. */
+function readAtomLink(block: string) {
+  const links = Array.from(block.matchAll(/<link\b([^>]*?)\/?>/gi)).map(
+    (match) => match[1],
+  );
+  const alternate =
+    links.find((attrs) => /rel=["']alternate["']/i.test(attrs)) ??
+    links.find((attrs) => !/rel=/i.test(attrs)) ??
+    links[0];
+  return alternate?.match(/href=["']([^"']+)["']/i)?.[1] ?? "";
+}
+
+function toIsoDate(value: string) {
+  if (!value) return undefined;
+  const date = new Date(value.trim());
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function resolveUrl(value: string, baseUrl: string) {
+  try {
+    return new URL(decodeEntities(value.trim()), baseUrl).toString();
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Sniffs what a fetched document actually is from its root element, which is
+ * more reliable than the URL or the (often generic) content type.
+ */
+export function detectDocumentType(body: string): TargetType | null {
+  const head = body
+    .slice(0, 4000)
+    .replace(/<\?xml[\s\S]*?\?>/, "")
+    .replace(/<!--[\s\S]*?-->/g, "");
+  if (/<(rss|rdf:RDF)\b/i.test(head)) return "rss";
+  if (/<feed\b/i.test(head)) return "atom";
+  if (/<(urlset|sitemapindex)\b/i.test(head)) return "sitemap";
+  if (/<(!doctype html|html)\b/i.test(head)) return "html";
+  return null;
+}
+
+export function isFeedDocument(body: string) {
+  const type = detectDocumentType(body);
+  return type === "rss" || type === "atom";
+}
+
+/**
+ * Minimal RSS 2.0 / RSS 1.0 / Atom reader. RSS dates come from `pubDate` (or
+ * `dc:date`); Atom prefers `published` and falls back to `updated`. Relative
+ * links are resolved against the feed URL; entries without a title or link
+ * are dropped.
+ */
+export function parseFeed(body: string, baseUrl: string): FeedEntry[] {
+  const blocks = Array.from(
+    body.matchAll(/<(item|entry)\b[^>]*>([\s\S]*?)<\/\1>/gi),
+  );
+  return blocks
+    .map(([, tag, block]) => {
+      const isAtom = tag.toLowerCase() === "entry";
+      return {
+        title: stripTags(readTag(block, ["title"])),
+        url: resolveUrl(
+          isAtom ? readAtomLink(block) : readTag(block, ["link", "guid"]),
+          baseUrl,
+        ),
+        summary: stripTags(
+          readTag(
+            block,
+            isAtom
+              ? ["summary", "content"]
+              : ["description", "content:encoded"],
+          ),
+        ),
+        publishedAt: toIsoDate(
+          readTag(
+            block,
+            isAtom
+              ? ["published", "updated", "dc:date"]
+              : ["pubDate", "dc:date"],
+          ),
+        ),
+      };
+    })
+    .filter((entry) => entry.title && entry.url);
+}
+
+/** Sitemaps rarely carry titles, so one is derived from the last path segment. */
+function titleFromUrl(url: string) {
+  try {
+    const segment = new URL(url).pathname.split("/").filter(Boolean).pop();
+    if (!segment) return "";
+    const words = decodeURIComponent(segment)
+      .replace(/\.[a-z0-9]+$/i, "")
+      .replace(/[-_]+/g, " ")
+      .trim();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  } catch {
+    return "";
+  }
+}
+
+export type SitemapDocument = {
+  entries: FeedEntry[];
+  /** Child sitemaps listed by a sitemap index. */
+  sitemaps: string[];
+};
+
+/**
+ * Reads a `urlset` (including Google News `news:` extensions) or a
+ * `sitemapindex`, whose children the caller may fetch in turn.
+ */
+export function parseSitemap(body: string, baseUrl: string): SitemapDocument {
+  const sitemaps = Array.from(
+    body.matchAll(/<sitemap\b[^>]*>([\s\S]*?)<\/sitemap>/gi),
+  )
+    .map(([, block]) => resolveUrl(readTag(block, ["loc"]), baseUrl))
+    .filter(Boolean);
+  const entries = Array.from(body.matchAll(/<url\b[^>]*>([\s\S]*?)<\/url>/gi))
+    .map(([, block]) => {
+      const url = resolveUrl(readTag(block, ["loc"]), baseUrl);
+      return {
+        title: stripTags(readTag(block, ["news:title"])) || titleFromUrl(url),
+        url,
+        summary: "",
+        publishedAt: toIsoDate(
+          readTag(block, ["news:publication_date", "lastmod"]),
+        ),
+      };
+    })
+    .filter((entry) => entry.title && entry.url);
+  return { entries, sitemaps };
+}
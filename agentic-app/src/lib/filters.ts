@@ -0,0 +1,42 @@
+export type FiltersState = {
+  keyword: string;
+  company: string;
+  /** Registry group: the company at the top of a parent chain. */
+  companyGroup: string;
+  molecule: string;
+  brand: string;
+  regulator: string;
+  jurisdiction: string;
+  searchTerm: string;
+  /** "history" searches every item the workspace has collected, not just the last run. */
+  searchScope: "run" | "history";
+  minAuthentic: number;
+  minImpact: number;
+  timeWindow: "all" | "24h" | "3d" | "7d";
+  /** "active" hides dismissed items; "new" keeps only first sightings. */
+  lifecycle: "active" | "new" | "all";
+};
+
+/** Entity kinds offered as filters, each keyed by the filter field of the same name. */
+export const ENTITY_FILTER_KINDS = [
+  "molecule",
+  "brand",
+  "regulator",
+  "jurisdiction",
+] as const;
+
+export const EMPTY_FILTERS: FiltersState = {
+  keyword: "all",
+  company: "all",
+  companyGroup: "all",
+  molecule: "all",
+  brand: "all",
+  regulator: "all",
+  jurisdiction: "all",
+  searchTerm: "",
+  searchScope: "run",
+  minAuthentic: 0,
+  minImpact: 0,
+  timeWindow: "all",
+  lifecycle: "active",
+};
@@ -0,0 +1,24 @@
+import { format } from "date-fns";
+import { TimeRangeOption } from "@/lib/types";
+
+const PRESET_LABELS: Record<Exclude<TimeRangeOption["preset"], "custom">, string> = {
+  "24h": "Last 24 hours",
+  "3d": "Last 3 days",
+  "7d": "Last 7 days",
+  "30d": "Last 30 days",
+};
+
+export function formatDate(value: string) {
+  try {
+    return format(new Date(value), "MMM d, yyyy HH:mm");
+  } catch {
+    return value;
+  }
+}
+
+export function describeTimeRange(timeRange: TimeRangeOption) {
+  if (timeRange.preset === "custom") {
+    return `${formatDate(timeRange.from)} – ${formatDate(timeRange.to)}`;
+  }
+  return PRESET_LABELS[timeRange.preset];
+}
@@ -0,0 +1,333 @@
+import { decodeEntities } from "@/lib/feeds";
+
+export type HtmlElement = {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+};
+
+export type HtmlText = { tag: "#text"; text: string };
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+const VOID_TAGS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+const RAW_TEXT_TAGS = new Set(["script", "style", "noscript", "template"]);
+
+// Opening one of these closes an open sibling of the same kind, as browsers do.
+const SELF_CLOSING_SIBLINGS = new Set([
+  "li",
+  "p",
+  "dt",
+  "dd",
+  "tr",
+  "td",
+  "th",
+  "option",
+]);
+
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\/?([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>|[^<]+|</g;
+
+const ATTR_PATTERN =
+  /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+function parseAttrs(source: string) {
+  const attrs: Record<string, string> = {};
+  for (const match of Array.from(source.matchAll(ATTR_PATTERN))) {
+    attrs[match[1].toLowerCase()] = decodeEntities(
+      match[2] ?? match[3] ?? match[4] ?? "",
+    );
+  }
+  return attrs;
+}
+
+/**
+ * Forgiving HTML tree builder: good enough for listing pages, not a full
+ * HTML5 parser. Scripts, styles and comments are dropped and unmatched
+ * closing tags are ignored.
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = {
+    tag: "#root",
+    attrs: {},
+    children: [],
+    parent: null,
+  };
+  let current = root;
+  let rawText: string | null = null;
+
+  for (const match of Array.from(html.matchAll(TOKEN_PATTERN))) {
+    const [token, name, attrSource, selfClosing] = match;
+    const tag = name?.toLowerCase();
+
+    if (rawText) {
+      if (tag === rawText && token.startsWith("</")) rawText = null;
+      continue;
+    }
+    if (!tag) {
+      if (!token.startsWith("<!")) {
+        current.children.push({ tag: "#text", text: decodeEntities(token) });
+      }
+      continue;
+    }
+
+    if (token.startsWith("</")) {
+      let open: HtmlElement | null = current;
+      while (open && open.tag !== tag) open = open.parent;
+      if (open?.parent) current = open.parent;
+      continue;
+    }
+
+    if (
+      SELF_CLOSING_SIBLINGS.has(tag) &&
+      current.tag === tag &&
+      current.parent
+    ) {
+      current = current.parent;
+    }
+    const element: HtmlElement = {
+      tag,
+      attrs: parseAttrs(attrSource ?? ""),
+      children: [],
+      parent: current,
+    };
+    current.children.push(element);
+    if (RAW_TEXT_TAGS.has(tag)) {
+      rawText = tag;
+    } else if (!VOID_TAGS.has(tag) && !selfClosing) {
+      current = element;
+    }
+  }
+  return root;
+}
+
+export function isElement(node: HtmlNode): node is HtmlElement {
+  return node.tag !== "#text";
+}
+
+/** Stacks the element's children so they pop off in document order. */
+function pushChildren(stack: HtmlNode[], element: HtmlElement) {
+  for (let index = element.children.length - 1; index >= 0; index -= 1) {
+    stack.push(element.children[index]);
+  }
+}
+
+/**
+ * Visits the elements under `scope` in document order. Returning false skips
+ * an element's children. The walk keeps its own stack, so the endless nesting
+ * of unclosed tags on a broken page cannot overflow the call stack.
+ */
+export function walkElements(
+  scope: HtmlElement,
+  visit: (element: HtmlElement) => boolean | void,
+) {
+  const stack: HtmlNode[] = [];
+  pushChildren(stack, scope);
+  for (let node = stack.pop(); node; node = stack.pop()) {
+    if (isElement(node) && visit(node) !== false) pushChildren(stack, node);
+  }
+}
+
+export function textContent(node: HtmlNode): string {
+  if (!isElement(node)) return node.text;
+  const texts: string[] = [];
+  const stack: HtmlNode[] = [node];
+  for (let next = stack.pop(); next; next = stack.pop()) {
+    if (isElement(next)) pushChildren(stack, next);
+    else texts.push(next.text);
+  }
+  return texts.join(" ").replace(/\s+/g, " ").trim();
+}
+
+export class SelectorError extends Error {
+  constructor(selector: string, reason: string) {
+    super(`Invalid selector "${selector}": ${reason}`);
+    this.name = "SelectorError";
+  }
+}
+
+type AttributeTest = {
+  name: string;
+  operator?: "=" | "~=" | "^=" | "$=" | "*=";
+  value?: string;
+};
+
+type Compound = {
+  tag?: string;
+  id?: string;
+  classes: string[];
+  attributes: AttributeTest[];
+  pseudos: ("first-child" | "last-child")[];
+};
+
+type Step = { combinator: " " | ">"; compound: Compound };
+
+const COMPOUND_PATTERN =
+  /^(\*|[a-zA-Z][\w-]*)?((?:#[\w-]+|\.[\w-]+|\[[^\]]+\]|:[\w-]+)*)$/;
+
+function parseCompound(source: string, selector: string): Compound {
+  const match = source ? source.match(COMPOUND_PATTERN) : null;
+  if (!match) throw new SelectorError(selector, `cannot read "${source}"`);
+  const compound: Compound = {
+    tag: match[1] && match[1] !== "*" ? match[1].toLowerCase() : undefined,
+    classes: [],
+    attributes: [],
+    pseudos: [],
+  };
+  const parts = match[2].match(/#[\w-]+|\.[\w-]+|\[[^\]]+\]|:[\w-]+/g) ?? [];
+  for (const part of parts) {
+    if (part[0] === "#") compound.id = part.slice(1);
+    else if (part[0] === ".") compound.classes.push(part.slice(1));
+    else if (part[0] === ":") {
+      const pseudo = part.slice(1);
+      if (pseudo !== "first-child" && pseudo !== "last-child") {
+        throw new SelectorError(
+          selector,
+          `unsupported pseudo-class :${pseudo}`,
+        );
+      }
+      compound.pseudos.push(pseudo);
+    } else {
+      const attr = part
+        .slice(1, -1)
+        .match(
+          /^\s*([\w-]+)\s*(?:([~^$*]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\s]+)))?\s*$/,
+        );
+      if (!attr) throw new SelectorError(selector, `cannot read ${part}`);
+      compound.attributes.push({
+        name: attr[1].toLowerCase(),
+        operator: attr[2] as AttributeTest["operator"],
+        value: attr[3] ?? attr[4] ?? attr[5],
+      });
+    }
+  }
+  return compound;
+}
+
+/**
+ * Supports the selector subset extraction rules need: type, `#id`, `.class`,
+ * attribute tests, `:first-child`/`:last-child`, descendant and `>` child
+ * combinators, and comma-separated groups.
+ */
+export function parseSelector(selector: string): Step[][] {
+  const groups = selector.split(",").map((group) => group.trim());
+  if (groups.some((group) => group.length === 0)) {
+    throw new SelectorError(selector, "empty selector");
+  }
+  return groups.map((group) => {
+    const tokens = group
+      .replace(/\s*>\s*/g, " > ")
+      .trim()
+      .split(/\s+/);
+    const steps: Step[] = [];
+    let combinator: Step["combinator"] = " ";
+    for (const token of tokens) {
+      if (token === ">") {
+        if (steps.length === 0 || combinator === ">") {
+          throw new SelectorError(selector, "misplaced >");
+        }
+        combinator = ">";
+        continue;
+      }
+      steps.push({ combinator, compound: parseCompound(token, selector) });
+      combinator = " ";
+    }
+    if (combinator === ">") throw new SelectorError(selector, "dangling >");
+    return steps;
+  });
+}
+
+function elementSiblings(element: HtmlElement) {
+  return element.parent?.children.filter(isElement) ?? [element];
+}
+
+function matchesAttribute(element: HtmlElement, test: AttributeTest) {
+  const actual = element.attrs[test.name];
+  if (actual === undefined) return false;
+  if (!test.operator || test.value === undefined) return true;
+  switch (test.operator) {
+    case "=":
+      return actual === test.value;
+    case "~=":
+      return actual.split(/\s+/).includes(test.value);
+    case "^=":
+      return actual.startsWith(test.value);
+    case "$=":
+      return actual.endsWith(test.value);
+    case "*=":
+      return actual.includes(test.value);
+  }
+}
+
+function matchesCompound(element: HtmlElement, compound: Compound) {
+  if (compound.tag && element.tag !== compound.tag) return false;
+  if (compound.id && element.attrs.id !== compound.id) return false;
+  const classes = (element.attrs.class ?? "").split(/\s+/);
+  if (compound.classes.some((name) => !classes.includes(name))) return false;
+  if (!compound.attributes.every((test) => matchesAttribute(element, test))) {
+    return false;
+  }
+  return compound.pseudos.every((pseudo) => {
+    const siblings = elementSiblings(element);
+    return pseudo === "first-child"
+      ? siblings[0] === element
+      : siblings[siblings.length - 1] === element;
+  });
+}
+
+/** Matches right to left, walking up the tree no higher than `scope`. */
+function matchesSteps(
+  element: HtmlElement,
+  steps: Step[],
+  index: number,
+  scope: HtmlElement,
+): boolean {
+  if (!matchesCompound(element, steps[index].compound)) return false;
+  if (index === 0) return true;
+  const { combinator } = steps[index];
+  let ancestor = element.parent;
+  while (ancestor && ancestor !== scope) {
+    if (matchesSteps(ancestor, steps, index - 1, scope)) return true;
+    if (combinator === ">") return false;
+    ancestor = ancestor.parent;
+  }
+  return false;
+}
+
+function descendants(scope: HtmlElement) {
+  const elements: HtmlElement[] = [];
+  walkElements(scope, (element) => {
+    elements.push(element);
+  });
+  return elements;
+}
+
+/** Elements under `scope` matching `selector`, in document order. */
+export function selectAll(scope: HtmlElement, selector: string) {
+  const groups = parseSelector(selector);
+  return descendants(scope).filter((element) =>
+    groups.some((steps) =>
+      matchesSteps(element, steps, steps.length - 1, scope),
+    ),
+  );
+}
+
+export function selectOne(scope: HtmlElement, selector: string) {
+  return selectAll(scope, selector)[0] ?? null;
+}
@@ -0,0 +1,120 @@
+import { createHash } from "node:crypto";
+import { itemIdentity } from "@/lib/items";
+import { workspaceScope } from "@/lib/lifecycle";
+import type { ScoredNewsItem } from "@/lib/scoring";
+import {
+  IndexedBodies,
+  SearchIndex,
+  emptySearchIndex,
+  indexItem,
+} from "@/lib/search-index";
+import { readJson, serialize, writeJson } from "@/lib/store";
+import { CategoryChange, recategorize } from "@/lib/taxonomy";
+
+/** Item bodies are spread over this many files, so a run rewrites only those it touches. */
+const SHARD_COUNT = 16;
+
+function indexName(workspaceId: string | null) {
+  return `search-index/${workspaceScope(workspaceId)}`;
+}
+
+function postingsName(workspaceId: string | null) {
+  return `${indexName(workspaceId)}/postings`;
+}
+
+function shardName(workspaceId: string | null, shard: number) {
+  return `${indexName(workspaceId)}/items-${shard}`;
+}
+
+function shardOf(identity: string) {
+  const hash = createHash("sha1").update(identity).digest();
+  return hash[0] % SHARD_COUNT;
+}
+
+/** The workspace's index, or null when nothing has been indexed yet. */
+export function readSearchIndex(workspaceId: string | null) {
+  return readJson<SearchIndex | null>(postingsName(workspaceId), null);
+}
+
+/** Stored bodies of the given items, reading only the shards that hold them. */
+export async function readIndexedBodies(
+  workspaceId: string | null,
+  identities: string[],
+) {
+  const shards = Array.from(new Set(identities.map(shardOf)));
+  const loaded = await Promise.all(
+    shards.map((shard) =>
+      readJson<IndexedBodies>(shardName(workspaceId, shard), {}),
+    ),
+  );
+  const bodies: IndexedBodies = {};
+  identities.forEach((identity) => {
+    const item = loaded[shards.indexOf(shardOf(identity))][identity];
+    if (item) bodies[identity] = item;
+  });
+  return bodies;
+}
+
+/**
+ * Adds batches of items, such as a run's results, to the workspace's index.
+ * The postings are updated in place and only the shards holding the batch's
+ * items are rewritten; postings are written last, so an interrupted update
+ * never points at a missing body.
+ */
+export function indexWorkspaceItems(
+  workspaceId: string | null,
+  batches: { items: ScoredNewsItem[]; seenAt: string }[],
+) {
+  return serialize(indexName(workspaceId), async () => {
+    const index = (await readSearchIndex(workspaceId)) ?? emptySearchIndex();
+    const shards = new Map<number, IndexedBodies>();
+    for (const batch of batches) {
+      for (const item of batch.items) {
+        const shard = shardOf(itemIdentity(item));
+        let bodies = shards.get(shard);
+        if (!bodies) {
+          bodies = await readJson<IndexedBodies>(
+            shardName(workspaceId, shard),
+            {},
+          );
+          shards.set(shard, bodies);
+        }
+        indexItem(index, bodies, item, batch.seenAt);
+      }
+    }
+    for (const [shard, bodies] of Array.from(shards)) {
+      await writeJson(shardName(workspaceId, shard), bodies);
+    }
+    await writeJson(postingsName(workspaceId), index);
+    return index;
+  });
+}
+
+/**
+ * Carries a taxonomy rename or merge into the indexed items. Returns how
+ * many items changed. Item text is untouched, so the postings stay as they
+ * are.
+ */
+export async function recategorizeIndexedItems(
+  workspaceId: string | null,
+  change: CategoryChange,
+) {
+  if (!(await readSearchIndex(workspaceId))) return 0;
+  return serialize(indexName(workspaceId), async () => {
+    let changed = 0;
+    for (let shard = 0; shard < SHARD_COUNT; shard += 1) {
+      const name = shardName(workspaceId, shard);
+      const bodies = await readJson<IndexedBodies>(name, {});
+      let shardChanged = false;
+      Object.entries(bodies).forEach(([identity, item]) => {
+        const updated = recategorize(item, change);
+        if (updated === item) return;
+        bodies[identity] = updated;
+        shardChanged = true;
+        changed += 1;
+      });
+      if (shardChanged) await writeJson(name, bodies);
+    }
+    return changed;
+  });
+}
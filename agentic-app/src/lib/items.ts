@@ -0,0 +1,74 @@
+import { ConsolidatedNewsItem } from "@/lib/types";
+
+export type ItemStatus = "new" | "seen" | "included" | "dismissed";
+
+/**
+ * Categories an analyst set by hand. The item's text is kept with them so
+ * the classifier can learn from the correction.
+ */
+export type CategoryOverride = {
+  sopCategory?: string;
+  businessCategory?: string;
+  title: string;
+  summary: string;
+  setAt: string;
+};
+
+export type ItemRecord = {
+  identity: string;
+  status: ItemStatus;
+  firstSeenAt: string;
+  firstSeenRunId: string;
+  lastSeenAt: string;
+  updatedAt: string;
+  category?: CategoryOverride;
+};
+
+export const ITEM_STATUS_LABELS: Record<ItemStatus, string> = {
+  new: "New",
+  seen: "Seen",
+  included: "In newsletter",
+  dismissed: "Dismissed",
+};
+
+const TRACKING_PARAMS = /^(utm_|fbclid$|gclid$|mc_cid$|mc_eid$|ref$|cmpid$)/i;
+
+/**
+ * Reduces a URL to the form most outlets treat as equivalent: no scheme,
+ * `www.`, fragment, trailing slash or tracking parameters.
+ */
+export function canonicalizeUrl(value: string) {
+  try {
+    const url = new URL(value.trim());
+    const params = Array.from(url.searchParams.entries())
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = params
+      .map(([key, param]) => `${key}=${encodeURIComponent(param)}`)
+      .join("&");
+    const host = url.hostname.toLowerCase().replace(/^www\./, "");
+    const pathname = url.pathname.replace(/\/+$/, "");
+    return `${host}${pathname}${query ? `?${query}` : ""}`;
+  } catch {
+    return value.trim().toLowerCase();
+  }
+}
+
+export function normalizeTitle(value: string) {
+  return (
+    value
+      .toLowerCase()
+      // Drop " - Outlet Name" / " | Outlet Name" suffixes added by aggregators.
+      .replace(/\s+[-|–—]\s+[^-|–—]{2,40}$/, "")
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-z0-9]+/g, " ")
+      .trim()
+  );
+}
+
+export function itemIdentity(
+  item: Pick<ConsolidatedNewsItem, "url" | "title">,
+) {
+  return `${canonicalizeUrl(item.url)}|${normalizeTitle(item.title)}`;
+}
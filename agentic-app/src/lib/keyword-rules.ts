@@ -0,0 +1,327 @@
+import { KeywordSourceRow } from "@/lib/types";
+import { escapeRegExp } from "@/lib/matching";
+import type { ScoredNewsItem, WeightedKeywordRow } from "@/lib/scoring";
+
+export type ExpansionKind =
+  "inn" | "brand" | "company" | "misspelling" | "related";
+
+/** A term proposed by a query expander and accepted by an analyst. */
+export type AcceptedExpansion = {
+  term: string;
+  kind: ExpansionKind;
+  /** Id of the expander that proposed it, e.g. "dictionary". */
+  expander: string;
+};
+
+/** Optional refinements a taxonomy row can carry beyond its keyword. */
+export type KeywordRuleFields = {
+  /** Alternative names that count as the keyword, e.g. an INN for a brand. */
+  synonyms?: string[];
+  /** Reviewed expansion terms, matched like synonyms. */
+  expansions?: AcceptedExpansion[];
+  /** Proposed terms an analyst turned down, so they are not offered again. */
+  rejectedExpansions?: string[];
+  /** Terms an item must also mention to match the row. */
+  include?: string[];
+  /** Terms that disqualify an item from the row. */
+  exclude?: string[];
+  /** Boolean expression matched as another alternative to the keyword. */
+  query?: string;
+};
+
+export type QueryNode =
+  | { type: "term"; value: string; phrase: boolean }
+  | { type: "and" | "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode };
+
+export class QuerySyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly position: number,
+  ) {
+    super(`${message} at character ${position + 1}.`);
+    this.name = "QuerySyntaxError";
+  }
+}
+
+type Token =
+  | { kind: "term"; value: string; phrase: boolean; position: number }
+  | { kind: "and" | "or" | "not" | "open" | "close"; position: number };
+
+const OPERATORS: Record<string, "and" | "or" | "not"> = {
+  AND: "and",
+  OR: "or",
+  NOT: "not",
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index += 1;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ kind: char === "(" ? "open" : "close", position: index });
+      index += 1;
+    } else if (char === '"') {
+      const end = source.indexOf('"', index + 1);
+      if (end === -1) throw new QuerySyntaxError("Unclosed quote", index);
+      const value = source.slice(index + 1, end).trim();
+      if (!value) throw new QuerySyntaxError("Empty phrase", index);
+      tokens.push({ kind: "term", value, phrase: true, position: index });
+      index = end + 1;
+    } else {
+      const match = source.slice(index).match(/^[^\s()"]+/);
+      const word = match ? match[0] : char;
+      const operator = OPERATORS[word];
+      tokens.push(
+        operator
+          ? { kind: operator, position: index }
+          : { kind: "term", value: word, phrase: false, position: index },
+      );
+      index += word.length;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Parses `AND`, `OR` and `NOT` (upper case), parentheses and "quoted
+ * phrases". Adjacent terms are ANDed; NOT binds tightest, then AND, then OR.
+ */
+export function parseQuery(source: string): QueryNode {
+  const tokens = tokenize(source);
+  let cursor = 0;
+  const peek = () => tokens[cursor];
+  const fail = (message: string): never => {
+    throw new QuerySyntaxError(message, peek()?.position ?? source.length);
+  };
+
+  function parseOr(): QueryNode {
+    const children = [parseAnd()];
+    while (peek()?.kind === "or") {
+      cursor += 1;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  function parseAnd(): QueryNode {
+    const children = [parseNot()];
+    while (peek() && peek().kind !== "or" && peek().kind !== "close") {
+      if (peek().kind === "and") cursor += 1;
+      children.push(parseNot());
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  function parseNot(): QueryNode {
+    if (peek()?.kind === "not") {
+      cursor += 1;
+      return { type: "not", child: parseNot() };
+    }
+    return parseAtom();
+  }
+
+  function parseAtom(): QueryNode {
+    const token = peek();
+    if (!token) return fail("Expected a term");
+    if (token.kind === "term") {
+      cursor += 1;
+      return { type: "term", value: token.value, phrase: token.phrase };
+    }
+    if (token.kind === "open") {
+      cursor += 1;
+      const node = parseOr();
+      if (peek()?.kind !== "close") fail("Missing closing parenthesis");
+      cursor += 1;
+      return node;
+    }
+    return fail(
+      token.kind === "close" ? "Unexpected parenthesis" : "Expected a term",
+    );
+  }
+
+  if (tokens.length === 0) fail("Query is empty");
+  const node = parseOr();
+  if (cursor < tokens.length) fail("Unexpected parenthesis");
+  return node;
+}
+
+const termPatterns = new Map<string, RegExp>();
+
+/**
+ * Terms match at the start of a word and run on, so "biosimilar" also
+ * finds "biosimilars"; whitespace inside a phrase matches any spacing.
+ */
+function termPattern(value: string) {
+  const key = value.toLowerCase();
+  const cached = termPatterns.get(key);
+  if (cached) return cached;
+  const body = key.split(/\s+/).map(escapeRegExp).join("[\\s-]+");
+  const pattern = new RegExp(`(?<![a-z0-9])${body}`, "i");
+  termPatterns.set(key, pattern);
+  return pattern;
+}
+
+export function matchesQuery(node: QueryNode, text: string): boolean {
+  switch (node.type) {
+    case "term":
+      return termPattern(node.value).test(text);
+    case "and":
+      return node.children.every((child) => matchesQuery(child, text));
+    case "or":
+      return node.children.some((child) => matchesQuery(child, text));
+    case "not":
+      return !matchesQuery(node.child, text);
+  }
+}
+
+function terms(values: string[] | undefined) {
+  return (values ?? []).map((value) => value.trim()).filter(Boolean);
+}
+
+const parsedQueries = new Map<string, QueryNode | null>();
+
+/** Unparseable queries are ignored here; validation reports them. */
+function rowQuery(query: string | undefined) {
+  const source = query?.trim();
+  if (!source) return null;
+  if (!parsedQueries.has(source)) {
+    try {
+      parsedQueries.set(source, parseQuery(source));
+    } catch {
+      parsedQueries.set(source, null);
+    }
+  }
+  return parsedQueries.get(source) ?? null;
+}
+
+/** How an item came to match a row, shown on the card and kept for audit. */
+export type KeywordHit = {
+  keyword: string;
+  /** The alternative that matched; the keyword itself for "source" hits. */
+  term: string;
+  /** "source" hits were matched by the search engine on text we do not see. */
+  via: "keyword" | "synonym" | "expansion" | "query" | "source";
+  expansion?: Omit<AcceptedExpansion, "term">;
+};
+
+type RowAlternative = Omit<KeywordHit, "keyword">;
+
+function alternativesOf(row: KeywordSourceRow & KeywordRuleFields) {
+  const alternatives: RowAlternative[] = [
+    { term: row.keyword, via: "keyword" },
+    ...(row.synonyms ?? []).map((term) => ({ term, via: "synonym" as const })),
+    ...(row.expansions ?? []).map(({ term, ...expansion }) => ({
+      term,
+      via: "expansion" as const,
+      expansion,
+    })),
+  ];
+  return alternatives
+    .map((alternative) => ({ ...alternative, term: alternative.term.trim() }))
+    .filter((alternative) => alternative.term);
+}
+
+/** The first alternative the text names, in keyword, synonym, expansion, query order. */
+function namedBy(
+  row: KeywordSourceRow & KeywordRuleFields,
+  text: string,
+): RowAlternative | undefined {
+  const named = alternativesOf(row).find(({ term }) =>
+    termPattern(term).test(text),
+  );
+  if (named) return named;
+  const query = rowQuery(row.query);
+  return query && matchesQuery(query, text)
+    ? { term: row.query?.trim() ?? "", via: "query" }
+    : undefined;
+}
+
+/**
+ * An item matches a row when it names the keyword, a synonym or accepted
+ * expansion, or satisfies the query, and mentions every include term and
+ * none of the exclude terms.
+ */
+export function matchesRow(
+  row: KeywordSourceRow & KeywordRuleFields,
+  text: string,
+) {
+  return (
+    namedBy(row, text) !== undefined &&
+    terms(row.include).every((term) => termPattern(term).test(text)) &&
+    !isExcluded(row, text)
+  );
+}
+
+/**
+ * Records which alternative produced each of the item's keyword matches.
+ * Matches the visible text does not explain came from the search engine.
+ */
+export function annotateKeywordHits<T extends ScoredNewsItem>(
+  item: T,
+  keywords: WeightedKeywordRow[],
+): T {
+  const text = `${item.title} ${item.summary}`;
+  const keywordHits = item.keywordMatches.flatMap((keyword): KeywordHit[] => {
+    const row = keywords.find((entry) => entry.keyword === keyword);
+    if (!row) return [];
+    return [
+      { keyword, ...(namedBy(row, text) ?? { term: keyword, via: "source" }) },
+    ];
+  });
+  return { ...item, keywordHits };
+}
+
+export function isExcluded(row: KeywordRuleFields, text: string) {
+  return terms(row.exclude).some((term) => termPattern(term).test(text));
+}
+
+function quote(value: string) {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+function renderQuery(node: QueryNode): string {
+  switch (node.type) {
+    case "term":
+      return node.phrase ? `"${node.value}"` : node.value;
+    case "and":
+      return node.children.map(renderQuery).join(" ");
+    case "or":
+      return `(${node.children.map(renderQuery).join(" OR ")})`;
+    case "not":
+      return node.child.type === "term"
+        ? `-${renderQuery(node.child)}`
+        : `-(${renderQuery(node.child)})`;
+  }
+}
+
+/**
+ * The row as a single search-engine query in the common `OR` / quotes /
+ * `-exclusion` dialect. Plain rows come back as their keyword unchanged.
+ */
+export function toSearchQuery(row: KeywordSourceRow & KeywordRuleFields) {
+  const query = rowQuery(row.query);
+  const named = alternativesOf(row);
+  if (
+    !query &&
+    named.length <= 1 &&
+    [row.include, row.exclude].every((values) => terms(values).length === 0)
+  ) {
+    return row.keyword.trim();
+  }
+  const alternatives = [
+    ...named.map(({ term }) => quote(term)),
+    ...(query ? [renderQuery(query)] : []),
+  ];
+  const parts = [
+    alternatives.length > 1
+      ? `(${alternatives.join(" OR ")})`
+      : (alternatives[0] ?? ""),
+    ...terms(row.include).map(quote),
+    ...terms(row.exclude).map((term) => `-${quote(term)}`),
+  ];
+  return parts.filter(Boolean).join(" ");
+}
@@ -0,0 +1,178 @@
+import { ConsolidatedNewsItem } from "@/lib/types";
+import {
+  CategoryOverride,
+  ItemRecord,
+  ItemStatus,
+  itemIdentity,
+} from "@/lib/items";
+import { readJson, updateJson } from "@/lib/store";
+import { CategoryChange, recategorize } from "@/lib/taxonomy";
+
+type ItemStateMap = Record<string, ItemRecord>;
+
+const SCOPE_PATTERN = /^[\w-]+$/;
+
+export class InvalidScopeError extends Error {}
+
+/** The file-name scope for a workspace's item data; unsaved sessions share one. */
+export function workspaceScope(workspaceId: string | null) {
+  const scope = workspaceId ?? "session";
+  if (!SCOPE_PATTERN.test(scope)) {
+    throw new InvalidScopeError(`Invalid workspace id "${scope}".`);
+  }
+  return scope;
+}
+
+function storeName(workspaceId: string | null) {
+  return `item-states/${workspaceScope(workspaceId)}`;
+}
+
+export function getItemStates(workspaceId: string | null) {
+  return readJson<ItemStateMap>(storeName(workspaceId), {});
+}
+
+/**
+ * Registers a run's items. First sightings become "new"; items still marked
+ * "new" from an earlier run are demoted to "seen". Analyst decisions
+ * (included/dismissed) are never overwritten.
+ */
+export function registerRunItems(
+  workspaceId: string | null,
+  runId: string,
+  items: ConsolidatedNewsItem[],
+  seenAt: string,
+) {
+  return updateJson<ItemStateMap, void>(
+    storeName(workspaceId),
+    {},
+    (current) => {
+      const next = { ...current };
+      items.forEach((item) => {
+        const identity = itemIdentity(item);
+        const existing = next[identity] as ItemRecord | undefined;
+        if (!existing) {
+          next[identity] = {
+            identity,
+            status: "new",
+            firstSeenAt: seenAt,
+            firstSeenRunId: runId,
+            lastSeenAt: seenAt,
+            updatedAt: seenAt,
+          };
+          return;
+        }
+        next[identity] = {
+          ...existing,
+          status:
+            existing.status === "new" && existing.firstSeenRunId !== runId
+              ? "seen"
+              : existing.status,
+          lastSeenAt: seenAt,
+        };
+      });
+      return { next, result: undefined };
+    },
+  );
+}
+
+export function setItemStatus(
+  workspaceId: string | null,
+  identities: string[],
+  status: ItemStatus,
+) {
+  const now = new Date().toISOString();
+  return updateJson<ItemStateMap, ItemRecord[]>(
+    storeName(workspaceId),
+    {},
+    (current) => {
+      const next = { ...current };
+      const updated = identities.map((identity) => {
+        const existing = next[identity] as ItemRecord | undefined;
+        const record: ItemRecord = existing
+          ? { ...existing, status, updatedAt: now }
+          : {
+              identity,
+              status,
+              firstSeenAt: now,
+              firstSeenRunId: "",
+              lastSeenAt: now,
+              updatedAt: now,
+            };
+        next[identity] = record;
+        return record;
+      });
+      return { next, result: updated };
+    },
+  );
+}
+
+/**
+ * Remembers an analyst's categories for an item, or forgets them when
+ * `categories` is null. The override wins over keyword and classifier
+ * categories on every later run.
+ */
+export function setItemCategory(
+  workspaceId: string | null,
+  item: Pick<ConsolidatedNewsItem, "url" | "title" | "summary">,
+  categories: Pick<CategoryOverride, "sopCategory" | "businessCategory"> | null,
+) {
+  const now = new Date().toISOString();
+  const identity = itemIdentity(item);
+  return updateJson<ItemStateMap, ItemRecord>(
+    storeName(workspaceId),
+    {},
+    (current) => {
+      const existing: ItemRecord = current[identity] ?? {
+        identity,
+        status: "seen",
+        firstSeenAt: now,
+        firstSeenRunId: "",
+        lastSeenAt: now,
+        updatedAt: now,
+      };
+      const { category: _previous, ...rest } = existing;
+      const record: ItemRecord = categories
+        ? {
+            ...rest,
+            updatedAt: now,
+            category: {
+              ...categories,
+              title: item.title,
+              summary: item.summary,
+              setAt: now,
+            },
+          }
+        : { ...rest, updatedAt: now };
+      return { next: { ...current, [identity]: record }, result: record };
+    },
+  );
+}
+
+/**
+ * Carries a taxonomy rename or merge into the analysts' category overrides.
+ * Returns how many overrides changed.
+ */
+export function recategorizeItems(
+  workspaceId: string | null,
+  change: CategoryChange,
+) {
+  return updateJson<ItemStateMap, number>(
+    storeName(workspaceId),
+    {},
+    (current) => {
+      let changed = 0;
+      const next: ItemStateMap = {};
+      Object.entries(current).forEach(([identity, record]) => {
+        const category =
+          record.category && recategorize(record.category, change);
+        if (category && category !== record.category) {
+          changed += 1;
+          next[identity] = { ...record, category };
+        } else {
+          next[identity] = record;
+        }
+      });
+      return { next, result: changed };
+    },
+  );
+}
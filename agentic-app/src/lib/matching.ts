@@ -0,0 +1,32 @@
+/** Helpers for matching terms in item text and weighing what matched. */
+
+export function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Matches the alias as a whole word. Acronyms such as "US" or "EMA" only
+ * match in capitals, so "us" stays a pronoun.
+ */
+export function compileAlias(alias: string) {
+  const caseSensitive = /^[A-Z0-9.]+$/.test(alias) && /[A-Z]/.test(alias);
+  return new RegExp(
+    `(?<![A-Za-z0-9])${escapeRegExp(alias)}(?![A-Za-z0-9])`,
+    caseSensitive ? "" : "i",
+  );
+}
+
+/**
+ * Confidence, 0–1 to two places, in the candidate with the most evidence:
+ * full once its points reach `saturation`, and shared with the runner-up in
+ * proportion to their points.
+ */
+export function evidenceConfidence(
+  points: number,
+  runnerUpPoints: number,
+  saturation: number,
+) {
+  const strength = Math.min(1, points / saturation);
+  const margin = points / (points + runnerUpPoints);
+  return Math.round(strength * margin * 100) / 100;
+}
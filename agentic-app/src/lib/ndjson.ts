@@ -0,0 +1,27 @@
+/** Reads a newline-delimited JSON response, invoking `onEvent` per line. */
+export async function readNdjson<T>(
+  response: Response,
+  onEvent: (event: T) => void,
+) {
+  if (!response.body) {
+    throw new Error("Response has no body to stream.");
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines
+      .filter((line) => line.trim().length > 0)
+      .forEach((line) => onEvent(JSON.parse(line) as T));
+    if (done) break;
+  }
+
+  if (buffer.trim().length > 0) {
+    onEvent(JSON.parse(buffer) as T);
+  }
+}
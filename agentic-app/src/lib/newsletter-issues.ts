@@ -0,0 +1,70 @@
+import { randomUUID } from "node:crypto";
+import {
+  EMPTY_DRAFT,
+  IssueSummary,
+  NewsletterDraft,
+  NewsletterIssue,
+  toIssueSummary,
+} from "@/lib/curation";
+import { workspaceScope } from "@/lib/lifecycle";
+import { readJson, updateJson, writeJson } from "@/lib/store";
+
+const INDEX_NAME = "newsletter-issues/index";
+
+const ISSUE_ID_PATTERN = /^[\w-]+$/;
+
+function draftName(workspaceId: string | null) {
+  return `newsletter-drafts/${workspaceScope(workspaceId)}`;
+}
+
+function issueFileName(id: string) {
+  return `newsletter-issues/${id}`;
+}
+
+export async function readDraft(workspaceId: string | null) {
+  const draft = await readJson<NewsletterDraft>(
+    draftName(workspaceId),
+    EMPTY_DRAFT,
+  );
+  return { ...EMPTY_DRAFT, ...draft };
+}
+
+export async function saveDraft(
+  workspaceId: string | null,
+  draft: NewsletterDraft,
+) {
+  await writeJson(draftName(workspaceId), draft);
+  return draft;
+}
+
+export async function listIssues(workspaceId: string | null) {
+  const index = await readJson<IssueSummary[]>(INDEX_NAME, []);
+  return index.filter((entry) => entry.workspaceId === workspaceId);
+}
+
+export async function getIssue(id: string) {
+  if (!ISSUE_ID_PATTERN.test(id)) return null;
+  return readJson<NewsletterIssue | null>(issueFileName(id), null);
+}
+
+/**
+ * Freezes a curated issue and starts the workspace's next draft afresh,
+ * keeping only its size.
+ */
+export async function approveIssue(
+  input: Omit<NewsletterIssue, "id" | "approvedAt">,
+) {
+  const issue: NewsletterIssue = {
+    ...input,
+    id: randomUUID(),
+    approvedAt: new Date().toISOString(),
+  };
+  const draft = await readDraft(issue.workspaceId);
+  await writeJson(issueFileName(issue.id), issue);
+  await updateJson<IssueSummary[], void>(INDEX_NAME, [], (current) => ({
+    next: [toIssueSummary(issue), ...current],
+    result: undefined,
+  }));
+  await saveDraft(issue.workspaceId, { ...EMPTY_DRAFT, size: draft.size });
+  return issue;
+}
@@ -0,0 +1,233 @@
+import { TimeRangeOption } from "@/lib/types";
+import {
+  ExportColumn,
+  UNCATEGORIZED_LABEL,
+  getColumnLabel,
+  getColumnValue,
+} from "@/lib/columns";
+import { describeTimeRange, formatDate } from "@/lib/format";
+import { EVENT_TYPES, eventLabel } from "@/lib/events";
+import { ScoredNewsItem } from "@/lib/scoring";
+
+export type NewsletterGrouping = "sopCategory" | "eventType";
+
+export const NEWSLETTER_GROUPINGS: { id: NewsletterGrouping; label: string }[] =
+  [
+    { id: "sopCategory", label: "SOP category" },
+    { id: "eventType", label: "Event type" },
+  ];
+
+export type NewsletterRequest = {
+  items: ScoredNewsItem[];
+  columns: ExportColumn[];
+  /** Top-level sections; SOP category when unset. */
+  groupBy?: NewsletterGrouping;
+  timeRange: TimeRangeOption;
+  lastRun?: string | null;
+  title?: string;
+};
+
+export type NewsletterFormat = "html" | "markdown";
+
+export type NewsletterSection = {
+  heading: string;
+  groups: { businessCategory: string; items: ScoredNewsItem[] }[];
+};
+
+export const DEFAULT_NEWSLETTER_TITLE = "Biosimilar Intelligence Bulletin";
+
+/** Columns rendered as the item heading and body rather than as metadata. */
+const BODY_COLUMNS: ExportColumn[] = ["title", "summary", "editorialNote"];
+
+function sectionHeading(item: ScoredNewsItem, groupBy: NewsletterGrouping) {
+  return groupBy === "eventType"
+    ? eventLabel(item.event)
+    : item.sopCategory?.trim() || UNCATEGORIZED_LABEL;
+}
+
+/** Event sections follow the classifier's type order, unclassified last. */
+function eventRank(heading: string) {
+  const index = EVENT_TYPES.findIndex((type) => type.label === heading);
+  return index === -1 ? EVENT_TYPES.length : index;
+}
+
+export function groupNewsletterItems(
+  items: ScoredNewsItem[],
+  groupBy: NewsletterGrouping = "sopCategory",
+): NewsletterSection[] {
+  const sections = new Map<string, Map<string, ScoredNewsItem[]>>();
+  items.forEach((item) => {
+    const heading = sectionHeading(item, groupBy);
+    const business = item.businessCategory?.trim() || UNCATEGORIZED_LABEL;
+    const groups = sections.get(heading) ?? new Map<string, ScoredNewsItem[]>();
+    const bucket = groups.get(business) ?? [];
+    bucket.push(item);
+    groups.set(business, bucket);
+    sections.set(heading, groups);
+  });
+
+  const result = Array.from(sections.entries()).map(([heading, groups]) => ({
+    heading,
+    groups: Array.from(groups.entries()).map(([businessCategory, bucket]) => ({
+      businessCategory,
+      items: bucket,
+    })),
+  }));
+  return groupBy === "eventType"
+    ? result.sort((a, b) => eventRank(a.heading) - eventRank(b.heading))
+    : result;
+}
+
+function describeHeader(request: NewsletterRequest) {
+  return {
+    title: request.title?.trim() || DEFAULT_NEWSLETTER_TITLE,
+    window: describeTimeRange(request.timeRange),
+    lastRun: request.lastRun ? formatDate(request.lastRun) : "Not recorded",
+    count: request.items.length,
+  };
+}
+
+function metadataColumns(columns: ExportColumn[]) {
+  return columns.filter((column) => !BODY_COLUMNS.includes(column));
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function renderHtmlItem(item: ScoredNewsItem, columns: ExportColumn[]) {
+  const heading = columns.includes("title")
+    ? `<tr><td style="padding:0 0 6px 0;font-family:Arial,Helvetica,sans-serif;font-size:16px;font-weight:bold;line-height:22px;"><a href="${escapeHtml(item.url)}" style="color:#047857;text-decoration:none;">${escapeHtml(item.title)}</a></td></tr>`
+    : "";
+  const summary = columns.includes("summary")
+    ? `<tr><td style="padding:0 0 8px 0;font-family:Arial,Helvetica,sans-serif;font-size:14px;line-height:20px;color:#334155;">${escapeHtml(item.summary || "No summary available.")}</td></tr>`
+    : "";
+  // Editorial notes are written for the issue, so they print whatever the columns.
+  const note = item.editorialNote
+    ? `<tr><td style="padding:0 0 8px 0;font-family:Arial,Helvetica,sans-serif;font-size:14px;line-height:20px;font-style:italic;color:#0f172a;">${escapeHtml(item.editorialNote)}</td></tr>`
+    : "";
+  const metadata = metadataColumns(columns)
+    .map(
+      (column) =>
+        `<tr><td width="160" valign="top" style="padding:2px 8px 2px 0;font-family:Arial,Helvetica,sans-serif;font-size:12px;color:#64748b;">${escapeHtml(getColumnLabel(column))}</td><td valign="top" style="padding:2px 0;font-family:Arial,Helvetica,sans-serif;font-size:12px;color:#0f172a;">${escapeHtml(String(getColumnValue(item, column)))}</td></tr>`,
+    )
+    .join("");
+  const metadataTable = metadata
+    ? `<tr><td><table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%">${metadata}</table></td></tr>`
+    : "";
+
+  return `<tr><td style="padding:12px 0;border-bottom:1px solid #e2e8f0;"><table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%">${heading}${summary}${note}${metadataTable}</table></td></tr>`;
+}
+
+/**
+ * Produces a self-contained HTML email. Layout is nested tables with inline
+ * styles only, since Outlook ignores most CSS and strips `<style>` blocks.
+ */
+export function renderNewsletterHtml(request: NewsletterRequest) {
+  const header = describeHeader(request);
+  const sections = groupNewsletterItems(request.items, request.groupBy)
+    .map((section) => {
+      const groups = section.groups
+        .map(
+          (group) =>
+            `<tr><td style="padding:12px 0 0 0;font-family:Arial,Helvetica,sans-serif;font-size:13px;font-weight:bold;text-transform:uppercase;letter-spacing:1px;color:#475569;">${escapeHtml(group.businessCategory)}</td></tr>${group.items
+              .map((item) => renderHtmlItem(item, request.columns))
+              .join("")}`,
+        )
+        .join("");
+      return `<tr><td style="padding:24px 0 4px 0;font-family:Arial,Helvetica,sans-serif;font-size:18px;font-weight:bold;color:#0f172a;border-bottom:2px solid #10b981;">${escapeHtml(section.heading)}</td></tr>${groups}`;
+    })
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(header.title)}</title>
+</head>
+<body style="margin:0;padding:0;background-color:#f1f5f9;">
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%" bgcolor="#f1f5f9">
+<tr><td align="center" style="padding:24px 12px;">
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="640" bgcolor="#ffffff" style="width:640px;max-width:640px;">
+<tr><td bgcolor="#0f172a" style="padding:24px;font-family:Arial,Helvetica,sans-serif;color:#ffffff;">
+<div style="font-size:22px;font-weight:bold;line-height:28px;">${escapeHtml(header.title)}</div>
+<div style="padding-top:8px;font-size:13px;line-height:18px;color:#cbd5e1;">Monitoring window: ${escapeHtml(header.window)}<br>Last run: ${escapeHtml(header.lastRun)}<br>Items: ${header.count}</div>
+</td></tr>
+<tr><td style="padding:0 24px 24px 24px;">
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%">${sections}</table>
+</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>
+`;
+}
+
+function escapeMarkdown(value: string) {
+  return value.replace(/([\\`*_[\]<>|])/g, "\\$1");
+}
+
+/** Percent-encodes what would end a Markdown link target or break it open. */
+function escapeMarkdownUrl(url: string) {
+  return url.replace(/[()<>\s]/g, (char) =>
+    char === "(" ? "%28" : char === ")" ? "%29" : encodeURIComponent(char),
+  );
+}
+
+function renderMarkdownItem(item: ScoredNewsItem, columns: ExportColumn[]) {
+  const lines: string[] = [];
+  if (columns.includes("title")) {
+    lines.push(
+      `- **[${escapeMarkdown(item.title)}](${escapeMarkdownUrl(item.url)})**`,
+    );
+  } else {
+    lines.push("-");
+  }
+  if (columns.includes("summary")) {
+    lines.push(`  ${escapeMarkdown(item.summary || "No summary available.")}`);
+  }
+  if (item.editorialNote) {
+    lines.push(
+      `  _${escapeMarkdown(item.editorialNote.replace(/\s+/g, " "))}_`,
+    );
+  }
+  metadataColumns(columns).forEach((column) => {
+    lines.push(
+      `  - ${getColumnLabel(column)}: ${escapeMarkdown(String(getColumnValue(item, column)))}`,
+    );
+  });
+  return lines.join("\n");
+}
+
+export function renderNewsletterMarkdown(request: NewsletterRequest) {
+  const header = describeHeader(request);
+  const blocks: string[] = [
+    `# ${header.title}`,
+    [
+      `**Monitoring window:** ${header.window}  `,
+      `**Last run:** ${header.lastRun}  `,
+      `**Items:** ${header.count}`,
+    ].join("\n"),
+  ];
+
+  groupNewsletterItems(request.items, request.groupBy).forEach((section) => {
+    blocks.push(`## ${section.heading}`);
+    section.groups.forEach((group) => {
+      blocks.push(`### ${group.businessCategory}`);
+      blocks.push(
+        group.items
+          .map((item) => renderMarkdownItem(item, request.columns))
+          .join("\n"),
+      );
+    });
+  });
+
+  return `${blocks.join("\n\n")}\n`;
+}
@@ -0,0 +1,460 @@
+import { ConsolidatedNewsItem, SearchPayload } from "@/lib/types";
+import { itemIdentity } from "@/lib/items";
+import {
+  clusterItems,
+  countOutlets,
+  rankCluster,
+  toRelatedCoverage,
+} from "@/lib/clustering";
+import {
+  DEFAULT_SCORING_CONFIG,
+  ScoredNewsItem,
+  ScoringContext,
+  WeightedKeywordRow,
+  isBlockedSource,
+  matchCompanies,
+  matchKeywords,
+  rankResults,
+  scoreItem,
+} from "@/lib/scoring";
+import {
+  CompanyEntry,
+  annotateCompanies,
+  matchRegistry,
+  normalizeCompanies,
+  targetCompany,
+} from "@/lib/companies";
+import { summarizeFromArticles } from "@/lib/article-store";
+import { annotateEntities } from "@/lib/entities";
+import { annotateEvent } from "@/lib/events";
+import {
+  companyRegistryStore,
+  entityDictionaryStore,
+  eventRulesStore,
+} from "@/lib/bundled-stores";
+import { buildCategoryModel, categorizeItem } from "@/lib/categorization";
+import { getItemStates } from "@/lib/lifecycle";
+import {
+  annotateKeywordHits,
+  isExcluded,
+  matchesRow,
+} from "@/lib/keyword-rules";
+import { DiscoveryPayload } from "@/lib/sources/catalog";
+import { isRecordingFixtures, recordFixture } from "@/lib/sources/fixture";
+import { resolveAdapters } from "@/lib/sources/registry";
+import { hostLabel } from "@/lib/sources/shared";
+import { AdapterTask, RawNewsItem, SourceTask } from "@/lib/sources/types";
+
+export type { SourceTask, SourceTaskKind } from "@/lib/sources/types";
+
+export type SourceHealth = "ok" | "error" | "skipped";
+
+export type SourceDiagnostic = {
+  task: SourceTask;
+  health: SourceHealth;
+  /** Items the source returned. */
+  fetched: number;
+  /** Returned items already supplied by another source. */
+  deduplicated: number;
+  /** Items from this source that made the final, capped result set. */
+  kept: number;
+  latencyMs: number;
+  httpStatus?: number;
+  error?: string;
+};
+
+export type SourceError = {
+  task: SourceTask;
+  message: string;
+};
+
+export type PipelineEvent =
+  | { type: "start"; tasks: SourceTask[] }
+  | { type: "task-start"; task: SourceTask }
+  | {
+      type: "task-complete";
+      task: SourceTask;
+      itemCount: number;
+      diagnostic: SourceDiagnostic;
+      completed: number;
+      total: number;
+    }
+  | {
+      type: "task-error";
+      task: SourceTask;
+      message: string;
+      diagnostic: SourceDiagnostic;
+      completed: number;
+      total: number;
+    }
+  | { type: "items"; items: ScoredNewsItem[] }
+  | { type: "articles"; completed: number; total: number };
+
+export type PipelineOptions = {
+  signal?: AbortSignal;
+  /** Scope of the analyst category overrides the run should honour. */
+  workspaceId?: string | null;
+  onEvent?: (event: PipelineEvent) => void;
+  concurrency?: number;
+};
+
+export type PipelineResult = {
+  results: ScoredNewsItem[];
+  errors: SourceError[];
+  diagnostics: SourceDiagnostic[];
+  cancelled: boolean;
+  taskCount: number;
+};
+
+export const DEFAULT_MAX_ITEMS = 100;
+
+const DEFAULT_CONCURRENCY = 3;
+
+function planTasks(payload: DiscoveryPayload): AdapterTask[] {
+  const maxItems = payload.maxItems ?? DEFAULT_MAX_ITEMS;
+  return resolveAdapters(payload.adapters).flatMap((adapter) =>
+    adapter.plan(payload, maxItems),
+  );
+}
+
+/** FNV-1a, enough to give adapter items a short stable id. */
+function hashIdentity(value: string) {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Lifts an adapter's raw item into the consolidated shape, filling in matches
+ * for sources that do not provide their own. Registry companies the item
+ * names, and the company a watchlist feed is linked to, join its company
+ * matches in registry spelling. Scores are assigned afterwards, starting from
+ * any the source gave.
+ */
+function consolidate(
+  raw: RawNewsItem,
+  payload: SearchPayload,
+  fetchedAt: string,
+  registry: CompanyEntry[],
+  linkedCompany?: string,
+): ScoredNewsItem {
+  const text = `${raw.title} ${raw.summary ?? ""}`;
+  const hasSourceScores =
+    raw.authenticScore !== undefined || raw.marketImpactScore !== undefined;
+  return {
+    id: raw.id ?? hashIdentity(itemIdentity(raw)),
+    title: raw.title,
+    url: raw.url,
+    source: raw.source,
+    summary: raw.summary ?? "",
+    publishedAt: raw.publishedAt ?? fetchedAt,
+    authenticScore: raw.authenticScore ?? 0,
+    marketImpactScore: raw.marketImpactScore ?? 0,
+    ...(hasSourceScores && {
+      sourceScores: {
+        authentic: raw.authenticScore,
+        marketImpact: raw.marketImpactScore,
+      },
+    }),
+    keywordMatches: raw.keywordMatches ?? matchKeywords(text, payload.keywords),
+    companyMatches: normalizeCompanies(
+      [
+        ...(raw.companyMatches ?? matchCompanies(text, payload.keywords)),
+        ...matchRegistry(text, registry),
+        ...(linkedCompany ? [linkedCompany] : []),
+      ],
+      registry,
+    ),
+    sopCategory: raw.sopCategory,
+    businessCategory: raw.businessCategory,
+  };
+}
+
+/**
+ * Target and feed tasks run without keywords, so their items are matched
+ * against the taxonomy here and inherit categories from the first hit. Rows
+ * whose exclude terms the item mentions never count.
+ */
+function matchTaxonomy<T extends ConsolidatedNewsItem>(
+  item: T,
+  keywords: WeightedKeywordRow[],
+): T {
+  const text = `${item.title} ${item.summary}`;
+  const matched = keywords.filter((row) =>
+    item.keywordMatches.includes(row.keyword)
+      ? !isExcluded(row, text)
+      : matchesRow(row, text),
+  );
+  if (matched.length === 0) return item;
+  return {
+    ...item,
+    keywordMatches: Array.from(
+      new Set([...item.keywordMatches, ...matched.map((row) => row.keyword)]),
+    ),
+    sopCategory: item.sopCategory || matched[0].sopCategory,
+    businessCategory: item.businessCategory || matched[0].businessCategory,
+  };
+}
+
+/** Scores are left as they are; the final pass rescores merged items. */
+function mergeItems<T extends ScoredNewsItem>(existing: T, incoming: T): T {
+  return {
+    ...existing,
+    summary: existing.summary || incoming.summary,
+    sourceScores: existing.sourceScores ?? incoming.sourceScores,
+    keywordMatches: Array.from(
+      new Set([...existing.keywordMatches, ...incoming.keywordMatches]),
+    ),
+    companyMatches: Array.from(
+      new Set([...existing.companyMatches, ...incoming.companyMatches]),
+    ),
+    sopCategory: existing.sopCategory || incoming.sopCategory,
+    businessCategory: existing.businessCategory || incoming.businessCategory,
+  };
+}
+
+/**
+ * Pulls an HTTP status out of whatever the source threw: fetch wrappers
+ * usually attach `status`/`statusCode`, otherwise the message is scanned.
+ */
+function describeFailure(error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  const candidate = error as { status?: unknown; statusCode?: unknown };
+  const declared = Number(candidate?.status ?? candidate?.statusCode);
+  if (Number.isInteger(declared) && declared >= 100 && declared < 600) {
+    return { message, httpStatus: declared };
+  }
+  const match = message.match(/\b([45]\d{2})\b/);
+  return { message, httpStatus: match ? Number(match[1]) : undefined };
+}
+
+/**
+ * Fans a search out across the selected source adapters, merging results as
+ * each task settles. A failing source is reported and skipped instead of
+ * failing the whole cycle. Items on blocklisted domains are discarded as they
+ * arrive. Streamed items carry provisional single-source scores. Once every
+ * source has reported, near-duplicate coverage is clustered behind its most
+ * authentic report, credited to the keyword alternatives it matched,
+ * categorised, scored with the number of outlets that carried it and tagged
+ * with the entities it names and the regulatory event it reports. When
+ * article summaries are on, kept items with no more than a snippet are
+ * summarised from their article page.
+ */
+export async function runPipeline(
+  payload: DiscoveryPayload,
+  options: PipelineOptions = {},
+): Promise<PipelineResult> {
+  const tasks = planTasks(payload);
+  const [dictionary, eventRules, itemStates, registry] = await Promise.all([
+    entityDictionaryStore.read(),
+    eventRulesStore.read(),
+    getItemStates(options.workspaceId ?? null),
+    companyRegistryStore.read(),
+  ]);
+  const categories = buildCategoryModel(
+    payload.keywords,
+    Object.values(itemStates),
+  );
+  const emit = options.onEvent ?? (() => undefined);
+  const scoring: ScoringContext = {
+    ownHosts: payload.companyTargets.map((target) => hostLabel(target.url)),
+    corroboration: 1,
+    config: payload.scoring ?? DEFAULT_SCORING_CONFIG,
+    keywords: payload.keywords,
+  };
+  const consolidated = new Map<string, ScoredNewsItem>();
+  const contributors = new Map<string, Set<string>>();
+  const diagnostics = new Map<string, SourceDiagnostic>();
+  const errors: SourceError[] = [];
+  let completed = 0;
+  let cursor = 0;
+
+  const plain = tasks.map(({ execute: _execute, ...task }) => task);
+  emit({ type: "start", tasks: plain });
+
+  async function worker() {
+    while (cursor < tasks.length && !options.signal?.aborted) {
+      const { execute, ...task } = tasks[cursor];
+      cursor += 1;
+      emit({ type: "task-start", task });
+      const started = Date.now();
+      try {
+        const raw = await execute(options.signal);
+        if (isRecordingFixtures() && task.adapterId !== "fixture") {
+          await recordFixture(task, raw);
+        }
+        const fetchedAt = new Date().toISOString();
+        const target =
+          task.kind === "target"
+            ? payload.companyTargets.find((entry) => entry.url === task.url)
+            : undefined;
+        const linkedCompany = target
+          ? targetCompany(target, registry)?.name
+          : undefined;
+        const items = raw
+          .filter((item) => !isBlockedSource(item.url, scoring.config))
+          .map((item) =>
+            scoreItem(
+              matchTaxonomy(
+                consolidate(item, payload, fetchedAt, registry, linkedCompany),
+                payload.keywords,
+              ),
+              scoring,
+            ),
+          );
+        const fresh: ScoredNewsItem[] = [];
+        items.forEach((item) => {
+          const identity = itemIdentity(item);
+          const existing = consolidated.get(identity);
+          const sources = contributors.get(identity) ?? new Set<string>();
+          sources.add(task.id);
+          contributors.set(identity, sources);
+          if (existing) {
+            consolidated.set(identity, mergeItems(existing, item));
+          } else {
+            consolidated.set(identity, item);
+            fresh.push(item);
+          }
+        });
+        completed += 1;
+        const diagnostic: SourceDiagnostic = {
+          task,
+          health: "ok",
+          fetched: items.length,
+          deduplicated: items.length - fresh.length,
+          kept: fresh.length,
+          latencyMs: Date.now() - started,
+        };
+        diagnostics.set(task.id, diagnostic);
+        if (fresh.length > 0) {
+          emit({ type: "items", items: fresh });
+        }
+        emit({
+          type: "task-complete",
+          task,
+          itemCount: items.length,
+          diagnostic,
+          completed,
+          total: tasks.length,
+        });
+      } catch (error) {
+        completed += 1;
+        const { message, httpStatus } = describeFailure(error);
+        const diagnostic: SourceDiagnostic = {
+          task,
+          health: "error",
+          fetched: 0,
+          deduplicated: 0,
+          kept: 0,
+          latencyMs: Date.now() - started,
+          httpStatus,
+          error: message,
+        };
+        diagnostics.set(task.id, diagnostic);
+        errors.push({ task, message });
+        emit({
+          type: "task-error",
+          task,
+          message,
+          diagnostic,
+          completed,
+          total: tasks.length,
+        });
+      }
+    }
+  }
+
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  await Promise.all(Array.from({ length: concurrency }, () => worker()));
+
+  // Keyword hits, categories, entities and the event are read from the
+  // summary, so items whose summary comes from the article are annotated again.
+  const annotate = <T extends ScoredNewsItem>(
+    item: T,
+    context: ScoringContext,
+  ) =>
+    annotateEvent(
+      annotateEntities(
+        scoreItem(
+          categorizeItem(
+            annotateKeywordHits(item, payload.keywords),
+            categories,
+          ),
+          context,
+        ),
+        dictionary,
+      ),
+      eventRules,
+    );
+  const contexts = new Map<string, ScoringContext>();
+  const scored = clusterItems(Array.from(consolidated.values())).map(
+    (members) => {
+      const context = { ...scoring, corroboration: countOutlets(members) };
+      const [canonical, ...others] = rankCluster(
+        members.map((item) => scoreItem(item, context)),
+      );
+      const merged = {
+        ...annotateCompanies(others.reduce(mergeItems, canonical), registry),
+        related: others.map(toRelatedCoverage),
+      };
+      contexts.set(itemIdentity(merged), context);
+      return annotate(merged, context);
+    },
+  );
+  const ranked = rankResults(scored).slice(
+    0,
+    payload.maxItems ?? DEFAULT_MAX_ITEMS,
+  );
+  const results = payload.articles?.enabled
+    ? rankResults(
+        (
+          await summarizeFromArticles(ranked, payload.articles, {
+            signal: options.signal,
+            onProgress: (completed, total) =>
+              emit({ type: "articles", completed, total }),
+          })
+        ).map((item) =>
+          item.summarySource === "article"
+            ? annotate(item, contexts.get(itemIdentity(item)) ?? scoring)
+            : item,
+        ),
+      )
+    : ranked;
+  const keptBySource = new Map<string, number>();
+  results.forEach((item) => {
+    const taskIds = new Set(
+      [item, ...item.related].flatMap((member) =>
+        Array.from(contributors.get(itemIdentity(member)) ?? []),
+      ),
+    );
+    taskIds.forEach((taskId) => {
+      keptBySource.set(taskId, (keptBySource.get(taskId) ?? 0) + 1);
+    });
+  });
+
+  return {
+    results,
+    errors,
+    diagnostics: plain.map((task) => {
+      const diagnostic = diagnostics.get(task.id);
+      if (!diagnostic) {
+        return {
+          task,
+          health: "skipped" as const,
+          fetched: 0,
+          deduplicated: 0,
+          kept: 0,
+          latencyMs: 0,
+        };
+      }
+      return diagnostic.health === "ok"
+        ? { ...diagnostic, kept: keptBySource.get(task.id) ?? 0 }
+        : diagnostic;
+    }),
+    cancelled: Boolean(options.signal?.aborted),
+    taskCount: tasks.length,
+  };
+}
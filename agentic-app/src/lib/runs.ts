@@ -0,0 +1,239 @@
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { DiscoveryPayload } from "@/lib/sources/catalog";
+import { ScoredNewsItem } from "@/lib/scoring";
+import { registerRunItems } from "@/lib/lifecycle";
+import { indexWorkspaceItems, readSearchIndex } from "@/lib/item-index";
+import {
+  PipelineEvent,
+  PipelineOptions,
+  SourceDiagnostic,
+  runPipeline,
+} from "@/lib/pipeline";
+import { DATA_DIR, readJson, updateJson, writeJson } from "@/lib/store";
+import { CategoryChange, recategorize } from "@/lib/taxonomy";
+
+export type RunTrigger = "manual" | "schedule";
+
+export type RunStatus = "succeeded" | "failed" | "cancelled";
+
+export type MonitoringRun = {
+  id: string;
+  workspaceId: string | null;
+  trigger: RunTrigger;
+  status: RunStatus;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  payload: DiscoveryPayload;
+  results: ScoredNewsItem[];
+  diagnostics?: SourceDiagnostic[];
+  error?: string;
+};
+
+export type RunSummary = Omit<
+  MonitoringRun,
+  "payload" | "results" | "diagnostics"
+> & {
+  resultCount: number;
+  keywordCount: number;
+  targetCount: number;
+};
+
+type RunOptions = {
+  workspaceId: string | null;
+  trigger: RunTrigger;
+} & Pick<PipelineOptions, "signal" | "onEvent">;
+
+/** Events written by the streaming search route, one JSON object per line. */
+export type RunStreamEvent =
+  | PipelineEvent
+  | { type: "done"; run: MonitoringRun }
+  | { type: "fatal"; message: string };
+
+const INDEX_NAME = "runs/index";
+
+/** Oldest runs beyond this count are pruned per workspace. */
+const MAX_RUNS_PER_WORKSPACE = 50;
+
+const RUN_ID_PATTERN = /^[\w-]+$/;
+
+function runFileName(id: string) {
+  return `runs/${id}`;
+}
+
+function toSummary(run: MonitoringRun): RunSummary {
+  const { payload, results, diagnostics: _diagnostics, ...rest } = run;
+  return {
+    ...rest,
+    resultCount: results.length,
+    keywordCount: payload.keywords.length,
+    targetCount: payload.companyTargets.length,
+  };
+}
+
+async function removeRunFiles(ids: string[]) {
+  await Promise.all(
+    ids.map((id) =>
+      fs
+        .rm(path.join(DATA_DIR, `${runFileName(id)}.json`), { force: true })
+        .catch((error) => console.error("Failed to prune run", id, error)),
+    ),
+  );
+}
+
+async function recordRun(run: MonitoringRun) {
+  await writeJson(runFileName(run.id), run);
+  const pruned = await updateJson<RunSummary[], string[]>(
+    INDEX_NAME,
+    [],
+    (current) => {
+      const next = [toSummary(run), ...current];
+      const sameWorkspace = next.filter(
+        (entry) => entry.workspaceId === run.workspaceId,
+      );
+      const expired = new Set(
+        sameWorkspace.slice(MAX_RUNS_PER_WORKSPACE).map((entry) => entry.id),
+      );
+      return {
+        next: next.filter((entry) => !expired.has(entry.id)),
+        result: Array.from(expired),
+      };
+    },
+  );
+  await removeRunFiles(pruned);
+}
+
+function describeFailures(failed: number, total: number) {
+  return `${failed} of ${total} sources failed.`;
+}
+
+/**
+ * Runs a monitoring cycle and records it in the run history. Failures are
+ * stored as runs too, so the history shows why a scheduled cycle came back
+ * empty. A cycle only fails outright when every source fails.
+ */
+export async function executeRun(
+  payload: DiscoveryPayload,
+  options: RunOptions,
+): Promise<MonitoringRun> {
+  const started = Date.now();
+  let results: ScoredNewsItem[] = [];
+  let diagnostics: SourceDiagnostic[] = [];
+  let status: RunStatus = "succeeded";
+  let error: string | undefined;
+
+  try {
+    const outcome = await runPipeline(payload, {
+      signal: options.signal,
+      onEvent: options.onEvent,
+      workspaceId: options.workspaceId,
+    });
+    results = outcome.results;
+    diagnostics = outcome.diagnostics;
+    if (outcome.cancelled) {
+      status = "cancelled";
+    } else if (
+      outcome.taskCount > 0 &&
+      outcome.errors.length === outcome.taskCount
+    ) {
+      status = "failed";
+    }
+    if (outcome.errors.length > 0) {
+      error = describeFailures(outcome.errors.length, outcome.taskCount);
+    }
+  } catch (cause) {
+    console.error("Monitoring run failed", cause);
+    status = "failed";
+    error = cause instanceof Error ? cause.message : String(cause);
+  }
+
+  const finished = Date.now();
+  const run: MonitoringRun = {
+    id: randomUUID(),
+    workspaceId: options.workspaceId,
+    trigger: options.trigger,
+    status,
+    startedAt: new Date(started).toISOString(),
+    finishedAt: new Date(finished).toISOString(),
+    durationMs: finished - started,
+    payload,
+    results,
+    diagnostics,
+    error,
+  };
+  await recordRun(run);
+  if (run.status === "succeeded") {
+    await registerRunItems(run.workspaceId, run.id, results, run.finishedAt);
+    await indexRun(run);
+  }
+  return run;
+}
+
+/** A failed index update leaves the run recorded; search catches up next run. */
+async function indexRun(run: MonitoringRun) {
+  try {
+    if (await readSearchIndex(run.workspaceId)) {
+      await indexWorkspaceItems(run.workspaceId, [
+        { items: run.results, seenAt: run.finishedAt },
+      ]);
+    } else {
+      await loadSearchIndex(run.workspaceId);
+    }
+  } catch (error) {
+    console.error("Failed to index run items", run.id, error);
+  }
+}
+
+export async function listRuns(workspaceId: string | null) {
+  const index = await readJson<RunSummary[]>(INDEX_NAME, []);
+  return index.filter((entry) => entry.workspaceId === workspaceId);
+}
+
+export async function getRun(id: string) {
+  if (!RUN_ID_PATTERN.test(id)) return null;
+  return readJson<MonitoringRun | null>(runFileName(id), null);
+}
+
+/**
+ * Carries a taxonomy rename or merge into the stored results of a
+ * workspace's runs, so history and comparisons use the current names.
+ * Returns how many runs changed.
+ */
+export async function recategorizeRuns(
+  workspaceId: string | null,
+  change: CategoryChange,
+) {
+  const runs = await listRuns(workspaceId);
+  let changed = 0;
+  for (const { id } of runs) {
+    const run = await getRun(id);
+    if (!run) continue;
+    const results = run.results.map((item) => recategorize(item, change));
+    if (results.some((item, index) => item !== run.results[index])) {
+      await writeJson(runFileName(id), { ...run, results });
+      changed += 1;
+    }
+  }
+  return changed;
+}
+
+/**
+ * The workspace's search index. Workspaces with history from before the
+ * index existed have it built from their stored successful runs, oldest
+ * first, the first time it is needed.
+ */
+export async function loadSearchIndex(workspaceId: string | null) {
+  const index = await readSearchIndex(workspaceId);
+  if (index) return index;
+  const runs = (await listRuns(workspaceId))
+    .filter((entry) => entry.status === "succeeded")
+    .reverse();
+  const batches: { items: ScoredNewsItem[]; seenAt: string }[] = [];
+  for (const { id } of runs) {
+    const run = await getRun(id);
+    if (run) batches.push({ items: run.results, seenAt: run.finishedAt });
+  }
+  return indexWorkspaceItems(workspaceId, batches);
+}
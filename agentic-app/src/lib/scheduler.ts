@@ -0,0 +1,91 @@
+import { matchesCron, parseCron } from "@/lib/cron";
+import { executeRun } from "@/lib/runs";
+import { DiscoveryPayload } from "@/lib/sources/catalog";
+import { validateSearchPayload } from "@/lib/validation";
+import {
+  Workspace,
+  WorkspaceSettings,
+  listScheduledWorkspaces,
+  recordScheduleTrigger,
+} from "@/lib/workspaces";
+
+// Ticks twice a minute so timer drift can never skip a scheduled minute;
+// claiming lastTriggeredAt stops a second tick from starting a duplicate run.
+const TICK_INTERVAL_MS = 30 * 1000;
+
+type SchedulerState = { timer: ReturnType<typeof setInterval> | null };
+
+// Kept on globalThis so hot reloads in development do not stack intervals.
+const globalScheduler = globalThis as typeof globalThis & {
+  __agenticScheduler?: SchedulerState;
+};
+
+export function toSearchPayload(settings: WorkspaceSettings): DiscoveryPayload {
+  return {
+    keywords: settings.keywordRows,
+    companyTargets: settings.companyTargets,
+    timeRange: settings.timeRange,
+    maxItems: settings.maxItems,
+    adapters: settings.adapters,
+    scoring: settings.scoring,
+    articles: settings.articles,
+  };
+}
+
+function minuteKey(date: Date) {
+  const copy = new Date(date.getTime());
+  copy.setSeconds(0, 0);
+  return copy.toISOString();
+}
+
+function isDue(workspace: Workspace, now: Date) {
+  const schedule = workspace.schedule;
+  if (!schedule?.enabled) return false;
+  if (schedule.lastTriggeredAt === minuteKey(now)) return false;
+  try {
+    return matchesCron(parseCron(schedule.cron), now);
+  } catch (error) {
+    console.error(`Invalid schedule for workspace ${workspace.id}`, error);
+    return false;
+  }
+}
+
+/**
+ * Starts every workspace whose cron expression matches the current minute.
+ * Runs are sequential to keep outbound fetch volume predictable.
+ */
+export async function runDueSchedules(now: Date = new Date()) {
+  const due = (await listScheduledWorkspaces()).filter((workspace) =>
+    isDue(workspace, now),
+  );
+  const runIds: string[] = [];
+  for (const workspace of due) {
+    if (!(await recordScheduleTrigger(workspace.id, minuteKey(now)))) continue;
+    const validation = validateSearchPayload(
+      toSearchPayload(workspace.settings),
+    );
+    if (!validation.ok) {
+      console.error(
+        `Skipping scheduled run for workspace ${workspace.id}`,
+        validation.errors,
+      );
+      continue;
+    }
+    const run = await executeRun(validation.value, {
+      workspaceId: workspace.id,
+      trigger: "schedule",
+    });
+    runIds.push(run.id);
+  }
+  return runIds;
+}
+
+export function startScheduler() {
+  const state = (globalScheduler.__agenticScheduler ??= { timer: null });
+  if (state.timer) return;
+  state.timer = setInterval(() => {
+    runDueSchedules().catch((error) =>
+      console.error("Scheduled monitoring tick failed", error),
+    );
+  }, TICK_INTERVAL_MS);
+}
@@ -0,0 +1,465 @@
+import { ConsolidatedNewsItem, KeywordSourceRow } from "@/lib/types";
+import type { RelatedCoverage } from "@/lib/clustering";
+import type { ItemEntities } from "@/lib/entities";
+import type { ItemEvent } from "@/lib/events";
+import type { CategoryAssignment } from "@/lib/categorization";
+import type { SummarySource } from "@/lib/articles";
+import { KeywordHit, KeywordRuleFields, matchesRow } from "@/lib/keyword-rules";
+
+const REGULATOR_HOSTS = [
+  "fda.gov",
+  "ema.europa.eu",
+  "gov.uk",
+  "canada.ca",
+  "tga.gov.au",
+  "pmda.go.jp",
+];
+
+const TRADE_PRESS_HOSTS = [
+  "reuters.com",
+  "fiercepharma.com",
+  "biopharmadive.com",
+  "endpts.com",
+  "centerforbiosimilars.com",
+  "statnews.com",
+  "pharmaceutical-technology.com",
+];
+
+const AGGREGATOR_HOSTS = [
+  "news.google.com",
+  "news.yahoo.com",
+  "finance.yahoo.com",
+  "msn.com",
+  "feedburner.com",
+];
+
+const GOVERNMENT_SUFFIXES = [".gov", ".gov.uk", ".europa.eu", ".gc.ca", ".int"];
+
+export type ReputationTier =
+  "trusted" | "reputable" | "standard" | "low" | "blocked";
+
+export const REPUTATION_TIERS: {
+  id: ReputationTier;
+  label: string;
+  points: number;
+}[] = [
+  { id: "trusted", label: "Trusted", points: 40 },
+  { id: "reputable", label: "Reputable", points: 30 },
+  { id: "standard", label: "Standard", points: 15 },
+  { id: "low", label: "Low", points: 5 },
+  { id: "blocked", label: "Blocked", points: 0 },
+];
+
+export const MAX_KEYWORD_WEIGHT = 5;
+export const MAX_CATEGORY_MULTIPLIER = 3;
+
+export type SourceReputation = {
+  /** Matches the host and its subdomains, e.g. `fda.gov`. */
+  domain: string;
+  tier: ReputationTier;
+};
+
+export type ScoringConfig = {
+  sources: SourceReputation[];
+  /** Tier for the watchlist targets' own sites, such as IR pages. */
+  ownSiteTier: ReputationTier;
+  /** Impact multiplier per SOP category; unlisted categories use 1. */
+  categoryMultipliers: Record<string, number>;
+};
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  sources: [
+    ...REGULATOR_HOSTS.map((domain) => ({
+      domain,
+      tier: "trusted" as const,
+    })),
+    ...TRADE_PRESS_HOSTS.map((domain) => ({
+      domain,
+      tier: "reputable" as const,
+    })),
+    ...AGGREGATOR_HOSTS.map((domain) => ({ domain, tier: "low" as const })),
+  ],
+  ownSiteTier: "trusted",
+  categoryMultipliers: {},
+};
+
+/**
+ * A taxonomy row whose matches count `weight` times toward impact (default
+ * 1), with the synonyms, include/exclude terms and query it matches by.
+ */
+export type WeightedKeywordRow = KeywordSourceRow &
+  KeywordRuleFields & { weight?: number };
+
+export type ScoreFactor = {
+  key: string;
+  label: string;
+  points: number;
+  detail: string;
+};
+
+export type ScoreExplanation = {
+  total: number;
+  factors: ScoreFactor[];
+};
+
+export type ScoreBreakdown = {
+  authentic: ScoreExplanation;
+  marketImpact: ScoreExplanation;
+};
+
+/** Scores an adapter assigned itself, before the pipeline adjusts them. */
+export type SourceScores = {
+  authentic?: number;
+  marketImpact?: number;
+};
+
+/** A consolidated item whose scores carry the factors that produced them. */
+export type ScoredNewsItem = ConsolidatedNewsItem & {
+  scoreBreakdown?: ScoreBreakdown;
+  sourceScores?: SourceScores;
+  /** Outlets that carried the story, kept so the item can be rescored. */
+  corroboration?: number;
+  /** Near-duplicate reports from other outlets, clustered behind this one. */
+  related?: RelatedCoverage[];
+  /** Molecules, brands, regulators and the like named in the item. */
+  entities?: ItemEntities;
+  /** Regulatory event the item reports, when a rule recognises one. */
+  event?: ItemEvent;
+  /** Where the item's categories came from and how sure that source is. */
+  categoryAssignment?: CategoryAssignment;
+  /** Which keyword, synonym, expansion or query produced each keyword match. */
+  keywordHits?: KeywordHit[];
+  /** Set when the summary was extracted from the fetched article page. */
+  summarySource?: SummarySource;
+  /** Analyst's note for the newsletter, set while curating an issue. */
+  editorialNote?: string;
+};
+
+export type ScoringContext = {
+  /** Hosts of the watchlist targets, treated as the companies' own sites. */
+  ownHosts: string[];
+  /** Distinct outlets that carried the story, near-duplicates included. */
+  corroboration: number;
+  config: ScoringConfig;
+  keywords: WeightedKeywordRow[];
+  now?: number;
+};
+
+export function hostOf(url: string) {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+function matchesHost(host: string, candidates: string[]) {
+  return candidates.some(
+    (candidate) => host === candidate || host.endsWith(`.${candidate}`),
+  );
+}
+
+function clamp(value: number) {
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+function explain(base: ScoreFactor, factors: ScoreFactor[]): ScoreExplanation {
+  const all = [base, ...factors];
+  return {
+    total: clamp(all.reduce((sum, factor) => sum + factor.points, 0)),
+    factors: all,
+  };
+}
+
+/** Lowercases a domain typed by an analyst, dropping scheme, `www.` and path. */
+export function normalizeDomain(value: string) {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/^www\./, "")
+    .replace(/[/?#:].*$/, "");
+}
+
+function tierInfo(tier: ReputationTier) {
+  return (
+    REPUTATION_TIERS.find((entry) => entry.id === tier) ?? REPUTATION_TIERS[2]
+  );
+}
+
+/** The most specific listed domain wins, so `news.example.com` can override `example.com`. */
+function listedSource(host: string, config: ScoringConfig) {
+  return config.sources
+    .map((source) => ({ ...source, domain: normalizeDomain(source.domain) }))
+    .filter((source) => source.domain && matchesHost(host, [source.domain]))
+    .sort((a, b) => b.domain.length - a.domain.length)[0];
+}
+
+export function isBlockedSource(url: string, config: ScoringConfig) {
+  return listedSource(hostOf(url), config)?.tier === "blocked";
+}
+
+function reputationFactor(host: string, context: ScoringContext): ScoreFactor {
+  const label = "Source reputation";
+  const listed = listedSource(host, context.config);
+  if (listed) {
+    const tier = tierInfo(listed.tier);
+    return {
+      key: "reputation",
+      label,
+      points: tier.points,
+      detail: `${tier.label} (${listed.domain})`,
+    };
+  }
+  if (matchesHost(host, context.ownHosts)) {
+    const tier = tierInfo(context.config.ownSiteTier);
+    return {
+      key: "reputation",
+      label,
+      points: tier.points,
+      detail: `${tier.label} (company's own site)`,
+    };
+  }
+  const tier = tierInfo("standard");
+  return {
+    key: "reputation",
+    label,
+    points: tier.points,
+    detail: "Unlisted outlet",
+  };
+}
+
+function domainTypeFactor(host: string): ScoreFactor {
+  const label = "Domain type";
+  if (GOVERNMENT_SUFFIXES.some((suffix) => host.endsWith(suffix))) {
+    return { key: "domain", label, points: 10, detail: "Government domain" };
+  }
+  return { key: "domain", label, points: 0, detail: "Commercial domain" };
+}
+
+function keywordWeight(keyword: string, keywords: WeightedKeywordRow[]) {
+  const needle = keyword.trim().toLowerCase();
+  const row = keywords.find(
+    (entry) => entry.keyword.trim().toLowerCase() === needle,
+  );
+  return typeof row?.weight === "number" ? row.weight : 1;
+}
+
+/** The three heaviest matched keywords count, at 12 points times their weight. */
+function keywordFactor(
+  matches: string[],
+  keywords: WeightedKeywordRow[],
+): ScoreFactor {
+  const weighted = matches
+    .map((keyword) => ({ keyword, weight: keywordWeight(keyword, keywords) }))
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, 3);
+  const adjusted = weighted.filter((entry) => entry.weight !== 1);
+  const count = `${matches.length} taxonomy keyword${matches.length === 1 ? "" : "s"}`;
+  return {
+    key: "keywords",
+    label: "Keyword weight",
+    points: Math.round(
+      weighted.reduce((sum, entry) => sum + entry.weight * 12, 0),
+    ),
+    detail:
+      adjusted.length > 0
+        ? `${count}; ${adjusted.map((entry) => `${entry.keyword} ×${entry.weight}`).join(", ")}`
+        : count,
+  };
+}
+
+function corroborationFactor(
+  corroboration: number,
+  perSource: number,
+  cap: number,
+): ScoreFactor {
+  const extra = Math.max(0, corroboration - 1);
+  return {
+    key: "corroboration",
+    label: "Corroboration",
+    points: Math.min(extra * perSource, cap),
+    detail:
+      corroboration > 1
+        ? `Reported by ${corroboration} outlets`
+        : "Single outlet",
+  };
+}
+
+function sourceScoreFactor(points: number): ScoreFactor {
+  return {
+    key: "source",
+    label: "Source score",
+    points,
+    detail: "Assigned by the source",
+  };
+}
+
+function ageInDays(publishedAt: string, now: number) {
+  const published = new Date(publishedAt).getTime();
+  return Number.isNaN(published)
+    ? null
+    : Math.max(0, (now - published) / 86_400_000);
+}
+
+/**
+ * A score the source assigned is the starting point, since the source has
+ * already weighed the outlet; only corroboration across outlets is added.
+ */
+export function scoreAuthenticity(
+  item: Pick<ScoredNewsItem, "url" | "sourceScores">,
+  context: ScoringContext,
+): ScoreExplanation {
+  const sourceScore = item.sourceScores?.authentic;
+  if (typeof sourceScore === "number") {
+    return explain(sourceScoreFactor(sourceScore), [
+      corroborationFactor(context.corroboration, 8, 24),
+    ]);
+  }
+  const host = hostOf(item.url);
+  return explain(
+    { key: "base", label: "Baseline", points: 30, detail: "Every item" },
+    [
+      reputationFactor(host, context),
+      domainTypeFactor(host),
+      corroborationFactor(context.corroboration, 8, 24),
+    ],
+  );
+}
+
+/**
+ * A score the source assigned is the starting point in place of the keyword,
+ * company and recency factors it already covers; corroboration and the SOP
+ * category multiplier still apply.
+ */
+export function scoreMarketImpact(
+  item: Pick<
+    ScoredNewsItem,
+    | "publishedAt"
+    | "keywordMatches"
+    | "companyMatches"
+    | "sopCategory"
+    | "sourceScores"
+  >,
+  context: ScoringContext,
+): ScoreExplanation {
+  const age = ageInDays(item.publishedAt, context.now ?? Date.now());
+  const companies = Math.min(item.companyMatches.length, 2);
+  const sourceScore = item.sourceScores?.marketImpact;
+  const base: ScoreFactor =
+    typeof sourceScore === "number"
+      ? sourceScoreFactor(sourceScore)
+      : {
+          key: "base",
+          label: "Baseline",
+          points: 20,
+          detail: "Every item",
+        };
+  const heuristics: ScoreFactor[] = [
+    keywordFactor(item.keywordMatches, context.keywords),
+    {
+      key: "companies",
+      label: "Company mention",
+      points: companies * 10,
+      detail:
+        item.companyMatches.length > 0
+          ? item.companyMatches.join(", ")
+          : "No watchlist company",
+    },
+    {
+      key: "recency",
+      label: "Recency",
+      points: age === null ? 0 : Math.round(Math.max(0, 20 - age * 2)),
+      detail: age === null ? "Undated" : `${Math.floor(age)} days old`,
+    },
+  ];
+  const factors: ScoreFactor[] = [
+    ...(typeof sourceScore === "number" ? [] : heuristics),
+    corroborationFactor(context.corroboration, 5, 15),
+  ];
+  const multiplier = item.sopCategory
+    ? context.config.categoryMultipliers[item.sopCategory]
+    : undefined;
+  if (typeof multiplier === "number" && multiplier !== 1) {
+    const subtotal = [base, ...factors].reduce(
+      (sum, factor) => sum + factor.points,
+      0,
+    );
+    factors.push({
+      key: "category",
+      label: "SOP category",
+      points: Math.round(subtotal * (multiplier - 1)),
+      detail: `${item.sopCategory} ×${multiplier}`,
+    });
+  }
+  return explain(base, factors);
+}
+
+/** Scores an item and records why, starting from any scores its source gave. */
+export function scoreItem<T extends ScoredNewsItem>(
+  item: T,
+  context: ScoringContext,
+): T & { scoreBreakdown: ScoreBreakdown; corroboration: number } {
+  const authentic = scoreAuthenticity(item, context);
+  const marketImpact = scoreMarketImpact(item, context);
+  return {
+    ...item,
+    authenticScore: authentic.total,
+    marketImpactScore: marketImpact.total,
+    scoreBreakdown: { authentic, marketImpact },
+    corroboration: context.corroboration,
+  };
+}
+
+export function rankResults<T extends ConsolidatedNewsItem>(items: T[]) {
+  return [...items].sort(
+    (a, b) =>
+      b.marketImpactScore - a.marketImpactScore ||
+      b.authenticScore - a.authenticScore ||
+      new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime(),
+  );
+}
+
+/**
+ * Applies a changed config to items that were already collected, without
+ * fetching again. Items now on a blocked domain are dropped.
+ */
+export function rescoreItems<T extends ScoredNewsItem>(
+  items: T[],
+  context: Omit<ScoringContext, "corroboration">,
+) {
+  return rankResults(
+    items
+      .filter((item) => !isBlockedSource(item.url, context.config))
+      .map((item) =>
+        scoreItem(item, {
+          ...context,
+          corroboration: item.corroboration ?? 1,
+        }),
+      ),
+  );
+}
+
+export function describeBreakdown(explanation: ScoreExplanation | undefined) {
+  if (!explanation) return "";
+  return explanation.factors
+    .map(
+      (factor) =>
+        `${factor.label} ${factor.points > 0 ? "+" : ""}${factor.points} (${factor.detail})`,
+    )
+    .join("; ");
+}
+
+export function matchKeywords(text: string, keywords: WeightedKeywordRow[]) {
+  return keywords
+    .filter((row) => row.keyword.trim() && matchesRow(row, text))
+    .map((row) => row.keyword);
+}
+
+export function matchCompanies(text: string, keywords: KeywordSourceRow[]) {
+  const haystack = text.toLowerCase();
+  const companies = new Set(keywords.flatMap((row) => row.companies ?? []));
+  return Array.from(companies).filter(
+    (company) => company.trim() && haystack.includes(company.toLowerCase()),
+  );
+}
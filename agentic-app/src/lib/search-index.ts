@@ -0,0 +1,405 @@
+import { CompanyEntry, companyGroupsOf, findCompany } from "@/lib/companies";
+import { itemIdentity } from "@/lib/items";
+import { QuerySyntaxError } from "@/lib/keyword-rules";
+import type { ScoredNewsItem } from "@/lib/scoring";
+import { isWithinCategory } from "@/lib/taxonomy";
+
+/** An item as last collected, with when it was first and last seen. */
+export type IndexedItem = {
+  identity: string;
+  item: ScoredNewsItem;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  /** Weighted token count, for length normalisation. */
+  length: number;
+};
+
+/** What ranking and date bounds need of an item, kept beside the postings. */
+export type IndexEntry = Omit<IndexedItem, "identity" | "item"> & {
+  publishedAt: string;
+};
+
+/**
+ * An inverted index over every item a workspace has collected: `postings`
+ * maps each token to the items containing it and its weighted frequency.
+ * Item bodies are stored apart, so a search reads only those it returns or
+ * must filter.
+ */
+export type SearchIndex = {
+  entries: Record<string, IndexEntry>;
+  postings: Record<string, Record<string, number>>;
+};
+
+/** Stored item bodies by identity. */
+export type IndexedBodies = Record<string, ScoredNewsItem>;
+
+export type SearchField = "source" | "company" | "sop" | "business" | "keyword";
+
+export const SEARCH_FIELDS: { id: SearchField; label: string }[] = [
+  { id: "source", label: "Outlet name or host" },
+  {
+    id: "company",
+    label: "Matched company by name or alias, with its subsidiaries",
+  },
+  { id: "sop", label: "SOP category and its sub-categories" },
+  { id: "business", label: "Business category" },
+  { id: "keyword", label: "Matched keyword" },
+];
+
+/**
+ * A parsed search. Terms and phrases must all occur in the item's text;
+ * prefixed values filter without affecting relevance. Dates bound
+ * `publishedAt`, `to` inclusive.
+ */
+export type ItemSearch = {
+  terms: string[];
+  phrases: string[][];
+  excluded: string[][];
+  filters: { field: SearchField; value: string; negated: boolean }[];
+  from?: string;
+  to?: string;
+};
+
+export type SearchHit = IndexedItem & { relevance: number };
+
+export type SearchOutcome = { hits: SearchHit[]; total: number };
+
+export function emptySearchIndex(): SearchIndex {
+  return { entries: {}, postings: {} };
+}
+
+const FIELD_WEIGHTS = { title: 3, companies: 2, summary: 1, source: 1 };
+
+// BM25 parameters, the usual defaults.
+const K1 = 1.2;
+const B = 0.75;
+
+export function tokenize(text: string) {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function fieldTexts(item: ScoredNewsItem) {
+  return {
+    title: item.title,
+    companies: item.companyMatches.join(" "),
+    summary: item.summary,
+    source: item.source,
+  };
+}
+
+function weightedTokens(item: ScoredNewsItem) {
+  const weights = new Map<string, number>();
+  Object.entries(fieldTexts(item)).forEach(([field, text]) => {
+    const weight = FIELD_WEIGHTS[field as keyof typeof FIELD_WEIGHTS];
+    tokenize(text).forEach((token) =>
+      weights.set(token, (weights.get(token) ?? 0) + weight),
+    );
+  });
+  return weights;
+}
+
+function removePostings(
+  postings: SearchIndex["postings"],
+  identity: string,
+  item: ScoredNewsItem,
+) {
+  weightedTokens(item).forEach((_, token) => {
+    const list = postings[token];
+    if (!list) return;
+    delete list[identity];
+    if (Object.keys(list).length === 0) delete postings[token];
+  });
+}
+
+/**
+ * Adds or refreshes an item, updating the index and the bodies in place. A
+ * later sighting replaces the stored copy, so the index holds each story as
+ * it was last collected.
+ */
+export function indexItem(
+  index: SearchIndex,
+  bodies: IndexedBodies,
+  item: ScoredNewsItem,
+  seenAt: string,
+) {
+  const identity = itemIdentity(item);
+  const existing = index.entries[identity];
+  const previous = bodies[identity];
+  if (previous) removePostings(index.postings, identity, previous);
+  let length = 0;
+  weightedTokens(item).forEach((weight, token) => {
+    const list = index.postings[token] ?? {};
+    list[identity] = weight;
+    index.postings[token] = list;
+    length += weight;
+  });
+  index.entries[identity] = {
+    firstSeenAt: existing?.firstSeenAt ?? seenAt,
+    lastSeenAt: seenAt,
+    length,
+    publishedAt: item.publishedAt,
+  };
+  bodies[identity] = item;
+}
+
+const DATE_PATTERN = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/;
+
+/** The first and last instant of a year, month or day written as ISO. */
+function dateBounds(value: string, position: number) {
+  const [, year, month, day] = (value.match(DATE_PATTERN) ?? []).map(Number);
+  const start = new Date(Date.UTC(year, (month || 1) - 1, day || 1));
+  const valid =
+    year > 0 &&
+    start.getUTCMonth() === (month || 1) - 1 &&
+    start.getUTCDate() === (day || 1);
+  if (!valid) {
+    throw new QuerySyntaxError(
+      `"${value}" is not a date like 2024-05-31`,
+      position,
+    );
+  }
+  const next = day
+    ? Date.UTC(year, month - 1, day + 1)
+    : month
+      ? Date.UTC(year, month, 1)
+      : Date.UTC(year + 1, 0, 1);
+  return { from: start.toISOString(), to: new Date(next - 1).toISOString() };
+}
+
+const FIELD_ALIASES: Record<string, SearchField> = {
+  source: "source",
+  site: "source",
+  company: "company",
+  sop: "sop",
+  category: "sop",
+  business: "business",
+  keyword: "keyword",
+};
+
+/**
+ * Parses words, "quoted phrases", `-` exclusions and prefixes:
+ * `source:`, `company:`, `sop:`, `business:` and `keyword:` filter by field
+ * (quote values with spaces), and `from:`, `to:` or `date:` take a year,
+ * month or day, `date:` also a `start..end` range. A word ending in `*`
+ * matches any word it begins. Unknown prefixes are searched as text.
+ */
+export function parseItemSearch(source: string): ItemSearch {
+  const search: ItemSearch = {
+    terms: [],
+    phrases: [],
+    excluded: [],
+    filters: [],
+  };
+  const pattern = /(-?)(?:([a-z]+):)?(?:"([^"]*)"|([^\s"]+))|"/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    const [whole, minus, prefix, quoted, bare] = match;
+    const position = match.index;
+    if (whole === '"') throw new QuerySyntaxError("Unclosed quote", position);
+    const negated = minus === "-";
+    const value = (quoted ?? bare ?? "").trim();
+    const key = prefix?.toLowerCase();
+    if (!value) {
+      if (quoted !== undefined) {
+        throw new QuerySyntaxError("Empty phrase", position);
+      }
+      continue;
+    }
+    if (key === "from" || key === "to" || key === "date") {
+      const [start, end = start] =
+        key === "date" ? value.split("..") : [value, value];
+      const bounds = {
+        from: dateBounds(start, position).from,
+        to: dateBounds(end, position).to,
+      };
+      if (key !== "to") search.from = bounds.from;
+      if (key !== "from") search.to = bounds.to;
+      continue;
+    }
+    if (key && FIELD_ALIASES[key]) {
+      search.filters.push({ field: FIELD_ALIASES[key], value, negated });
+      continue;
+    }
+    const text = prefix ? `${prefix}:${value}` : value;
+    const prefixWord = quoted === undefined && /\*$/.test(text);
+    const tokens = tokenize(text);
+    if (tokens.length === 0) continue;
+    if (negated) {
+      search.excluded.push(tokens);
+    } else if (quoted !== undefined || tokens.length > 1) {
+      search.phrases.push(tokens);
+    } else {
+      search.terms.push(prefixWord ? `${tokens[0]}*` : tokens[0]);
+    }
+  }
+  if (search.from && search.to && search.from > search.to) {
+    throw new QuerySyntaxError("The date range ends before it starts", 0);
+  }
+  return search;
+}
+
+export function isEmptySearch(search: ItemSearch) {
+  return (
+    search.terms.length === 0 &&
+    search.phrases.length === 0 &&
+    search.excluded.length === 0 &&
+    search.filters.length === 0 &&
+    !search.from &&
+    !search.to
+  );
+}
+
+/** Tokens of the index a query word stands for: itself, or all it prefixes. */
+function expandTerm(index: SearchIndex, term: string) {
+  if (!term.endsWith("*")) return index.postings[term] ? [term] : [];
+  const stem = term.slice(0, -1);
+  return Object.keys(index.postings).filter((token) => token.startsWith(stem));
+}
+
+function containsPhrase(item: ScoredNewsItem, phrase: string[]) {
+  const needle = ` ${phrase.join(" ")} `;
+  return Object.values(fieldTexts(item)).some((text) =>
+    ` ${tokenize(text).join(" ")} `.includes(needle),
+  );
+}
+
+function matchesFilter(
+  item: ScoredNewsItem,
+  filter: ItemSearch["filters"][number],
+  registry: CompanyEntry[],
+) {
+  const value = filter.value.toLowerCase();
+  const includes = (candidate?: string) =>
+    Boolean(candidate?.toLowerCase().includes(value));
+  switch (filter.field) {
+    case "source":
+      return includes(item.source) || includes(item.url.split("/")[2]);
+    case "company": {
+      const wanted = findCompany(filter.value, registry)?.name;
+      return (
+        item.companyMatches.some(includes) ||
+        (wanted !== undefined &&
+          companyGroupsOf(item.companyMatches, registry).includes(wanted))
+      );
+    }
+    case "sop":
+      return (
+        isWithinCategory(item.sopCategory ?? "", filter.value) ||
+        includes(item.sopCategory)
+      );
+    case "business":
+      return includes(item.businessCategory);
+    case "keyword":
+      return item.keywordMatches.some(includes);
+  }
+}
+
+/**
+ * Finds the indexed items matching the search, most relevant first. Items
+ * are ranked by BM25 over their weighted tokens; searches made only of
+ * filters list the newest items first. Bodies are loaded only for the page
+ * returned, unless phrases, exclusions or field filters must read them.
+ */
+export async function searchItems(
+  index: SearchIndex,
+  search: ItemSearch,
+  loadBodies: (identities: string[]) => Promise<IndexedBodies>,
+  options: { registry?: CompanyEntry[]; limit?: number; offset?: number } = {},
+): Promise<SearchOutcome> {
+  const entries = Object.values(index.entries);
+  const count = entries.length;
+  const averageLength =
+    entries.reduce((sum, entry) => sum + entry.length, 0) / (count || 1);
+  const required = [
+    ...search.terms.map((term) => expandTerm(index, term)),
+    ...search.phrases.flatMap((phrase) =>
+      phrase.map((token) => expandTerm(index, token)),
+    ),
+  ];
+
+  let candidates: Set<string>;
+  if (required.length === 0) {
+    candidates = new Set(Object.keys(index.entries));
+  } else {
+    const lists = required.map(
+      (tokens) =>
+        new Set(
+          tokens.flatMap((token) => Object.keys(index.postings[token] ?? {})),
+        ),
+    );
+    candidates = lists.reduce(
+      (shared, list) =>
+        new Set(Array.from(shared).filter((identity) => list.has(identity))),
+    );
+  }
+
+  const ranked = Array.from(candidates).flatMap((identity) => {
+    const entry = index.entries[identity];
+    if (!entry) return [];
+    if (search.from && entry.publishedAt < search.from) return [];
+    if (search.to && entry.publishedAt > search.to) return [];
+    const relevance = required.reduce(
+      (total, tokens) =>
+        total +
+        tokens.reduce((sum, token) => {
+          const list = index.postings[token] ?? {};
+          const frequency = list[identity] ?? 0;
+          if (frequency === 0) return sum;
+          const documents = Object.keys(list).length;
+          const idf = Math.log(
+            1 + (count - documents + 0.5) / (documents + 0.5),
+          );
+          return (
+            sum +
+            (idf * frequency * (K1 + 1)) /
+              (frequency +
+                K1 * (1 - B + (B * entry.length) / (averageLength || 1)))
+          );
+        }, 0),
+      0,
+    );
+    return [{ identity, entry, relevance: Math.round(relevance * 100) / 100 }];
+  });
+  ranked.sort(
+    (a, b) =>
+      b.relevance - a.relevance ||
+      b.entry.publishedAt.localeCompare(a.entry.publishedAt),
+  );
+
+  const registry = options.registry ?? [];
+  const readsText =
+    search.phrases.length > 0 ||
+    search.excluded.length > 0 ||
+    search.filters.length > 0;
+  const offset = options.offset ?? 0;
+  const end = offset + (options.limit ?? ranked.length);
+  const wanted = readsText ? ranked : ranked.slice(offset, end);
+  const bodies = await loadBodies(wanted.map(({ identity }) => identity));
+  const matching = wanted.filter(({ identity }) => {
+    const item = bodies[identity];
+    if (!item) return false;
+    if (!readsText) return true;
+    if (search.phrases.some((phrase) => !containsPhrase(item, phrase))) {
+      return false;
+    }
+    if (search.excluded.some((phrase) => containsPhrase(item, phrase))) {
+      return false;
+    }
+    return !search.filters.some(
+      (filter) => matchesFilter(item, filter, registry) === filter.negated,
+    );
+  });
+  const page = readsText ? matching.slice(offset, end) : matching;
+  return {
+    hits: page.map(({ identity, entry, relevance }) => {
+      const { publishedAt: _publishedAt, ...seen } = entry;
+      return { identity, item: bodies[identity], ...seen, relevance };
+    }),
+    total: readsText ? matching.length : ranked.length,
+  };
+}
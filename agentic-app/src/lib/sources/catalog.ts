@@ -0,0 +1,68 @@
+import { SearchPayload } from "@/lib/types";
+import type { ArticleSettings } from "@/lib/articles";
+import { ScoringConfig, WeightedKeywordRow } from "@/lib/scoring";
+import { WatchTarget } from "@/lib/targets";
+
+export type AdapterId = "search" | "company" | "rss" | "regulator" | "fixture";
+
+export type AdapterInfo = {
+  id: AdapterId;
+  label: string;
+  description: string;
+};
+
+/** Client-safe adapter metadata; implementations live in ./registry. */
+export const ADAPTER_CATALOG: AdapterInfo[] = [
+  {
+    id: "search",
+    label: "Web search",
+    description: "Search-engine discovery for each taxonomy keyword.",
+  },
+  {
+    id: "company",
+    label: "Company pages",
+    description:
+      "Scrapes HTML watchlist targets such as IR press-release pages.",
+  },
+  {
+    id: "rss",
+    label: "Feeds & sitemaps",
+    description: "Parses watchlist targets typed as RSS, Atom or sitemap.",
+  },
+  {
+    id: "regulator",
+    label: "Regulator feeds",
+    description: "FDA and EMA announcements matching the taxonomy.",
+  },
+  {
+    id: "fixture",
+    label: "Recorded fixtures",
+    description: "Replays responses recorded to disk, for offline work.",
+  },
+];
+
+export const ADAPTER_IDS = ADAPTER_CATALOG.map((adapter) => adapter.id);
+
+/** Runs recorded before adapters existed carry no id, hence the fallback. */
+export function adapterLabel(id: AdapterId | undefined) {
+  return (
+    ADAPTER_CATALOG.find((adapter) => adapter.id === id)?.label ?? "Source"
+  );
+}
+
+export const DEFAULT_ADAPTERS: AdapterId[] = ["search", "company", "rss"];
+
+/**
+ * A search request plus the adapters to fan out to, the scoring config and
+ * the article summary settings (defaults when unset).
+ */
+export type DiscoveryPayload = Omit<
+  SearchPayload,
+  "keywords" | "companyTargets"
+> & {
+  keywords: WeightedKeywordRow[];
+  companyTargets: WatchTarget[];
+  adapters?: AdapterId[];
+  scoring?: ScoringConfig;
+  articles?: ArticleSettings;
+};
@@ -0,0 +1,51 @@
+import { ExtractionRules, extractWithRules, hasRules } from "@/lib/extraction";
+import { gatherNews } from "@/lib/news";
+import { WatchTarget, isStructuredTarget } from "@/lib/targets";
+import { fetchText, hostLabel, withinTimeRange } from "@/lib/sources/shared";
+import { RawNewsItem, SourceAdapter } from "@/lib/sources/types";
+
+export type RuleScrape = {
+  containerCount: number;
+  items: RawNewsItem[];
+};
+
+export function applyRules(
+  body: string,
+  target: WatchTarget,
+  rules: ExtractionRules,
+): RuleScrape {
+  const { containerCount, entries } = extractWithRules(body, target.url, rules);
+  const source = target.label || hostLabel(target.url);
+  return {
+    containerCount,
+    items: entries.map((entry) => ({ ...entry, source })),
+  };
+}
+
+/**
+ * Scrapes HTML watchlist pages such as investor-relations press rooms, using
+ * the target's extraction rules when it has them and the generic scraper
+ * otherwise. Feed and sitemap targets are left to the RSS adapter.
+ */
+export const companyPageAdapter: SourceAdapter = {
+  id: "company",
+  plan: (payload, maxItems) =>
+    payload.companyTargets
+      .filter((target) => target.url.trim() && !isStructuredTarget(target))
+      .map((target) => ({
+        id: `company-${target.id}`,
+        adapterId: "company",
+        kind: "target",
+        label: target.label || target.url,
+        url: target.url,
+        execute: async (signal) => {
+          if (!hasRules(target.rules)) {
+            return gatherNews([], [target], payload.timeRange, maxItems);
+          }
+          const body = await fetchText(target.url, signal);
+          return applyRules(body, target, target.rules).items.filter((item) =>
+            withinTimeRange(item.publishedAt, payload.timeRange),
+          );
+        },
+      })),
+};
@@ -0,0 +1,95 @@
+import { readJson, writeJson } from "@/lib/store";
+import { configuredFeeds } from "@/lib/sources/regulator";
+import { slugify } from "@/lib/sources/shared";
+import {
+  AdapterTask,
+  RawNewsItem,
+  SourceAdapter,
+  SourceTask,
+} from "@/lib/sources/types";
+
+type FixtureRecord = {
+  recordedAt: string;
+  task: Pick<SourceTask, "adapterId" | "kind" | "label" | "url">;
+  items: RawNewsItem[];
+};
+
+function fixtureName(task: Pick<SourceTask, "kind" | "label" | "url">) {
+  return `fixtures/${task.kind}--${slugify(task.url ?? task.label)}`;
+}
+
+export function isRecordingFixtures() {
+  return process.env.AGENTIC_RECORD_FIXTURES === "1";
+}
+
+/** Saves a live task's raw output so the fixture adapter can replay it. */
+export async function recordFixture(task: SourceTask, items: RawNewsItem[]) {
+  const record: FixtureRecord = {
+    recordedAt: new Date().toISOString(),
+    task: {
+      adapterId: task.adapterId,
+      kind: task.kind,
+      label: task.label,
+      url: task.url,
+    },
+    items,
+  };
+  await writeJson(fixtureName(task), record);
+}
+
+function replayTask(task: Omit<AdapterTask, "execute">): AdapterTask {
+  return {
+    ...task,
+    execute: async () => {
+      const record = await readJson<FixtureRecord | null>(
+        fixtureName(task),
+        null,
+      );
+      if (!record) {
+        throw new Error(`No recorded fixture for "${task.label}".`);
+      }
+      return record.items;
+    },
+  };
+}
+
+/**
+ * Replays responses captured with `AGENTIC_RECORD_FIXTURES=1`. Recordings are
+ * returned as captured, without time-range filtering, so old captures stay
+ * useful offline.
+ */
+export const fixtureAdapter: SourceAdapter = {
+  id: "fixture",
+  plan: (payload) => [
+    ...payload.keywords
+      .filter((row) => row.keyword.trim().length > 0)
+      .map((row, index) =>
+        replayTask({
+          id: `fixture-keyword-${index}`,
+          adapterId: "fixture",
+          kind: "keyword",
+          label: row.keyword,
+        }),
+      ),
+    ...payload.companyTargets
+      .filter((target) => target.url.trim().length > 0)
+      .map((target) =>
+        replayTask({
+          id: `fixture-target-${target.id}`,
+          adapterId: "fixture",
+          kind: "target",
+          label: target.label || target.url,
+          url: target.url,
+        }),
+      ),
+    ...configuredFeeds().map((feed, index) =>
+      replayTask({
+        id: `fixture-feed-${index}`,
+        adapterId: "fixture",
+        kind: "feed",
+        label: feed.label,
+        url: feed.url,
+      }),
+    ),
+  ],
+};
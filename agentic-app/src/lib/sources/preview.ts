@@ -0,0 +1,94 @@
+import { hasRules } from "@/lib/extraction";
+import { detectDocumentType } from "@/lib/feeds";
+import { gatherNews } from "@/lib/news";
+import { TargetType, WatchTarget, isStructuredTarget } from "@/lib/targets";
+import { applyRules } from "@/lib/sources/company-page";
+import { parseStructuredDocument } from "@/lib/sources/rss";
+import { fetchText } from "@/lib/sources/shared";
+import { RawNewsItem } from "@/lib/sources/types";
+
+export const PREVIEW_LIMIT = 10;
+
+export type TargetPreview = {
+  /** What the URL actually served, which may differ from the declared type. */
+  detectedType: TargetType;
+  items: RawNewsItem[];
+  /** Elements the container selector matched, for rule-based previews. */
+  containerCount?: number;
+};
+
+// Rule previews refetch on every edit; a short cache spares the target site.
+// Expired pages are dropped on each fetch and the oldest go past the cap.
+const PAGE_CACHE_TTL_MS = 60 * 1000;
+const PAGE_CACHE_MAX_ENTRIES = 20;
+const pageCache = new Map<string, { body: string; fetchedAt: number }>();
+
+function prunePageCache(now: number) {
+  pageCache.forEach((entry, url) => {
+    if (now - entry.fetchedAt >= PAGE_CACHE_TTL_MS) pageCache.delete(url);
+  });
+  // Maps iterate in insertion order, so the first keys are the oldest.
+  const excess = pageCache.size - PAGE_CACHE_MAX_ENTRIES;
+  Array.from(pageCache.keys())
+    .slice(0, Math.max(0, excess))
+    .forEach((url) => pageCache.delete(url));
+}
+
+async function fetchCachedPage(url: string, signal?: AbortSignal) {
+  prunePageCache(Date.now());
+  const cached = pageCache.get(url);
+  if (cached) return cached.body;
+  const body = await fetchText(url, signal);
+  pageCache.set(url, { body, fetchedAt: Date.now() });
+  prunePageCache(Date.now());
+  return body;
+}
+
+function newestFirst(items: RawNewsItem[]) {
+  return [...items].sort((a, b) =>
+    (b.publishedAt ?? "").localeCompare(a.publishedAt ?? ""),
+  );
+}
+
+/**
+ * Fetches a target once and previews its latest items without the run's time
+ * window. Undeclared targets are sniffed, so a feed behind an extensionless
+ * URL is reported as such. HTML pages with extraction rules are read with
+ * them; other pages go through the generic scraper.
+ */
+export async function previewTarget(
+  target: WatchTarget,
+  signal?: AbortSignal,
+): Promise<TargetPreview> {
+  if (!isStructuredTarget(target) && hasRules(target.rules)) {
+    const body = await fetchCachedPage(target.url, signal);
+    const { containerCount, items } = applyRules(body, target, target.rules);
+    return {
+      detectedType: "html",
+      items: newestFirst(items).slice(0, PREVIEW_LIMIT),
+      containerCount,
+    };
+  }
+  if (target.type !== "html") {
+    const body = await fetchText(target.url, signal);
+    const sniffed = detectDocumentType(body);
+    if (target.type || (sniffed && sniffed !== "html")) {
+      const { type, items } = await parseStructuredDocument(
+        body,
+        target,
+        signal,
+      );
+      return {
+        detectedType: type,
+        items: newestFirst(items).slice(0, PREVIEW_LIMIT),
+      };
+    }
+  }
+  const items = await gatherNews(
+    [],
+    [target],
+    { preset: "30d" },
+    PREVIEW_LIMIT,
+  );
+  return { detectedType: "html", items: newestFirst(items) };
+}
@@ -0,0 +1,20 @@
+import { AdapterId, DEFAULT_ADAPTERS } from "@/lib/sources/catalog";
+import { companyPageAdapter } from "@/lib/sources/company-page";
+import { fixtureAdapter } from "@/lib/sources/fixture";
+import { regulatorAdapter } from "@/lib/sources/regulator";
+import { rssAdapter } from "@/lib/sources/rss";
+import { searchEngineAdapter } from "@/lib/sources/search-engine";
+import { SourceAdapter } from "@/lib/sources/types";
+
+const ADAPTERS: Record<AdapterId, SourceAdapter> = {
+  search: searchEngineAdapter,
+  company: companyPageAdapter,
+  rss: rssAdapter,
+  regulator: regulatorAdapter,
+  fixture: fixtureAdapter,
+};
+
+/** Resolves a selection to adapters, falling back to the defaults when unset. */
+export function resolveAdapters(selection: AdapterId[] = DEFAULT_ADAPTERS) {
+  return Array.from(new Set(selection)).map((id) => ADAPTERS[id]);
+}
@@ -0,0 +1,66 @@
+import { matchKeywords } from "@/lib/scoring";
+import { readFeed } from "@/lib/sources/rss";
+import { SourceAdapter } from "@/lib/sources/types";
+
+type RegulatorFeed = {
+  label: string;
+  url: string;
+};
+
+const DEFAULT_FEEDS: RegulatorFeed[] = [
+  {
+    label: "FDA press releases",
+    url: "https://www.fda.gov/about-fda/contact-fda/stay-informed/rss-feeds/press-releases/rss.xml",
+  },
+  {
+    label: "EMA news",
+    url: "https://www.ema.europa.eu/en/news.xml",
+  },
+];
+
+/** `REGULATOR_FEEDS` overrides the defaults as comma-separated `label=url` pairs. */
+export function configuredFeeds(): RegulatorFeed[] {
+  const override = process.env.REGULATOR_FEEDS?.trim();
+  if (!override) return DEFAULT_FEEDS;
+  return override
+    .split(",")
+    .map((entry) => {
+      const [label, ...rest] = entry.split("=");
+      const url = rest.join("=").trim();
+      return url
+        ? { label: label.trim(), url }
+        : { label: label.trim(), url: label.trim() };
+    })
+    .filter((feed) => feed.url);
+}
+
+/**
+ * Regulator announcements are high volume, so only entries mentioning a
+ * taxonomy keyword are kept.
+ */
+export const regulatorAdapter: SourceAdapter = {
+  id: "regulator",
+  plan: (payload) =>
+    configuredFeeds().map((feed, index) => ({
+      id: `regulator-${index}`,
+      adapterId: "regulator",
+      kind: "feed",
+      label: feed.label,
+      url: feed.url,
+      execute: async (signal) => {
+        const entries = await readFeed(
+          feed.url,
+          feed.label,
+          payload.timeRange,
+          signal,
+        );
+        return entries.filter(
+          (entry) =>
+            matchKeywords(
+              `${entry.title} ${entry.summary ?? ""}`,
+              payload.keywords,
+            ).length > 0,
+        );
+      },
+    })),
+};
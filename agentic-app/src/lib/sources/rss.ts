@@ -0,0 +1,101 @@
+import { detectDocumentType, parseFeed, parseSitemap } from "@/lib/feeds";
+import {
+  TARGET_TYPE_LABELS,
+  TargetType,
+  WatchTarget,
+  isStructuredTarget,
+  resolveTargetType,
+} from "@/lib/targets";
+import { TimeRangeOption } from "@/lib/types";
+import { fetchText, hostLabel, withinTimeRange } from "@/lib/sources/shared";
+import { RawNewsItem, SourceAdapter } from "@/lib/sources/types";
+
+// Sitemap indexes can list hundreds of children; only the first few are read.
+const MAX_CHILD_SITEMAPS = 3;
+
+export type StructuredDocument = {
+  type: Exclude<TargetType, "html">;
+  items: RawNewsItem[];
+};
+
+async function readSitemapEntries(
+  body: string,
+  url: string,
+  signal?: AbortSignal,
+) {
+  const document = parseSitemap(body, url);
+  const entries = [...document.entries];
+  for (const child of document.sitemaps.slice(0, MAX_CHILD_SITEMAPS)) {
+    entries.push(
+      ...parseSitemap(await fetchText(child, signal), child).entries,
+    );
+  }
+  return entries;
+}
+
+/**
+ * Parses an already fetched feed or sitemap. The document's root element
+ * decides how it is read, so an RSS target that starts serving Atom keeps
+ * working; a page that is not a feed or sitemap at all is an error.
+ */
+export async function parseStructuredDocument(
+  body: string,
+  target: WatchTarget,
+  signal?: AbortSignal,
+): Promise<StructuredDocument> {
+  const type = detectDocumentType(body);
+  if (type === null || type === "html") {
+    throw new Error(
+      `${target.url} did not return a feed or sitemap (expected ${TARGET_TYPE_LABELS[resolveTargetType(target)]}).`,
+    );
+  }
+  const entries =
+    type === "sitemap"
+      ? await readSitemapEntries(body, target.url, signal)
+      : parseFeed(body, target.url);
+  const source = target.label || hostLabel(target.url);
+  return { type, items: entries.map((entry) => ({ ...entry, source })) };
+}
+
+export async function readStructuredTarget(
+  target: WatchTarget,
+  timeRange: TimeRangeOption,
+  signal?: AbortSignal,
+) {
+  const body = await fetchText(target.url, signal);
+  const { type, items } = await parseStructuredDocument(body, target, signal);
+  return items.filter(
+    (item) =>
+      // Sitemaps list every page on a site; only dated entries are news.
+      (type !== "sitemap" || item.publishedAt) &&
+      withinTimeRange(item.publishedAt, timeRange),
+  );
+}
+
+export async function readFeed(
+  url: string,
+  label: string,
+  timeRange: TimeRangeOption,
+  signal?: AbortSignal,
+) {
+  return readStructuredTarget(
+    { id: url, label, url, type: "rss" },
+    timeRange,
+    signal,
+  );
+}
+
+/** Reads watchlist targets declared or detected as RSS, Atom or sitemaps. */
+export const rssAdapter: SourceAdapter = {
+  id: "rss",
+  plan: (payload) =>
+    payload.companyTargets.filter(isStructuredTarget).map((target) => ({
+      id: `rss-${target.id}`,
+      adapterId: "rss",
+      kind: "target",
+      label: target.label || target.url,
+      url: target.url,
+      execute: (signal) =>
+        readStructuredTarget(target, payload.timeRange, signal),
+    })),
+};
@@ -0,0 +1,39 @@
+import { gatherNews } from "@/lib/news";
+import { isExcluded, toSearchQuery } from "@/lib/keyword-rules";
+import { SourceAdapter } from "@/lib/sources/types";
+
+/**
+ * One search-engine query per taxonomy keyword, via the core scraper. Rows
+ * with synonyms, include/exclude terms or a query are sent as one combined
+ * expression; hits are still credited to the row's keyword, and any the
+ * engine returns despite an exclude term are dropped.
+ */
+export const searchEngineAdapter: SourceAdapter = {
+  id: "search",
+  plan: (payload, maxItems) =>
+    payload.keywords
+      .filter((row) => row.keyword.trim().length > 0)
+      .map((row, index) => ({
+        id: `search-${index}`,
+        adapterId: "search",
+        kind: "keyword",
+        label: row.keyword,
+        execute: async () => {
+          const query = toSearchQuery(row);
+          const items = await gatherNews(
+            [{ ...row, keyword: query }],
+            [],
+            payload.timeRange,
+            maxItems,
+          );
+          return items
+            .filter((item) => !isExcluded(row, `${item.title} ${item.summary}`))
+            .map((item) => ({
+              ...item,
+              keywordMatches: item.keywordMatches.map((match) =>
+                match === query ? row.keyword : match,
+              ),
+            }));
+        },
+      })),
+};
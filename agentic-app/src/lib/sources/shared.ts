@@ -0,0 +1,143 @@
+import { promisify } from "node:util";
+import { gunzip } from "node:zlib";
+import { TimeRangeOption } from "@/lib/types";
+
+const PRESET_HOURS: Record<
+  Exclude<TimeRangeOption["preset"], "custom">,
+  number
+> = {
+  "24h": 24,
+  "3d": 72,
+  "7d": 168,
+  "30d": 720,
+};
+
+const FETCH_TIMEOUT_MS = 15_000;
+
+// Bodies, and what gzipped files unpack to, are cut off here so a huge or
+// maliciously compressed document cannot exhaust memory.
+const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+
+const gunzipAsync = promisify(gunzip);
+
+export class SourceFetchError extends Error {
+  status: number;
+
+  constructor(url: string, status: number) {
+    super(`HTTP ${status} from ${url}`);
+    this.name = "SourceFetchError";
+    this.status = status;
+  }
+}
+
+export class DocumentTooLargeError extends Error {
+  constructor(url: string) {
+    super(
+      `Document at ${url} is larger than ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`,
+    );
+    this.name = "DocumentTooLargeError";
+  }
+}
+
+export function timeRangeBounds(timeRange: TimeRangeOption, now = Date.now()) {
+  if (timeRange.preset === "custom") {
+    return {
+      from: new Date(timeRange.from).getTime(),
+      to: new Date(timeRange.to).getTime(),
+    };
+  }
+  return { from: now - PRESET_HOURS[timeRange.preset] * 3_600_000, to: now };
+}
+
+/** Undated entries are kept: feeds often omit dates on evergreen pages. */
+export function withinTimeRange(
+  publishedAt: string | undefined,
+  timeRange: TimeRangeOption,
+) {
+  if (!publishedAt) return true;
+  const time = new Date(publishedAt).getTime();
+  const { from, to } = timeRangeBounds(timeRange);
+  return time >= from && time <= to;
+}
+
+export function hostLabel(url: string) {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+export function slugify(value: string) {
+  return (
+    value
+      .toLowerCase()
+      .replace(/^https?:\/\//, "")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 80) || "untitled"
+  );
+}
+
+/** Whether a body starts with the gzip magic bytes. */
+function isGzip(bytes: Uint8Array) {
+  return bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+/** Reads the response body, giving up as soon as it passes the size cap. */
+async function readBody(url: string, response: Response) {
+  if (Number(response.headers.get("content-length")) > MAX_DOCUMENT_BYTES) {
+    await response.body?.cancel();
+    throw new DocumentTooLargeError(url);
+  }
+  if (!response.body) return Buffer.alloc(0);
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_DOCUMENT_BYTES) {
+      await reader.cancel();
+      throw new DocumentTooLargeError(url);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks, size);
+}
+
+async function gunzipDocument(url: string, bytes: Uint8Array) {
+  try {
+    return await gunzipAsync(bytes, { maxOutputLength: MAX_DOCUMENT_BYTES });
+  } catch (error) {
+    const code = (error as { code?: unknown }).code;
+    if (code === "ERR_BUFFER_TOO_LARGE") throw new DocumentTooLargeError(url);
+    throw error;
+  }
+}
+
+/**
+ * Fetches a document as text, failing on non-2xx, after a fixed timeout or
+ * past `MAX_DOCUMENT_BYTES`. Gzipped files such as `sitemap.xml.gz` are
+ * decompressed; fetch only undoes gzip sent as a content encoding.
+ */
+export async function fetchText(url: string, signal?: AbortSignal) {
+  const timeout = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  const response = await fetch(url, {
+    headers: {
+      "User-Agent": "AgenticNewsMonitor/1.0",
+      Accept:
+        "application/rss+xml, application/atom+xml, application/xml, text/html;q=0.9, */*;q=0.8",
+    },
+    signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    cache: "no-store",
+  });
+  if (!response.ok) {
+    throw new SourceFetchError(url, response.status);
+  }
+  const bytes = await readBody(url, response);
+  return new TextDecoder().decode(
+    isGzip(bytes) ? await gunzipDocument(url, bytes) : bytes,
+  );
+}
@@ -0,0 +1,43 @@
+import { AdapterId, DiscoveryPayload } from "@/lib/sources/catalog";
+
+export type SourceTaskKind = "keyword" | "target" | "feed";
+
+export type SourceTask = {
+  id: string;
+  adapterId: AdapterId;
+  kind: SourceTaskKind;
+  label: string;
+  url?: string;
+};
+
+/**
+ * Common shape every adapter returns before consolidation. Scores and matches
+ * are optional: adapters backed by the core scraper already provide them,
+ * others leave them to the pipeline. A source's own scores are kept as the
+ * starting point of the item's score breakdown.
+ */
+export type RawNewsItem = {
+  /** Stable id when the upstream source already assigns one. */
+  id?: string;
+  title: string;
+  url: string;
+  source: string;
+  summary?: string;
+  publishedAt?: string;
+  authenticScore?: number;
+  marketImpactScore?: number;
+  keywordMatches?: string[];
+  companyMatches?: string[];
+  sopCategory?: string;
+  businessCategory?: string;
+};
+
+export type AdapterTask = SourceTask & {
+  execute: (signal?: AbortSignal) => Promise<RawNewsItem[]>;
+};
+
+export type SourceAdapter = {
+  id: AdapterId;
+  /** `maxItems` is the resolved per-cycle cap. */
+  plan: (payload: DiscoveryPayload, maxItems: number) => AdapterTask[];
+};
@@ -0,0 +1,73 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+export const DATA_DIR =
+  process.env.AGENTIC_DATA_DIR ?? path.join(process.cwd(), ".data");
+
+const pendingWrites = new Map<string, Promise<unknown>>();
+
+function resolvePath(name: string) {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+export async function readJson<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(resolvePath(name), "utf8");
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+export async function writeJson<T>(name: string, value: T) {
+  const target = resolvePath(name);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const temporary = `${target}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify(value, null, 2), "utf8");
+  await fs.rename(temporary, target);
+}
+
+/**
+ * Runs tasks sharing a name one after another, so concurrent requests in the
+ * same server process cannot interleave their reads and writes.
+ */
+export function serialize<R>(name: string, task: () => Promise<R>) {
+  const previous = pendingWrites.get(name) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  pendingWrites.set(name, next);
+  return next;
+}
+
+/**
+ * Serialises read-modify-write cycles per file so concurrent requests in the
+ * same server process cannot overwrite each other's changes.
+ */
+export function updateJson<T, R>(
+  name: string,
+  fallback: T,
+  mutate: (current: T) => { next: T; result: R },
+): Promise<R> {
+  return serialize(name, async () => {
+    const current = await readJson(name, fallback);
+    const { next, result } = mutate(current);
+    await writeJson(name, next);
+    return result;
+  });
+}
+
+/**
+ * A saved list or document the app ships defaults for: reads return the
+ * bundled value until an analyst saves their own.
+ */
+export function bundledStore<T>(name: string, defaults: T) {
+  return {
+    read: () => readJson<T>(name, defaults),
+    async save(value: T) {
+      await writeJson(name, value);
+      return value;
+    },
+  };
+}
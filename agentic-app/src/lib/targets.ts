@@ -0,0 +1,50 @@
+import { CompanyTarget } from "@/lib/types";
+import { ExtractionRules } from "@/lib/extraction";
+
+export type TargetType = "rss" | "atom" | "html" | "sitemap";
+
+/** A watchlist target; an unset `type` is detected from the URL. */
+export type WatchTarget = CompanyTarget & {
+  type?: TargetType;
+  /** Selector rules for HTML listing pages; the generic scraper runs without them. */
+  rules?: ExtractionRules;
+  /** The registry company whose news the feed carries. */
+  companyId?: string;
+};
+
+export const TARGET_TYPES: TargetType[] = ["rss", "atom", "html", "sitemap"];
+
+export const TARGET_TYPE_LABELS: Record<TargetType, string> = {
+  rss: "RSS feed",
+  atom: "Atom feed",
+  html: "HTML listing page",
+  sitemap: "Sitemap",
+};
+
+export function detectTargetType(url: string): TargetType {
+  let location = "";
+  try {
+    const parsed = new URL(url);
+    location = `${parsed.pathname}${parsed.search}`.toLowerCase();
+  } catch {
+    return "html";
+  }
+  if (/sitemap[^/]*\.xml(\.gz)?$/.test(location)) return "sitemap";
+  if (/(\.atom$|\/atom(\/|\.xml)?$|[?&]format=atom)/.test(location)) {
+    return "atom";
+  }
+  if (
+    /(\.(rss|xml)$|\/(feed|rss)(\/|$)|[?&](feed|format)=rss)/.test(location)
+  ) {
+    return "rss";
+  }
+  return "html";
+}
+
+export function resolveTargetType(target: WatchTarget): TargetType {
+  return target.type ?? detectTargetType(target.url);
+}
+
+export function isStructuredTarget(target: WatchTarget) {
+  return resolveTargetType(target) !== "html";
+}
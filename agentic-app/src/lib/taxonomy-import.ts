@@ -0,0 +1,329 @@
+import * as XLSX from "xlsx";
+import { QuerySyntaxError, parseQuery } from "@/lib/keyword-rules";
+import { MAX_KEYWORD_WEIGHT, WeightedKeywordRow } from "@/lib/scoring";
+import {
+  CategoryField,
+  EMPTY_TAXONOMY,
+  Taxonomy,
+  addCategory,
+  canonicalCategory,
+  categoryOptions,
+  joinPath,
+  splitPath,
+} from "@/lib/taxonomy";
+
+export type ImportField =
+  | "keyword"
+  | "sopCategory"
+  | "businessCategory"
+  | "companies"
+  | "weight"
+  | "synonyms"
+  | "include"
+  | "exclude"
+  | "query";
+
+export const IMPORT_FIELDS: {
+  id: ImportField;
+  label: string;
+  /** Header spellings recognised without asking, after normalisation. */
+  headers: string[];
+}[] = [
+  {
+    id: "keyword",
+    label: "Keyword",
+    headers: ["keyword", "keywords", "term", "search term"],
+  },
+  {
+    id: "sopCategory",
+    label: "SOP Category",
+    headers: ["sop category", "sop", "category"],
+  },
+  {
+    id: "businessCategory",
+    label: "Business Category",
+    headers: ["business category", "business"],
+  },
+  { id: "companies", label: "Companies", headers: ["companies", "company"] },
+  { id: "weight", label: "Weight", headers: ["weight"] },
+  {
+    id: "synonyms",
+    label: "Synonyms",
+    headers: ["synonyms", "synonym", "aliases"],
+  },
+  {
+    id: "include",
+    label: "Must include",
+    headers: ["include", "must include"],
+  },
+  { id: "exclude", label: "Exclude", headers: ["exclude", "must exclude"] },
+  { id: "query", label: "Query", headers: ["query", "boolean query"] },
+];
+
+/** The spreadsheet header each field is read from. */
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export type ImportSheet = {
+  name: string;
+  headers: string[];
+  /** `line` is the row number the spreadsheet shows, for the report. */
+  rows: { line: number; cells: Record<string, string> }[];
+};
+
+export type ImportIssue = {
+  sheet: string;
+  line: number;
+  /** Errors keep the row out of the import; warnings only flag it. */
+  severity: "error" | "warning";
+  message: string;
+};
+
+export type ImportPreview = {
+  rows: WeightedKeywordRow[];
+  issues: ImportIssue[];
+};
+
+function normalizeHeader(header: string) {
+  return header
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/** Matches headers to fields by name; headers it cannot place are left out. */
+export function guessMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach((field) => {
+    const header = headers.find((candidate) =>
+      field.headers.includes(normalizeHeader(candidate)),
+    );
+    if (header) mapping[field.id] = header;
+  });
+  return mapping;
+}
+
+/** Non-blank headers that no field reads from. */
+export function unmappedHeaders(headers: string[], mapping: ColumnMapping) {
+  const used = new Set(Object.values(mapping));
+  return headers.filter((header) => header.trim() && !used.has(header));
+}
+
+/**
+ * Reads every sheet of an XLSX workbook, or the single table of a CSV file.
+ * The first row of each sheet holds the headers; blank rows are skipped.
+ */
+export async function readSpreadsheet(file: File): Promise<ImportSheet[]> {
+  const workbook = /\.csv$/i.test(file.name)
+    ? XLSX.read(await file.text(), { type: "string" })
+    : XLSX.read(await file.arrayBuffer(), { type: "array" });
+  return workbook.SheetNames.flatMap((name): ImportSheet[] => {
+    const sheet = workbook.Sheets[name];
+    if (!sheet?.["!ref"]) return [];
+    const firstLine = XLSX.utils.decode_range(sheet["!ref"]).s.r + 1;
+    const [headerRow = [], ...body] = XLSX.utils.sheet_to_json<unknown[]>(
+      sheet,
+      { header: 1, raw: false, defval: "", blankrows: true },
+    );
+    const headers = headerRow.map((cell) => String(cell ?? "").trim());
+    const rows = body.flatMap((values, index) => {
+      const cells: Record<string, string> = {};
+      headers.forEach((header, column) => {
+        if (header) cells[header] = String(values[column] ?? "").trim();
+      });
+      return Object.values(cells).some(Boolean)
+        ? [{ line: firstLine + index + 1, cells }]
+        : [];
+    });
+    return [{ name, headers, rows }];
+  });
+}
+
+function splitList(value: string) {
+  return value.split(/[,;]/).map((entry) => entry.trim());
+}
+
+/** Company cells should be names separated by commas or semicolons. */
+function companyProblem(value: string, companies: string[]) {
+  if (/[|\n]/.test(value)) {
+    return "Companies look separated by pipes or line breaks; use commas or semicolons.";
+  }
+  if (companies.some((company) => !company)) {
+    return "Companies contain an empty entry.";
+  }
+  if (companies.some((company) => /^\d+([.,]\d+)?$/.test(company))) {
+    return "Companies contain a number instead of a name.";
+  }
+  if (companies.some((company) => company.length > 80)) {
+    return "A company name is unusually long; check the separators.";
+  }
+  return null;
+}
+
+const CATEGORY_FIELDS: { field: CategoryField; label: string }[] = [
+  { field: "sopCategory", label: "SOP category" },
+  { field: "businessCategory", label: "Business category" },
+];
+
+function keyOf(keyword: string) {
+  return keyword.trim().toLowerCase();
+}
+
+/**
+ * Builds taxonomy rows from the mapped sheets and reports what is wrong with
+ * them. Blank keywords, bad weights, unparseable queries and repeats of a
+ * keyword already imported are left out; categories the taxonomy does not
+ * manage and odd company lists are kept but flagged. Managed categories are
+ * stored in the taxonomy's spelling. An empty taxonomy checks nothing.
+ */
+export function prepareImport(
+  sheets: { sheet: ImportSheet; mapping: ColumnMapping }[],
+  taxonomy: Taxonomy,
+): ImportPreview {
+  const rows: WeightedKeywordRow[] = [];
+  const issues: ImportIssue[] = [];
+  const seen = new Map<string, { sheet: string; line: number }>();
+
+  sheets.forEach(({ sheet, mapping }) => {
+    sheet.rows.forEach(({ line, cells }) => {
+      const cell = (field: ImportField) => {
+        const header = mapping[field];
+        return header ? (cells[header] ?? "").trim() : "";
+      };
+      const report = (severity: ImportIssue["severity"], message: string) =>
+        issues.push({ sheet: sheet.name, line, severity, message });
+
+      const keyword = cell("keyword");
+      if (!keyword) {
+        report("error", "Keyword is blank.");
+        return;
+      }
+      const first = seen.get(keyOf(keyword));
+      if (first) {
+        report(
+          "error",
+          `"${keyword}" repeats ${first.sheet === sheet.name ? "" : `${first.sheet} `}row ${first.line}.`,
+        );
+        return;
+      }
+
+      const row: WeightedKeywordRow = { keyword };
+      const weightCell = cell("weight");
+      if (weightCell) {
+        const weight = Number(weightCell);
+        if (
+          !Number.isFinite(weight) ||
+          weight < 0 ||
+          weight > MAX_KEYWORD_WEIGHT
+        ) {
+          report(
+            "error",
+            `Weight "${weightCell}" must be a number from 0 to ${MAX_KEYWORD_WEIGHT}.`,
+          );
+          return;
+        }
+        row.weight = weight;
+      }
+      const query = cell("query");
+      if (query) {
+        try {
+          parseQuery(query);
+        } catch (error) {
+          report(
+            "error",
+            `Query: ${error instanceof QuerySyntaxError ? error.message : "invalid."}`,
+          );
+          return;
+        }
+        row.query = query;
+      }
+
+      CATEGORY_FIELDS.forEach(({ field, label }) => {
+        const value = cell(field);
+        if (!value) return;
+        const managed = canonicalCategory(taxonomy, field, value);
+        row[field] = managed ?? value;
+        if (!managed && categoryOptions(taxonomy, field).length > 0) {
+          report("warning", `${label} "${value}" is not in the taxonomy.`);
+        }
+      });
+
+      const companyCell = cell("companies");
+      if (companyCell) {
+        const companies = splitList(companyCell);
+        const problem = companyProblem(companyCell, companies);
+        if (problem) report("warning", problem);
+        row.companies = companies.filter(Boolean);
+      }
+      (["synonyms", "include", "exclude"] as const).forEach((field) => {
+        const values = splitList(cell(field)).filter(Boolean);
+        if (values.length > 0) row[field] = values;
+      });
+
+      seen.set(keyOf(keyword), { sheet: sheet.name, line });
+      rows.push(row);
+    });
+  });
+
+  return { rows, issues };
+}
+
+/**
+ * Updates rows whose keyword matches an imported one with the imported
+ * columns, keeping what the import does not carry (such as reviewed
+ * expansions), and appends the rest.
+ */
+export function mergeKeywordRows(
+  current: WeightedKeywordRow[],
+  incoming: WeightedKeywordRow[],
+) {
+  const byKeyword = new Map(incoming.map((row) => [keyOf(row.keyword), row]));
+  const merged = current.map((row) => {
+    const update = byKeyword.get(keyOf(row.keyword));
+    if (!update) return row;
+    byKeyword.delete(keyOf(row.keyword));
+    return { ...row, ...update, keyword: row.keyword };
+  });
+  return {
+    rows: [...merged, ...byKeyword.values()],
+    updated: incoming.length - byKeyword.size,
+    added: byKeyword.size,
+  };
+}
+
+/**
+ * Reads a taxonomy workbook: SOP categories from "Level 1", "Level 2", …
+ * columns or a single "SOP Category" column holding the path, and business
+ * categories from a "Business Category" column, on any sheet.
+ */
+export function readTaxonomySheets(sheets: ImportSheet[]): Taxonomy {
+  return sheets.reduce((taxonomy, sheet) => {
+    const levels = sheet.headers
+      .map((header) => ({
+        header,
+        level: Number(normalizeHeader(header).match(/^level (\d+)$/)?.[1]),
+      }))
+      .filter(({ level }) => level > 0)
+      .sort((a, b) => a.level - b.level)
+      .map(({ header }) => header);
+    const pathHeader = sheet.headers.find((header) =>
+      ["sop category", "category", "path"].includes(normalizeHeader(header)),
+    );
+    const businessHeader = sheet.headers.find(
+      (header) => normalizeHeader(header) === "business category",
+    );
+    return sheet.rows.reduce((next, { cells }) => {
+      const names =
+        levels.length > 0
+          ? levels.map((header) => cells[header] ?? "").filter(Boolean)
+          : splitPath(pathHeader ? (cells[pathHeader] ?? "") : "");
+      const withSop =
+        names.length > 0
+          ? addCategory(next, "sopCategory", joinPath(names))
+          : next;
+      const business = businessHeader ? cells[businessHeader] : "";
+      return business
+        ? addCategory(withSop, "businessCategory", business)
+        : withSop;
+    }, taxonomy);
+  }, EMPTY_TAXONOMY);
+}
@@ -0,0 +1,386 @@
+import type { ScoringConfig, WeightedKeywordRow } from "@/lib/scoring";
+
+export type TaxonomyNode = {
+  name: string;
+  children: TaxonomyNode[];
+};
+
+/**
+ * The categories analysts may assign. SOP categories form a tree and are
+ * stored on rows and items as their full path, e.g. "Regulatory > Approvals";
+ * business categories are a flat list.
+ */
+export type Taxonomy = {
+  sopCategories: TaxonomyNode[];
+  businessCategories: string[];
+};
+
+export type CategoryField = "sopCategory" | "businessCategory";
+
+/**
+ * Renames `from` to `to`. When `to` already exists the two are merged. SOP
+ * changes carry sub-categories with them.
+ */
+export type CategoryChange = {
+  field: CategoryField;
+  from: string;
+  to: string;
+};
+
+export type TaxonomyEntry = { path: string; name: string; depth: number };
+
+export const PATH_SEPARATOR = " > ";
+
+export const EMPTY_TAXONOMY: Taxonomy = {
+  sopCategories: [],
+  businessCategories: [],
+};
+
+/** Trims and collapses spacing, the spelling categories are compared in. */
+export function tidyCategory(value: string) {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+function sameCategory(a: string, b: string) {
+  return tidyCategory(a).toLowerCase() === tidyCategory(b).toLowerCase();
+}
+
+export function splitPath(path: string) {
+  return path.split(">").map(tidyCategory).filter(Boolean);
+}
+
+export function joinPath(names: string[]) {
+  return names.join(PATH_SEPARATOR);
+}
+
+/** Every SOP category in tree order, parents before their children. */
+export function flattenTaxonomy(
+  nodes: TaxonomyNode[],
+  parents: string[] = [],
+): TaxonomyEntry[] {
+  return nodes.flatMap((node) => {
+    const names = [...parents, node.name];
+    return [
+      { path: joinPath(names), name: node.name, depth: parents.length },
+      ...flattenTaxonomy(node.children, names),
+    ];
+  });
+}
+
+export function categoryOptions(taxonomy: Taxonomy, field: CategoryField) {
+  return field === "sopCategory"
+    ? flattenTaxonomy(taxonomy.sopCategories).map((entry) => entry.path)
+    : taxonomy.businessCategories;
+}
+
+/**
+ * The managed spelling of a free-text category, matched ignoring case and
+ * spacing, or null when the taxonomy does not know it.
+ */
+export function canonicalCategory(
+  taxonomy: Taxonomy,
+  field: CategoryField,
+  value: string,
+) {
+  const target =
+    field === "sopCategory" ? joinPath(splitPath(value)) : tidyCategory(value);
+  return (
+    categoryOptions(taxonomy, field).find((option) =>
+      sameCategory(option, target),
+    ) ?? null
+  );
+}
+
+/** Values used by the rows that the taxonomy does not manage. */
+export function unmanagedCategories(
+  taxonomy: Taxonomy,
+  rows: WeightedKeywordRow[],
+  field: CategoryField,
+) {
+  const values = new Set<string>();
+  rows.forEach((row) => {
+    const value = row[field];
+    if (value?.trim() && canonicalCategory(taxonomy, field, value) !== value) {
+      values.add(value);
+    }
+  });
+  return Array.from(values).sort((a, b) => a.localeCompare(b));
+}
+
+/** Whether an SOP path is the category itself or one of its sub-categories. */
+export function isWithinCategory(value: string, category: string) {
+  const names = splitPath(value);
+  const parents = splitPath(category);
+  return (
+    parents.length > 0 &&
+    names.length >= parents.length &&
+    parents.every((name, index) => sameCategory(name, names[index]))
+  );
+}
+
+/** Adds a node for each level of the path that is missing. */
+function insertPath(nodes: TaxonomyNode[], names: string[]): TaxonomyNode[] {
+  if (names.length === 0) return nodes;
+  const [head, ...rest] = names;
+  const existing = nodes.find((node) => sameCategory(node.name, head));
+  if (!existing) {
+    return [...nodes, { name: head, children: insertPath([], rest) }];
+  }
+  return nodes.map((node) =>
+    node === existing
+      ? { ...node, children: insertPath(node.children, rest) }
+      : node,
+  );
+}
+
+function mergeNodes(
+  target: TaxonomyNode[],
+  incoming: TaxonomyNode[],
+): TaxonomyNode[] {
+  return incoming.reduce((nodes, node) => {
+    const existing = nodes.find((entry) => sameCategory(entry.name, node.name));
+    if (!existing) return [...nodes, node];
+    return nodes.map((entry) =>
+      entry === existing
+        ? { ...entry, children: mergeNodes(entry.children, node.children) }
+        : entry,
+    );
+  }, target);
+}
+
+function findNode(nodes: TaxonomyNode[], names: string[]) {
+  let level = nodes;
+  let found: TaxonomyNode | undefined;
+  for (const name of names) {
+    found = level.find((node) => sameCategory(node.name, name));
+    if (!found) return undefined;
+    level = found.children;
+  }
+  return found;
+}
+
+function removePath(nodes: TaxonomyNode[], names: string[]): TaxonomyNode[] {
+  const [head, ...rest] = names;
+  return nodes.flatMap((node) => {
+    if (!sameCategory(node.name, head)) return [node];
+    if (rest.length === 0) return [];
+    return [{ ...node, children: removePath(node.children, rest) }];
+  });
+}
+
+/** Renames the node at `names` where it stands, keeping its children. */
+function renameNode(
+  nodes: TaxonomyNode[],
+  names: string[],
+  name: string,
+): TaxonomyNode[] {
+  const [head, ...rest] = names;
+  return nodes.map((node) => {
+    if (!sameCategory(node.name, head)) return node;
+    return rest.length === 0
+      ? { ...node, name }
+      : { ...node, children: renameNode(node.children, rest, name) };
+  });
+}
+
+/** Places `children` under the node at `names`, merging same-named ones. */
+function attachChildren(
+  nodes: TaxonomyNode[],
+  names: string[],
+  children: TaxonomyNode[],
+): TaxonomyNode[] {
+  const [head, ...rest] = names;
+  return nodes.map((node) => {
+    if (!sameCategory(node.name, head)) return node;
+    return rest.length === 0
+      ? { ...node, children: mergeNodes(node.children, children) }
+      : { ...node, children: attachChildren(node.children, rest, children) };
+  });
+}
+
+export function addCategory(
+  taxonomy: Taxonomy,
+  field: CategoryField,
+  value: string,
+): Taxonomy {
+  if (field === "businessCategory") {
+    const name = tidyCategory(value);
+    if (!name || canonicalCategory(taxonomy, field, name)) return taxonomy;
+    return {
+      ...taxonomy,
+      businessCategories: [...taxonomy.businessCategories, name],
+    };
+  }
+  return {
+    ...taxonomy,
+    sopCategories: insertPath(taxonomy.sopCategories, splitPath(value)),
+  };
+}
+
+/** Drops the category, and for SOP categories everything beneath it. */
+export function removeCategory(
+  taxonomy: Taxonomy,
+  field: CategoryField,
+  value: string,
+): Taxonomy {
+  if (field === "businessCategory") {
+    return {
+      ...taxonomy,
+      businessCategories: taxonomy.businessCategories.filter(
+        (name) => !sameCategory(name, value),
+      ),
+    };
+  }
+  return {
+    ...taxonomy,
+    sopCategories: removePath(taxonomy.sopCategories, splitPath(value)),
+  };
+}
+
+/** Why the change cannot be applied, or null when it can. */
+export function categoryChangeProblem(change: CategoryChange) {
+  const to =
+    change.field === "sopCategory"
+      ? splitPath(change.to)
+      : [tidyCategory(change.to)].filter(Boolean);
+  if (to.length === 0) return "Name the category to rename or merge into.";
+  if (change.from === joinPath(to)) return "Choose a different category.";
+  if (change.field === "businessCategory") return null;
+  const from = splitPath(change.from);
+  if (from.length === 0) return "Choose the category to change.";
+  return to.length > from.length && isWithinCategory(change.to, change.from)
+    ? "A category cannot be moved beneath one of its own sub-categories."
+    : null;
+}
+
+/** Applies a rename or merge to the taxonomy itself. */
+export function changeTaxonomy(
+  taxonomy: Taxonomy,
+  change: CategoryChange,
+): Taxonomy {
+  if (change.field === "businessCategory") {
+    const to = tidyCategory(change.to);
+    const target = canonicalCategory(taxonomy, change.field, to);
+    if (target && !sameCategory(target, change.from)) {
+      return removeCategory(taxonomy, change.field, change.from);
+    }
+    const source = canonicalCategory(taxonomy, change.field, change.from);
+    return source
+      ? {
+          ...taxonomy,
+          businessCategories: taxonomy.businessCategories.map((name) =>
+            name === source ? to : name,
+          ),
+        }
+      : addCategory(taxonomy, change.field, to);
+  }
+  const from = splitPath(change.from);
+  const to = splitPath(change.to);
+  const moved = findNode(taxonomy.sopCategories, from);
+  const target = findNode(taxonomy.sopCategories, to);
+  const sameParent =
+    from.length === to.length &&
+    from.slice(0, -1).every((name, index) => sameCategory(name, to[index]));
+  if (moved && sameParent && (!target || target === moved)) {
+    return {
+      ...taxonomy,
+      sopCategories: renameNode(
+        taxonomy.sopCategories,
+        from,
+        to[to.length - 1],
+      ),
+    };
+  }
+  const withoutSource = moved
+    ? removePath(taxonomy.sopCategories, from)
+    : taxonomy.sopCategories;
+  const withTarget = insertPath(withoutSource, to);
+  return {
+    ...taxonomy,
+    sopCategories: moved
+      ? attachChildren(withTarget, to, moved.children)
+      : withTarget,
+  };
+}
+
+/**
+ * The value a stored category takes after the change. SOP paths beneath the
+ * renamed category keep their tail; other values pass through unchanged.
+ */
+export function applyCategoryChange(
+  value: string | undefined,
+  field: CategoryField,
+  change: CategoryChange,
+) {
+  if (!value || field !== change.field) return value;
+  if (field === "businessCategory") {
+    return sameCategory(value, change.from) ? tidyCategory(change.to) : value;
+  }
+  return isWithinCategory(value, change.from)
+    ? joinPath([
+        ...splitPath(change.to),
+        ...splitPath(value).slice(splitPath(change.from).length),
+      ])
+    : value;
+}
+
+/** Rewrites the categories of anything carrying them, rows and items alike. */
+export function recategorize<
+  T extends { sopCategory?: string; businessCategory?: string },
+>(entry: T, change: CategoryChange): T {
+  const value = entry[change.field];
+  const next = applyCategoryChange(value, change.field, change);
+  return next === value ? entry : { ...entry, [change.field]: next };
+}
+
+/** Moves impact multipliers keyed by the renamed SOP categories. */
+export function recategorizeMultipliers(
+  scoring: ScoringConfig,
+  change: CategoryChange,
+): ScoringConfig {
+  if (change.field !== "sopCategory") return scoring;
+  const categoryMultipliers: Record<string, number> = {};
+  Object.entries(scoring.categoryMultipliers).forEach(([category, value]) => {
+    const renamed =
+      applyCategoryChange(category, "sopCategory", change) ?? category;
+    categoryMultipliers[renamed] = categoryMultipliers[renamed] ?? value;
+  });
+  return { ...scoring, categoryMultipliers };
+}
+
+/** Adds every category of `incoming` that `taxonomy` lacks. */
+export function mergeTaxonomies(taxonomy: Taxonomy, incoming: Taxonomy) {
+  const withSop = flattenTaxonomy(incoming.sopCategories).reduce(
+    (next, entry) => addCategory(next, "sopCategory", entry.path),
+    taxonomy,
+  );
+  return incoming.businessCategories.reduce(
+    (next, name) => addCategory(next, "businessCategory", name),
+    withSop,
+  );
+}
+
+export function isEmptyTaxonomy(taxonomy: Taxonomy) {
+  return (
+    taxonomy.sopCategories.length === 0 &&
+    taxonomy.businessCategories.length === 0
+  );
+}
+
+/** Seeds a taxonomy with the categories the rows already use. */
+export function taxonomyFromRows(
+  taxonomy: Taxonomy,
+  rows: WeightedKeywordRow[],
+): Taxonomy {
+  return rows.reduce(
+    (next, row) =>
+      (["sopCategory", "businessCategory"] as const).reduce(
+        (current, field) =>
+          row[field]?.trim()
+            ? addCategory(current, field, row[field] ?? "")
+            : current,
+        next,
+      ),
+    taxonomy,
+  );
+}
@@ -0,0 +1,1052 @@
+import { TimeRangeOption } from "@/lib/types";
+import { TARGET_TYPES, TargetType, WatchTarget } from "@/lib/targets";
+import { ExtractionRules, RULE_FIELDS, validateRules } from "@/lib/extraction";
+import { DictionaryKind, ENTITY_KINDS, EntityTerm } from "@/lib/entities";
+import { COMPANY_ROLES, CompanyEntry, CompanyRole } from "@/lib/companies";
+import {
+  EVENT_TYPES,
+  EventRule,
+  EventType,
+  PatternError,
+  compilePattern,
+} from "@/lib/events";
+import { QuerySyntaxError, parseQuery } from "@/lib/keyword-rules";
+import { EXPANSION_KINDS } from "@/lib/expansion";
+import {
+  ArticleSettings,
+  MAX_SUMMARY_SENTENCES,
+  MIN_SUMMARY_SENTENCES,
+} from "@/lib/articles";
+import { CategoryChange, categoryChangeProblem } from "@/lib/taxonomy";
+import { AVAILABLE_COLUMNS, ExportColumn } from "@/lib/columns";
+import {
+  CurationEntry,
+  MAX_ISSUE_SIZE,
+  MAX_NOTE_LENGTH,
+  NewsletterDraft,
+  NewsletterIssue,
+} from "@/lib/curation";
+import {
+  NEWSLETTER_GROUPINGS,
+  NewsletterGrouping,
+  NewsletterRequest,
+} from "@/lib/newsletter";
+import {
+  MAX_CATEGORY_MULTIPLIER,
+  MAX_KEYWORD_WEIGHT,
+  REPUTATION_TIERS,
+  ReputationTier,
+  ScoringConfig,
+  SourceReputation,
+  WeightedKeywordRow,
+  normalizeDomain,
+} from "@/lib/scoring";
+import {
+  ADAPTER_IDS,
+  AdapterId,
+  DiscoveryPayload,
+} from "@/lib/sources/catalog";
+
+export type FieldError = {
+  /** Dotted path into the payload, e.g. `companyTargets.2.url`. */
+  field: string;
+  message: string;
+};
+
+export type ValidationResult<T> =
+  { ok: true; value: T } | { ok: false; errors: FieldError[] };
+
+export const MIN_MAX_ITEMS = 10;
+export const MAX_MAX_ITEMS = 200;
+
+const PRESETS: TimeRangeOption["preset"][] = [
+  "24h",
+  "3d",
+  "7d",
+  "30d",
+  "custom",
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isOptionalString(value: unknown) {
+  return value === undefined || value === null || typeof value === "string";
+}
+
+function isNumberBetween(value: unknown, min: number, max: number) {
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    value >= min &&
+    value <= max
+  );
+}
+
+function isHttpUrl(value: string) {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+function validateKeywords(value: unknown, errors: FieldError[]) {
+  if (!Array.isArray(value)) {
+    errors.push({ field: "keywords", message: "Keywords must be a list." });
+    return [];
+  }
+  const rows: WeightedKeywordRow[] = [];
+  value.forEach((entry, index) => {
+    const path = `keywords.${index}`;
+    if (!isRecord(entry) || typeof entry.keyword !== "string") {
+      errors.push({
+        field: `${path}.keyword`,
+        message: "Keyword is required.",
+      });
+      return;
+    }
+    if (!isOptionalString(entry.sopCategory)) {
+      errors.push({
+        field: `${path}.sopCategory`,
+        message: "SOP category must be text.",
+      });
+    }
+    if (!isOptionalString(entry.businessCategory)) {
+      errors.push({
+        field: `${path}.businessCategory`,
+        message: "Business category must be text.",
+      });
+    }
+    if (
+      entry.companies !== undefined &&
+      (!Array.isArray(entry.companies) ||
+        entry.companies.some((company) => typeof company !== "string"))
+    ) {
+      errors.push({
+        field: `${path}.companies`,
+        message: "Companies must be a list of names.",
+      });
+    }
+    (["synonyms", "include", "exclude", "rejectedExpansions"] as const).forEach(
+      (field) => {
+        const list = entry[field];
+        if (
+          list !== undefined &&
+          (!Array.isArray(list) ||
+            list.some((term) => typeof term !== "string"))
+        ) {
+          errors.push({
+            field: `${path}.${field}`,
+            message: "Terms must be a list of words or phrases.",
+          });
+        }
+      },
+    );
+    if (
+      entry.expansions !== undefined &&
+      (!Array.isArray(entry.expansions) ||
+        entry.expansions.some(
+          (expansion) =>
+            !isRecord(expansion) ||
+            typeof expansion.term !== "string" ||
+            typeof expansion.expander !== "string" ||
+            !EXPANSION_KINDS.some((kind) => kind.id === expansion.kind),
+        ))
+    ) {
+      errors.push({
+        field: `${path}.expansions`,
+        message: "Expansions must list a term, kind and expander each.",
+      });
+    }
+    if (!isOptionalString(entry.query)) {
+      errors.push({ field: `${path}.query`, message: "Query must be text." });
+    } else if (typeof entry.query === "string" && entry.query.trim()) {
+      try {
+        parseQuery(entry.query);
+      } catch (error) {
+        errors.push({
+          field: `${path}.query`,
+          message:
+            error instanceof QuerySyntaxError
+              ? error.message
+              : "Invalid query.",
+        });
+      }
+    }
+    if (
+      entry.weight !== undefined &&
+      !isNumberBetween(entry.weight, 0, MAX_KEYWORD_WEIGHT)
+    ) {
+      errors.push({
+        field: `${path}.weight`,
+        message: `Weight must be a number from 0 to ${MAX_KEYWORD_WEIGHT}.`,
+      });
+    }
+    if (entry.keyword.trim().length > 0) {
+      rows.push(entry as WeightedKeywordRow);
+    }
+  });
+  return rows;
+}
+
+/**
+ * Rules left entirely blank in the editor are dropped; anything else must
+ * name a container and title and use supported selectors.
+ */
+function validateTargetRules(
+  value: unknown,
+  path: string,
+  errors: FieldError[],
+): ExtractionRules | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (
+    !isRecord(value) ||
+    [...RULE_FIELDS, "dateFormat"].some(
+      (field) => !isOptionalString(value[field]),
+    )
+  ) {
+    errors.push({ field: path, message: "Extraction rules are malformed." });
+    return undefined;
+  }
+  const rules: ExtractionRules = {
+    container: String(value.container ?? "").trim(),
+    title: String(value.title ?? "").trim(),
+  };
+  (["link", "date", "summary", "dateFormat"] as const).forEach((field) => {
+    const text = typeof value[field] === "string" ? value[field].trim() : "";
+    if (text) rules[field] = text;
+  });
+  if (Object.values(rules).every((text) => !text)) return undefined;
+  Object.entries(validateRules(rules)).forEach(([field, message]) => {
+    errors.push({ field: `${path}.${field}`, message });
+  });
+  return rules;
+}
+
+function validateTarget(
+  entry: unknown,
+  path: string,
+  errors: FieldError[],
+): WatchTarget | null {
+  if (!isRecord(entry) || typeof entry.url !== "string") {
+    errors.push({ field: `${path}.url`, message: "Target URL is required." });
+    return null;
+  }
+  if (
+    typeof entry.id !== "string" ||
+    !isOptionalString(entry.label) ||
+    !isOptionalString(entry.companyId)
+  ) {
+    errors.push({ field: path, message: "Target is malformed." });
+    return null;
+  }
+  if (
+    entry.type !== undefined &&
+    !TARGET_TYPES.includes(entry.type as TargetType)
+  ) {
+    errors.push({ field: `${path}.type`, message: "Unknown target type." });
+    return null;
+  }
+  const url = entry.url.trim();
+  if (url.length === 0) return null;
+  if (!isHttpUrl(url)) {
+    errors.push({
+      field: `${path}.url`,
+      message: "Enter a full http(s) URL.",
+    });
+    return null;
+  }
+  const rules = validateTargetRules(entry.rules, `${path}.rules`, errors);
+  return { ...(entry as WatchTarget), url, rules };
+}
+
+function validateTargets(value: unknown, errors: FieldError[]) {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    errors.push({
+      field: "companyTargets",
+      message: "Company targets must be a list.",
+    });
+    return [];
+  }
+  const targets: WatchTarget[] = [];
+  value.forEach((entry, index) => {
+    const target = validateTarget(entry, `companyTargets.${index}`, errors);
+    if (target) targets.push(target);
+  });
+  return targets;
+}
+
+function validateTimeRange(
+  value: unknown,
+  errors: FieldError[],
+): TimeRangeOption | null {
+  if (!isRecord(value) || !PRESETS.includes(value.preset as never)) {
+    errors.push({
+      field: "timeRange",
+      message: "Choose a supported time range.",
+    });
+    return null;
+  }
+  if (value.preset !== "custom") {
+    return {
+      preset: value.preset as Exclude<TimeRangeOption["preset"], "custom">,
+    };
+  }
+
+  const from = typeof value.from === "string" ? new Date(value.from) : null;
+  const to = typeof value.to === "string" ? new Date(value.to) : null;
+  const fromValid = from !== null && !Number.isNaN(from.getTime());
+  const toValid = to !== null && !Number.isNaN(to.getTime());
+  if (!fromValid) {
+    errors.push({ field: "timeRange.from", message: "Enter a valid start." });
+  }
+  if (!toValid) {
+    errors.push({ field: "timeRange.to", message: "Enter a valid end." });
+  }
+  if (!fromValid || !toValid) return null;
+  if (from.getTime() >= to.getTime()) {
+    errors.push({
+      field: "timeRange.to",
+      message: "End must be after the start.",
+    });
+    return null;
+  }
+  return {
+    preset: "custom",
+    from: from.toISOString(),
+    to: to.toISOString(),
+  };
+}
+
+function validateMaxItems(value: unknown, errors: FieldError[]) {
+  if (value === undefined || value === null) return undefined;
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < MIN_MAX_ITEMS ||
+    value > MAX_MAX_ITEMS
+  ) {
+    errors.push({
+      field: "maxItems",
+      message: `Max results must be a whole number from ${MIN_MAX_ITEMS} to ${MAX_MAX_ITEMS}.`,
+    });
+    return undefined;
+  }
+  return value;
+}
+
+function validateAdapters(value: unknown, errors: FieldError[]) {
+  if (value === undefined || value === null) return undefined;
+  if (
+    !Array.isArray(value) ||
+    value.some((id) => !ADAPTER_IDS.includes(id as AdapterId))
+  ) {
+    errors.push({ field: "adapters", message: "Unknown source adapter." });
+    return undefined;
+  }
+  if (value.length === 0) {
+    errors.push({ field: "adapters", message: "Select at least one source." });
+    return undefined;
+  }
+  return Array.from(new Set(value as AdapterId[]));
+}
+
+const TIER_IDS = REPUTATION_TIERS.map((tier) => tier.id);
+
+function validateSources(value: unknown, errors: FieldError[]) {
+  if (!Array.isArray(value)) {
+    errors.push({
+      field: "scoring.sources",
+      message: "Source reputations must be a list.",
+    });
+    return [];
+  }
+  const sources: SourceReputation[] = [];
+  value.forEach((entry, index) => {
+    const path = `scoring.sources.${index}`;
+    if (!isRecord(entry) || typeof entry.domain !== "string") {
+      errors.push({ field: `${path}.domain`, message: "Domain is required." });
+      return;
+    }
+    if (!TIER_IDS.includes(entry.tier as ReputationTier)) {
+      errors.push({ field: `${path}.tier`, message: "Unknown tier." });
+      return;
+    }
+    const domain = normalizeDomain(entry.domain);
+    if (domain.length === 0) return;
+    if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain)) {
+      errors.push({
+        field: `${path}.domain`,
+        message: "Enter a domain such as fda.gov.",
+      });
+      return;
+    }
+    if (sources.some((source) => source.domain === domain)) {
+      errors.push({
+        field: `${path}.domain`,
+        message: "This domain is already listed.",
+      });
+      return;
+    }
+    sources.push({ domain, tier: entry.tier as ReputationTier });
+  });
+  return sources;
+}
+
+function validateMultipliers(value: unknown, errors: FieldError[]) {
+  if (!isRecord(value)) {
+    errors.push({
+      field: "scoring.categoryMultipliers",
+      message: "Category multipliers are malformed.",
+    });
+    return {};
+  }
+  const multipliers: Record<string, number> = {};
+  Object.entries(value).forEach(([category, multiplier]) => {
+    if (!isNumberBetween(multiplier, 0, MAX_CATEGORY_MULTIPLIER)) {
+      errors.push({
+        field: `scoring.categoryMultipliers.${category}`,
+        message: `Multiplier must be a number from 0 to ${MAX_CATEGORY_MULTIPLIER}.`,
+      });
+      return;
+    }
+    if (category.trim()) multipliers[category] = multiplier as number;
+  });
+  return multipliers;
+}
+
+/** Blank domain rows are dropped; domains are stored normalized. */
+function validateScoring(
+  value: unknown,
+  errors: FieldError[],
+): ScoringConfig | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) {
+    errors.push({ field: "scoring", message: "Scoring config is malformed." });
+    return undefined;
+  }
+  if (!TIER_IDS.includes(value.ownSiteTier as ReputationTier)) {
+    errors.push({ field: "scoring.ownSiteTier", message: "Unknown tier." });
+  }
+  return {
+    sources: validateSources(value.sources, errors),
+    ownSiteTier: value.ownSiteTier as ReputationTier,
+    categoryMultipliers: validateMultipliers(value.categoryMultipliers, errors),
+  };
+}
+
+function validateArticles(
+  value: unknown,
+  errors: FieldError[],
+): ArticleSettings | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value) || typeof value.enabled !== "boolean") {
+    errors.push({
+      field: "articles",
+      message: "Article settings are malformed.",
+    });
+    return undefined;
+  }
+  if (
+    typeof value.sentences !== "number" ||
+    !Number.isInteger(value.sentences) ||
+    value.sentences < MIN_SUMMARY_SENTENCES ||
+    value.sentences > MAX_SUMMARY_SENTENCES
+  ) {
+    errors.push({
+      field: "articles.sentences",
+      message: `Summary length must be a whole number from ${MIN_SUMMARY_SENTENCES} to ${MAX_SUMMARY_SENTENCES} sentences.`,
+    });
+    return undefined;
+  }
+  return { enabled: value.enabled, sentences: value.sentences };
+}
+
+/**
+ * Validates an untrusted search request. Blank keywords and target URLs are
+ * dropped rather than rejected, matching how the console treats empty rows.
+ */
+export function validateSearchPayload(
+  input: unknown,
+): ValidationResult<DiscoveryPayload> {
+  if (!isRecord(input)) {
+    return {
+      ok: false,
+      errors: [{ field: "", message: "Request body must be a JSON object." }],
+    };
+  }
+  const errors: FieldError[] = [];
+  const keywords = validateKeywords(input.keywords, errors);
+  const companyTargets = validateTargets(input.companyTargets, errors);
+  const timeRange = validateTimeRange(input.timeRange, errors);
+  const maxItems = validateMaxItems(input.maxItems, errors);
+  const adapters = validateAdapters(input.adapters, errors);
+  const scoring = validateScoring(input.scoring, errors);
+  const articles = validateArticles(input.articles, errors);
+  // Target-only runs are fine; a run with neither has nothing to search.
+  if (
+    keywords.length === 0 &&
+    companyTargets.length === 0 &&
+    !errors.some(
+      (e) =>
+        e.field.startsWith("keywords") || e.field.startsWith("companyTargets"),
+    )
+  ) {
+    errors.push({
+      field: "",
+      message: "Add at least one keyword or watchlist target.",
+    });
+  }
+
+  if (errors.length > 0 || !timeRange) {
+    return { ok: false, errors };
+  }
+  return {
+    ok: true,
+    value: {
+      keywords,
+      companyTargets,
+      timeRange,
+      maxItems,
+      adapters,
+      scoring,
+      articles,
+    },
+  };
+}
+
+/** Validates taxonomy rows on their own, e.g. before expanding them. */
+export function validateKeywordRows(
+  input: unknown,
+): ValidationResult<WeightedKeywordRow[]> {
+  const errors: FieldError[] = [];
+  const rows = validateKeywords(input, errors);
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push({
+      field: "keywords",
+      message: "Add at least one non-empty keyword.",
+    });
+  }
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: rows };
+}
+
+/** Validates a single watchlist target, e.g. for a preview before a run. */
+export function validateWatchTarget(
+  input: unknown,
+): ValidationResult<WatchTarget> {
+  const errors: FieldError[] = [];
+  const target = validateTarget(input, "target", errors);
+  if (!target) {
+    return {
+      ok: false,
+      errors:
+        errors.length > 0
+          ? errors
+          : [{ field: "target.url", message: "Target URL is required." }],
+    };
+  }
+  return { ok: true, value: target };
+}
+
+const DICTIONARY_KINDS = ENTITY_KINDS.map((kind) => kind.id).filter(
+  (kind): kind is DictionaryKind => kind !== "suffix",
+);
+
+function trimmedList(value: unknown) {
+  return Array.isArray(value)
+    ? value
+        .filter((entry): entry is string => typeof entry === "string")
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+    : [];
+}
+
+/** Rows with a blank name are dropped; names must be unique per kind. */
+export function validateEntityDictionary(
+  input: unknown,
+): ValidationResult<EntityTerm[]> {
+  if (!Array.isArray(input)) {
+    return {
+      ok: false,
+      errors: [{ field: "terms", message: "Terms must be a list." }],
+    };
+  }
+  const errors: FieldError[] = [];
+  const terms: EntityTerm[] = [];
+  input.forEach((entry, index) => {
+    const path = `terms.${index}`;
+    if (!isRecord(entry) || typeof entry.name !== "string") {
+      errors.push({ field: `${path}.name`, message: "Name is required." });
+      return;
+    }
+    if (!DICTIONARY_KINDS.includes(entry.kind as DictionaryKind)) {
+      errors.push({ field: `${path}.kind`, message: "Unknown entity type." });
+      return;
+    }
+    if (!isOptionalString(entry.implies)) {
+      errors.push({ field: `${path}.implies`, message: "Must be text." });
+      return;
+    }
+    const name = entry.name.trim();
+    if (!name) return;
+    const kind = entry.kind as DictionaryKind;
+    if (
+      terms.some(
+        (term) =>
+          term.kind === kind && term.name.toLowerCase() === name.toLowerCase(),
+      )
+    ) {
+      errors.push({
+        field: `${path}.name`,
+        message: "This name is already listed.",
+      });
+      return;
+    }
+    const term: EntityTerm = { kind, name };
+    const aliases = trimmedList(entry.aliases);
+    if (aliases.length > 0) term.aliases = aliases;
+    const implies =
+      typeof entry.implies === "string" ? entry.implies.trim() : "";
+    if (implies) term.implies = implies;
+    terms.push(term);
+  });
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: terms };
+}
+
+/** Blank patterns are dropped; each event type may appear once. */
+export function validateEventRules(
+  input: unknown,
+): ValidationResult<EventRule[]> {
+  if (!Array.isArray(input)) {
+    return {
+      ok: false,
+      errors: [{ field: "rules", message: "Rules must be a list." }],
+    };
+  }
+  const errors: FieldError[] = [];
+  const rules: EventRule[] = [];
+  input.forEach((entry, index) => {
+    const path = `rules.${index}`;
+    if (
+      !isRecord(entry) ||
+      !EVENT_TYPES.some((type) => type.id === entry.type)
+    ) {
+      errors.push({ field: `${path}.type`, message: "Unknown event type." });
+      return;
+    }
+    const type = entry.type as EventType;
+    if (rules.some((rule) => rule.type === type)) {
+      errors.push({
+        field: `${path}.type`,
+        message: "Only one rule per event type.",
+      });
+      return;
+    }
+    const patterns = trimmedList(entry.patterns);
+    patterns.forEach((pattern, position) => {
+      try {
+        compilePattern(pattern);
+      } catch (error) {
+        errors.push({
+          field: `${path}.patterns.${position}`,
+          message:
+            error instanceof PatternError ? error.message : "Invalid pattern.",
+        });
+      }
+    });
+    rules.push({ type, patterns });
+  });
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: rules };
+}
+
+/**
+ * Rows with a blank name are dropped. Ids and names must be unique, links
+ * must point at listed companies and parents may not loop back.
+ */
+export function validateCompanyRegistry(
+  input: unknown,
+): ValidationResult<CompanyEntry[]> {
+  if (!Array.isArray(input)) {
+    return {
+      ok: false,
+      errors: [{ field: "companies", message: "Companies must be a list." }],
+    };
+  }
+  const errors: FieldError[] = [];
+  const companies: { path: string; entry: CompanyEntry }[] = [];
+  input.forEach((entry, index) => {
+    const path = `companies.${index}`;
+    if (!isRecord(entry) || typeof entry.name !== "string") {
+      errors.push({ field: `${path}.name`, message: "Name is required." });
+      return;
+    }
+    if (
+      typeof entry.id !== "string" ||
+      !isOptionalString(entry.ticker) ||
+      !isOptionalString(entry.parentId)
+    ) {
+      errors.push({ field: path, message: "Company is malformed." });
+      return;
+    }
+    const name = entry.name.trim();
+    const id = entry.id.trim();
+    if (!name) return;
+    if (!id) {
+      errors.push({ field: `${path}.name`, message: "Company needs an id." });
+      return;
+    }
+    if (companies.some((company) => company.entry.id === id)) {
+      errors.push({ field: path, message: "This id is already listed." });
+      return;
+    }
+    if (
+      companies.some(
+        (company) => company.entry.name.toLowerCase() === name.toLowerCase(),
+      )
+    ) {
+      errors.push({
+        field: `${path}.name`,
+        message: "This name is already listed.",
+      });
+      return;
+    }
+    const roles = trimmedList(entry.roles);
+    if (
+      roles.some((role) => !COMPANY_ROLES.some((option) => option.id === role))
+    ) {
+      errors.push({ field: `${path}.roles`, message: "Unknown role." });
+      return;
+    }
+    const company: CompanyEntry = { id, name };
+    const aliases = trimmedList(entry.aliases);
+    if (aliases.length > 0) company.aliases = aliases;
+    const ticker = typeof entry.ticker === "string" ? entry.ticker.trim() : "";
+    if (ticker) company.ticker = ticker;
+    const parentId =
+      typeof entry.parentId === "string" ? entry.parentId.trim() : "";
+    if (parentId) company.parentId = parentId;
+    const partnerIds = trimmedList(entry.partnerIds);
+    if (partnerIds.length > 0) company.partnerIds = partnerIds;
+    if (roles.length > 0) company.roles = roles as CompanyRole[];
+    companies.push({ path, entry: company });
+  });
+
+  const byId = new Map(
+    companies.map((company) => [company.entry.id, company.entry]),
+  );
+  companies.forEach(({ path, entry }) => {
+    if (entry.parentId && !byId.has(entry.parentId)) {
+      errors.push({
+        field: `${path}.parentId`,
+        message: "Parent is not in the registry.",
+      });
+    } else if (entry.parentId === entry.id) {
+      errors.push({
+        field: `${path}.parentId`,
+        message: "A company cannot be its own parent.",
+      });
+    } else {
+      const visited = new Set([entry.id]);
+      let parent = entry.parentId ? byId.get(entry.parentId) : undefined;
+      while (parent && !visited.has(parent.id)) {
+        visited.add(parent.id);
+        parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+      }
+      if (parent) {
+        errors.push({
+          field: `${path}.parentId`,
+          message: "Parents loop back to this company.",
+        });
+      }
+    }
+    if (
+      entry.partnerIds?.some(
+        (partnerId) => partnerId === entry.id || !byId.has(partnerId),
+      )
+    ) {
+      errors.push({
+        field: `${path}.partnerIds`,
+        message: "Partners must be other companies in the registry.",
+      });
+    }
+  });
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, value: companies.map((company) => company.entry) };
+}
+
+export function validateCategoryChange(
+  input: unknown,
+): ValidationResult<CategoryChange> {
+  if (
+    !isRecord(input) ||
+    (input.field !== "sopCategory" && input.field !== "businessCategory")
+  ) {
+    return {
+      ok: false,
+      errors: [
+        {
+          field: "change.field",
+          message: "Choose SOP or business categories.",
+        },
+      ],
+    };
+  }
+  const change: CategoryChange = {
+    field: input.field,
+    from: typeof input.from === "string" ? input.from : "",
+    to: typeof input.to === "string" ? input.to.trim() : "",
+  };
+  const problem = categoryChangeProblem(change);
+  return problem
+    ? { ok: false, errors: [{ field: "change.to", message: problem }] }
+    : { ok: true, value: change };
+}
+
+/** Entries with nothing set are dropped. */
+export function validateNewsletterDraft(
+  input: unknown,
+): ValidationResult<NewsletterDraft> {
+  if (
+    !isRecord(input) ||
+    !isRecord(input.entries) ||
+    !Array.isArray(input.order) ||
+    input.order.some((identity) => typeof identity !== "string")
+  ) {
+    return {
+      ok: false,
+      errors: [{ field: "draft", message: "Draft is malformed." }],
+    };
+  }
+  const errors: FieldError[] = [];
+  if (
+    typeof input.size !== "number" ||
+    !Number.isInteger(input.size) ||
+    input.size < 1 ||
+    input.size > MAX_ISSUE_SIZE
+  ) {
+    errors.push({
+      field: "draft.size",
+      message: `Issue size must be a whole number from 1 to ${MAX_ISSUE_SIZE}.`,
+    });
+  }
+  const entries: Record<string, CurationEntry> = {};
+  Object.entries(input.entries).forEach(([identity, entry]) => {
+    const path = `draft.entries.${identity}`;
+    if (!isRecord(entry) || !isOptionalString(entry.note)) {
+      errors.push({ field: path, message: "Entry is malformed." });
+      return;
+    }
+    const note = typeof entry.note === "string" ? entry.note.trim() : "";
+    if (note.length > MAX_NOTE_LENGTH) {
+      errors.push({
+        field: `${path}.note`,
+        message: `Notes are limited to ${MAX_NOTE_LENGTH} characters.`,
+      });
+      return;
+    }
+    const curated: CurationEntry = {
+      ...(entry.pinned === true && { pinned: true }),
+      ...(entry.excluded === true && { excluded: true }),
+      ...(note && { note }),
+    };
+    if (Object.keys(curated).length > 0) entries[identity] = curated;
+  });
+  return errors.length > 0
+    ? { ok: false, errors }
+    : {
+        ok: true,
+        value: {
+          entries,
+          order: Array.from(new Set(input.order as string[])),
+          size: input.size as number,
+        },
+      };
+}
+
+const COLUMN_IDS = AVAILABLE_COLUMNS.map((column) => column.id);
+
+const ISSUE_ITEM_TEXT = [
+  "id",
+  "title",
+  "url",
+  "source",
+  "summary",
+  "publishedAt",
+];
+const ISSUE_ITEM_LISTS = ["keywordMatches", "companyMatches"];
+const ISSUE_ITEM_SCORES = ["authenticScore", "marketImpactScore"];
+const ISSUE_ITEM_OPTIONAL_TEXT = [
+  "sopCategory",
+  "businessCategory",
+  "editorialNote",
+];
+
+/**
+ * Checks each item has the shape the newsletter renderers read, with a link
+ * safe to put in an `href`.
+ */
+function validateNewsletterItems(value: unknown[], errors: FieldError[]) {
+  value.forEach((entry, index) => {
+    const path = `items.${index}`;
+    if (!isRecord(entry)) {
+      errors.push({ field: path, message: "Item must be an object." });
+      return;
+    }
+    const invalid = [
+      ...ISSUE_ITEM_TEXT.filter((field) => typeof entry[field] !== "string"),
+      ...ISSUE_ITEM_LISTS.filter(
+        (field) =>
+          !Array.isArray(entry[field]) ||
+          (entry[field] as unknown[]).some((term) => typeof term !== "string"),
+      ),
+      ...ISSUE_ITEM_SCORES.filter((field) => !Number.isFinite(entry[field])),
+      ...ISSUE_ITEM_OPTIONAL_TEXT.filter(
+        (field) => !isOptionalString(entry[field]),
+      ),
+      ...(entry.related === undefined ||
+      (Array.isArray(entry.related) &&
+        entry.related.every(
+          (related) =>
+            isRecord(related) &&
+            ISSUE_ITEM_TEXT.filter((field) => field !== "summary").every(
+              (field) => typeof related[field] === "string",
+            ),
+        ))
+        ? []
+        : ["related"]),
+    ];
+    invalid.forEach((field) =>
+      errors.push({
+        field: `${path}.${field}`,
+        message: "Item is missing this field or it has the wrong type.",
+      }),
+    );
+    if (typeof entry.url === "string" && !isHttpUrl(entry.url)) {
+      errors.push({
+        field: `${path}.url`,
+        message: "Item link must be an http(s) URL.",
+      });
+    }
+  });
+}
+
+/**
+ * Approved items are frozen as sent, so each must have the shape the issue
+ * view and exports read; one malformed item would break the issue for good.
+ */
+function validateIssueItems(value: unknown, errors: FieldError[]) {
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push({ field: "items", message: "The issue has no items." });
+    return [];
+  }
+  validateNewsletterItems(value, errors);
+  return value as NewsletterIssue["items"];
+}
+
+/** Checks feed items sent to be rendered as a newsletter. */
+export function validateNewsletterRequest(
+  input: unknown,
+): ValidationResult<NewsletterRequest> {
+  if (!isRecord(input)) {
+    return {
+      ok: false,
+      errors: [{ field: "", message: "Request must be a JSON object." }],
+    };
+  }
+  const errors: FieldError[] = [];
+  if (Array.isArray(input.items)) {
+    validateNewsletterItems(input.items, errors);
+  } else {
+    errors.push({ field: "items", message: "Items must be a list." });
+  }
+  if (
+    !Array.isArray(input.columns) ||
+    input.columns.some((column) => !COLUMN_IDS.includes(column))
+  ) {
+    errors.push({ field: "columns", message: "Select known columns." });
+  }
+  if (
+    input.groupBy !== undefined &&
+    !NEWSLETTER_GROUPINGS.some((grouping) => grouping.id === input.groupBy)
+  ) {
+    errors.push({ field: "groupBy", message: "Unknown section grouping." });
+  }
+  if (!isOptionalString(input.title)) {
+    errors.push({ field: "title", message: "Title must be text." });
+  }
+  if (!isOptionalString(input.lastRun)) {
+    errors.push({ field: "lastRun", message: "Last run must be a date." });
+  }
+  const timeRange = validateTimeRange(input.timeRange, errors);
+  if (errors.length > 0 || !timeRange) {
+    return { ok: false, errors };
+  }
+  return {
+    ok: true,
+    value: {
+      items: input.items as NewsletterRequest["items"],
+      columns: input.columns as ExportColumn[],
+      groupBy: input.groupBy as NewsletterGrouping | undefined,
+      timeRange,
+      lastRun: input.lastRun as string | null | undefined,
+      title: input.title as string | undefined,
+    },
+  };
+}
+
+/** Checks an issue submitted for approval; the items are taken as curated. */
+export function validateNewsletterIssue(
+  input: unknown,
+): ValidationResult<Omit<NewsletterIssue, "id" | "approvedAt">> {
+  if (!isRecord(input)) {
+    return {
+      ok: false,
+      errors: [{ field: "", message: "Issue must be a JSON object." }],
+    };
+  }
+  const errors: FieldError[] = [];
+  const title = typeof input.title === "string" ? input.title.trim() : "";
+  if (!title) {
+    errors.push({ field: "title", message: "Give the issue a title." });
+  }
+  const items = validateIssueItems(input.items, errors);
+  if (
+    !Array.isArray(input.columns) ||
+    input.columns.length === 0 ||
+    input.columns.some((column) => !COLUMN_IDS.includes(column))
+  ) {
+    errors.push({ field: "columns", message: "Select known columns." });
+  }
+  if (!NEWSLETTER_GROUPINGS.some((grouping) => grouping.id === input.groupBy)) {
+    errors.push({ field: "groupBy", message: "Unknown section grouping." });
+  }
+  const workspaceId = input.workspaceId ?? null;
+  if (workspaceId !== null && typeof workspaceId !== "string") {
+    errors.push({ field: "workspaceId", message: "Unknown workspace." });
+  }
+  const timeRange = validateTimeRange(input.timeRange, errors);
+  if (errors.length > 0 || !timeRange) {
+    return { ok: false, errors };
+  }
+  return {
+    ok: true,
+    value: {
+      workspaceId: workspaceId as string | null,
+      title,
+      groupBy: input.groupBy as NewsletterGrouping,
+      columns: input.columns as ExportColumn[],
+      timeRange,
+      lastRun: typeof input.lastRun === "string" ? input.lastRun : null,
+      items,
+    },
+  };
+}
+
+export function invalidPayloadBody(errors: FieldError[]) {
+  return { error: "Invalid search request.", fieldErrors: errors };
+}
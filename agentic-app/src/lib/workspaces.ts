@@ -0,0 +1,179 @@
+import { randomUUID } from "node:crypto";
+import { TimeRangeOption } from "@/lib/types";
+import { ArticleSettings, DEFAULT_ARTICLE_SETTINGS } from "@/lib/articles";
+import { DEFAULT_COLUMNS, ExportColumn } from "@/lib/columns";
+import { EMPTY_FILTERS, FiltersState } from "@/lib/filters";
+import { NewsletterGrouping } from "@/lib/newsletter";
+import {
+  DEFAULT_SCORING_CONFIG,
+  ScoringConfig,
+  WeightedKeywordRow,
+} from "@/lib/scoring";
+import { AdapterId, DEFAULT_ADAPTERS } from "@/lib/sources/catalog";
+import { WatchTarget } from "@/lib/targets";
+import { EMPTY_TAXONOMY, Taxonomy } from "@/lib/taxonomy";
+import { readJson, updateJson } from "@/lib/store";
+
+export type WorkspaceSettings = {
+  keywordRows: WeightedKeywordRow[];
+  companyTargets: WatchTarget[];
+  timeRange: TimeRangeOption;
+  maxItems: number;
+  selectedColumns: ExportColumn[];
+  filters: FiltersState;
+  adapters: AdapterId[];
+  scoring: ScoringConfig;
+  newsletterGroupBy: NewsletterGrouping;
+  taxonomy: Taxonomy;
+  articles: ArticleSettings;
+};
+
+export type WorkspaceSchedule = {
+  cron: string;
+  enabled: boolean;
+  lastTriggeredAt?: string;
+};
+
+export type Workspace = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  settings: WorkspaceSettings;
+  schedule?: WorkspaceSchedule;
+};
+
+export type WorkspaceSummary = Omit<Workspace, "settings"> & {
+  keywordCount: number;
+  targetCount: number;
+};
+
+export type WorkspaceInput = {
+  name?: string;
+  settings?: Partial<WorkspaceSettings>;
+  schedule?: Pick<WorkspaceSchedule, "cron" | "enabled"> | null;
+};
+
+const STORE_NAME = "workspaces";
+
+export const DEFAULT_WORKSPACE_SETTINGS: WorkspaceSettings = {
+  keywordRows: [],
+  companyTargets: [],
+  timeRange: { preset: "7d" },
+  maxItems: 60,
+  selectedColumns: DEFAULT_COLUMNS,
+  filters: EMPTY_FILTERS,
+  adapters: DEFAULT_ADAPTERS,
+  scoring: DEFAULT_SCORING_CONFIG,
+  newsletterGroupBy: "sopCategory",
+  taxonomy: EMPTY_TAXONOMY,
+  articles: DEFAULT_ARTICLE_SETTINGS,
+};
+
+/** Fills settings introduced after a workspace was saved with their defaults. */
+async function readWorkspaces() {
+  const workspaces = await readJson<Workspace[]>(STORE_NAME, []);
+  return workspaces.map((workspace) => ({
+    ...workspace,
+    settings: { ...DEFAULT_WORKSPACE_SETTINGS, ...workspace.settings },
+  }));
+}
+
+function toSummary(workspace: Workspace): WorkspaceSummary {
+  const { settings, ...rest } = workspace;
+  return {
+    ...rest,
+    keywordCount: settings.keywordRows.length,
+    targetCount: settings.companyTargets.length,
+  };
+}
+
+export async function listWorkspaces() {
+  const workspaces = await readJson<Workspace[]>(STORE_NAME, []);
+  return workspaces
+    .map(toSummary)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getWorkspace(id: string) {
+  const workspaces = await readWorkspaces();
+  return workspaces.find((workspace) => workspace.id === id) ?? null;
+}
+
+export function createWorkspace(input: WorkspaceInput) {
+  const now = new Date().toISOString();
+  const workspace: Workspace = {
+    id: randomUUID(),
+    name: input.name?.trim() || "Untitled workspace",
+    createdAt: now,
+    updatedAt: now,
+    settings: { ...DEFAULT_WORKSPACE_SETTINGS, ...input.settings },
+  };
+  return updateJson<Workspace[], Workspace>(STORE_NAME, [], (current) => ({
+    next: [...current, workspace],
+    result: workspace,
+  }));
+}
+
+export function updateWorkspace(id: string, input: WorkspaceInput) {
+  return updateJson<Workspace[], Workspace | null>(STORE_NAME, [], (current) => {
+    const existing = current.find((workspace) => workspace.id === id);
+    if (!existing) {
+      return { next: current, result: null };
+    }
+    const updated: Workspace = {
+      ...existing,
+      name: input.name?.trim() || existing.name,
+      updatedAt: new Date().toISOString(),
+      settings: { ...existing.settings, ...input.settings },
+    };
+    if (input.schedule === null) {
+      delete updated.schedule;
+    } else if (input.schedule) {
+      updated.schedule = {
+        ...existing.schedule,
+        cron: input.schedule.cron.trim(),
+        enabled: input.schedule.enabled,
+      };
+    }
+    return {
+      next: current.map((workspace) =>
+        workspace.id === id ? updated : workspace,
+      ),
+      result: updated,
+    };
+  });
+}
+
+export function deleteWorkspace(id: string) {
+  return updateJson<Workspace[], boolean>(STORE_NAME, [], (current) => {
+    const next = current.filter((workspace) => workspace.id !== id);
+    return { next, result: next.length !== current.length };
+  });
+}
+
+export async function listScheduledWorkspaces() {
+  const workspaces = await readWorkspaces();
+  return workspaces.filter((workspace) => workspace.schedule?.enabled);
+}
+
+/**
+ * Claims a schedule trigger for a minute without touching the workspace's
+ * last-modified time. Returns false when the minute was already claimed, so
+ * overlapping ticks never start the same run twice.
+ */
+export function recordScheduleTrigger(id: string, triggeredAt: string) {
+  return updateJson<Workspace[], boolean>(STORE_NAME, [], (current) => {
+    const target = current.find((workspace) => workspace.id === id);
+    if (!target?.schedule || target.schedule.lastTriggeredAt === triggeredAt) {
+      return { next: current, result: false };
+    }
+    const schedule = { ...target.schedule, lastTriggeredAt: triggeredAt };
+    return {
+      next: current.map((workspace) =>
+        workspace === target ? { ...workspace, schedule } : workspace,
+      ),
+      result: true,
+    };
+  });
+}